@@ -2,43 +2,98 @@ import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import LogConsole from './components/LogConsole';
 import ChartWidget from './components/ChartWidget';
 import SignalCard from './components/SignalCard';
-import { Candle, LogEntry, Signal, BotStats, TelegramConfig, NewsItem } from './types';
-import { analyzeMarket, calculateIndicators, checkSignals, resampleCandles, formatToIST, trainLSTMModel, LSTMModelData, generateMarketNews } from './utils/simulation';
-
-// TWELVEDATA API KEYS (For History)
-const TD_API_KEYS = [
-    "d7b552b650a944b9be511980d28a207e",
-    "a4f4b744ea454eec86da0e1c0688bb86",
-    "bd350e0aa30d441ca220f04256652b78"
-];
-
-// FINNHUB API KEYS (For Live WebSocket)
-const FINNHUB_KEYS = [
-    "d1ro1s9r01qk8n686hdgd1ro1s9r01qk8n686he0",
-    "d4906f1r01qshn3k06u0d4906f1r01qshn3k06ug", 
-    "cvh4pg1r01qp24kfssigcvh4pg1r01qp24kfssj0",
-    "d472qlpr01qh8nnas0t0d472qlpr01qh8nnas0tg"
-];
-
-const SYMBOL = 'EUR/USD'; 
-const FINNHUB_SYMBOL = 'OANDA:EUR_USD'; 
-
-// REMOVED 1 MINUTE TIMEFRAME AS REQUESTED
-const TIMEFRAMES = [
-    { label: '5 min', value: 5, id: '5m' },
-    { label: '15 min', value: 15, id: '15m' },
-    { label: '30 min', value: 30, id: '30m' },
-    { label: '45 min', value: 45, id: '45m' },
-    { label: '1 hour', value: 60, id: '1h' },
-];
+import BacktestPanel from './components/BacktestPanel';
+import SettingsPanel from './components/SettingsPanel';
+import Watchlist from './components/Watchlist';
+import SignalJournal from './components/SignalJournal';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import StrategyEditor from './components/StrategyEditor';
+import OptimizerPanel from './components/OptimizerPanel';
+import ModelPanel from './components/ModelPanel';
+import BlackoutPanel from './components/BlackoutPanel';
+import SessionPanel from './components/SessionPanel';
+import { Candle, LogEntry, Signal, BotStats, NewsItem, AppSettings, StrategyConfig, ModelVersion, LSTMConfig, EconomicEvent, BlackoutConfig, SessionConfig } from './types';
+import { checkSignals, deserializeLSTMModel, serializeLSTMModel, disposeLSTMModel, LSTMModelData, BREAK_EVEN_PROBABILITY, MarketSentiment, formatToIST, formatTimeToIST } from './utils/simulation';
+import {
+  TIMEFRAMES, MAX_CANDLES, SYMBOLS, DEFAULT_SYMBOL, getSymbolSpec, formatPrice,
+  MODEL_RETRAIN_EVERY, MODEL_DRIFT_WINDOW, MODEL_DRIFT_HIT_RATE, MODEL_MAX_AGE_MS, MODEL_VERSIONS_KEPT,
+  MAX_BACKFILL_MINUTES, MAX_QUIET_MINUTES
+} from './constants';
+import { SimEnvironment, ReplayEnvironment, systemEnvironment, createSeededEnvironment, createReplayEnvironment, getSeedFromUrl, createRandomId } from './utils/environment';
+import { loadSettings, saveSettings, getEnvSettings, isSettingsEncrypted } from './utils/settings';
+import { querySignals, saveSignals } from './utils/journal';
+import { Calibration, describeCalibration, fitCalibration, getCalibrationSamples } from './utils/calibration';
+import { getAiAccuracy, getSettledSignals } from './utils/analytics';
+import { loadStrategyConfig, saveStrategyConfig, getConfigVersion } from './utils/strategyConfig';
+import { loadLSTMConfig, saveLSTMConfig } from './utils/lstmConfig';
+import { strategyRegistry, loadStrategyPluginState, saveStrategyPluginState, StrategyPluginState } from './utils/strategies';
+import { AnalysisClient, createAnalysisClient } from './utils/analysisClient';
+import { CandleCloseResult, ModelLiveStats } from './utils/analysisEngine';
+import { createModelVersionId, listModelVersions, loadModel, pruneModelVersions, saveModelVersion, updateModelLiveStats } from './utils/modelStore';
+import { formatConfluence } from './utils/confluence';
+import { getLearnerName } from './utils/ensemble';
+import { NewsSource, createNewsSource } from './utils/newsData';
+import { loadBlackoutConfig, saveBlackoutConfig } from './utils/blackout';
+import { SpikeFilter, cleanCandles, describeDataQuality, fillQuietMinutes, findGaps } from './utils/dataQuality';
+import { MarketStatus, describeMarketStatus, getMarketStatus, isMarketOpen, loadSessionConfig, saveSessionConfig } from './utils/sessions';
+import { ConnectionStatus, MarketDataProvider, TickAggregator, createTwelveDataProvider, createFinnhubProvider, createSyntheticProvider, createReplayProvider, combineProviders, parseCandleFile } from './utils/marketData';
+
+type DataSource = 'LIVE' | 'SYNTHETIC' | 'REPLAY';
+
+// Optional ?seed=<int> makes every random draw (signal ids, news, jitter) reproducible
+const SEED = getSeedFromUrl();
+// Cosmetic randomness (price jitter, log ids) draws from its own stream, so
+// UI timers never shift the draws of the simulation
+const UI_ENV: SimEnvironment = SEED !== undefined ? createSeededEnvironment(SEED + 2) : systemEnvironment;
+// Replays and seeded runs take "now" from candle / tick time, not the wall clock
+const usesDataClock = (provider: MarketDataProvider) => !provider.isRealtime || SEED !== undefined;
+
+const WATCHLIST_STORAGE_KEY = 'eurusd-bot.watchlist';
+
+const loadWatchlist = (): string[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(WATCHLIST_STORAGE_KEY) || '[]');
+        const valid = (stored as string[]).filter(s => SYMBOLS.some(spec => spec.symbol === s));
+        return valid.length > 0 ? valid : [DEFAULT_SYMBOL];
+    } catch (e) {
+        return [DEFAULT_SYMBOL];
+    }
+};
+
+// Per-symbol pipeline state: raw 1m candle store, forming candle & a copy of
+// the LSTM model (for backtests). Indicators and analysis run in the worker.
+interface SymbolFeed {
+  candles: Candle[];
+  aggregator: TickAggregator;
+  model?: LSTMModelData;
+  liveBaseline?: ModelVersion['live']; // Stored hit counts of a restored model
+  candlesSinceTraining: number;
+  retrainQueued?: boolean;
+  unsubscribe?: () => void;
+  spikeFilter: SpikeFilter;
+  closing: Promise<void>; // Candle closes run one at a time, so a backfill lands first
+  disconnectedAt?: number; // Set while the stream is down; the gap after it is backfilled
+}
 
 const App: React.FC = () => {
-  const [candles, setCandles] = useState<Candle[]>([]);
+  const [candles, setCandles] = useState<Candle[]>([]); // Active symbol only
+  const [chartData, setChartData] = useState<Candle[]>([]); // Resampled + indicators, from the worker
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [signals, setSignals] = useState<Signal[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [selectedTf, setSelectedTf] = useState(TIMEFRAMES[0]); // Default 5m now
   const [latestNews, setLatestNews] = useState<NewsItem | null>(null);
+  const [newsSource, setNewsSource] = useState<{ name: string; isSimulated: boolean; status: ConnectionStatus } | null>(null);
+  const [calendar, setCalendar] = useState<EconomicEvent[]>([]); // Tracked releases of the economic calendar
+
+  // Watchlist: every watched symbol runs its own pipeline, the active one is charted
+  const [watchlist, setWatchlist] = useState<string[]>(loadWatchlist);
+  const [activeSymbol, setActiveSymbol] = useState<string>(() => loadWatchlist()[0]);
+  const [quotes, setQuotes] = useState<Record<string, number>>({});
+  const [trainingSymbols, setTrainingSymbols] = useState<string[]>([]);
+  const [activeModels, setActiveModels] = useState<Record<string, string | undefined>>({}); // Symbol -> ModelVersion.id
+  const [modelStats, setModelStats] = useState<Record<string, ModelLiveStats>>({});
+  const [calibration, setCalibration] = useState<Calibration | null>(null); // Raw P(win) -> calibrated, shared with the worker
   
   // New state for Jitter (High Frequency Display)
   const [displayPrice, setDisplayPrice] = useState<number>(0);
@@ -54,90 +109,203 @@ const App: React.FC = () => {
     isTraining: false
   });
   
-  const [tgConfig, setTgConfig] = useState<TelegramConfig>({ botToken: '', chatId: '', enabled: false });
-  const [showTgModal, setShowTgModal] = useState(false);
+  // Provider keys + Telegram config (env defaults, overridden by the settings panel)
+  const [settings, setSettings] = useState<AppSettings>(getEnvSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsLocked, setSettingsLocked] = useState(false);
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState<string | null>(null);
+  const [showBacktest, setShowBacktest] = useState(false);
+  const [showJournal, setShowJournal] = useState(false);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [strategyConfig, setStrategyConfig] = useState<StrategyConfig>(loadStrategyConfig);
+  const [showStrategy, setShowStrategy] = useState(false);
+  const [showOptimizer, setShowOptimizer] = useState(false);
+  const [showModels, setShowModels] = useState(false);
+  const [lstmConfig, setLSTMConfig] = useState<LSTMConfig>(loadLSTMConfig); // Used by the next training
+  const [blackoutConfig, setBlackoutConfig] = useState<BlackoutConfig>(loadBlackoutConfig); // News blackout windows
+  const [showBlackout, setShowBlackout] = useState(false);
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig>(loadSessionConfig); // Allowed trading sessions + holidays
+  const [marketStatus, setMarketStatus] = useState<MarketStatus | null>(null);
+  const [showSessions, setShowSessions] = useState(false);
+  // Enabled scoring plugins + weights, mirrored into the shared strategyRegistry
+  const [pluginState, setPluginState] = useState<Record<string, StrategyPluginState>>(() => {
+      strategyRegistry.applyState(loadStrategyPluginState());
+      return strategyRegistry.getState();
+  });
 
-  const currentCandleRef = useRef<Candle | null>(null);
-  const candlesRef = useRef<Candle[]>([]); 
-  const wsRef = useRef<WebSocket | null>(null);
+  const feedsRef = useRef<Record<string, SymbolFeed>>({});
+  // Bumped on every (re)start so a stale history fetch can't overwrite a newer feed
+  const feedIdRef = useRef(0);
+  // LSTM trainings run one symbol at a time so candle analysis isn't starved
+  const trainingQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Indicators, resampling, analysis and training all run in this worker
+  const analysisRef = useRef<AnalysisClient | null>(null);
+  if (!analysisRef.current) analysisRef.current = createAnalysisClient();
+  const analysis = analysisRef.current;
   
   // Refs for state that shouldn't trigger WS reconnection
   const selectedTfRef = useRef(selectedTf);
-  const tgConfigRef = useRef(tgConfig);
+  const activeSymbolRef = useRef(activeSymbol);
+  const watchlistRef = useRef(watchlist);
+  const settingsRef = useRef(settings);
+  const strategyConfigRef = useRef(strategyConfig);
+  const lstmConfigRef = useRef(lstmConfig);
+  const sessionConfigRef = useRef(sessionConfig);
+  const marketLabelRef = useRef<string | null>(null); // Last logged market status
+  // Kept in memory only, so later saves stay encrypted
+  const passphraseRef = useRef<string | undefined>(undefined);
   const latestNewsRef = useRef(latestNews);
   
   // Ref to track signals synchronously for duplicate prevention
   const signalsRef = useRef<Signal[]>([]);
-  
-  // AI Model Ref
-  const aiModelRef = useRef<LSTMModelData | undefined>(undefined);
+  const calibrationMethodRef = useRef<Calibration['method'] | undefined>(undefined);
+  // Last status written to the journal, per signal id
+  const journaledRef = useRef<Record<string, Signal['status']>>({});
+
+  // Clock + random source shared by every loop below (replaced per feed in startFeed)
+  const envRef = useRef<SimEnvironment>(SEED !== undefined ? createReplayEnvironment(SEED, Date.now()) : systemEnvironment);
+  // The same env as state: the news subscription is rebuilt on the clock of every new feed
+  const [feedEnv, setFeedEnv] = useState<SimEnvironment>(envRef.current);
+  const newsSourceRef = useRef<NewsSource | null>(null);
 
   // Sync refs with state
   useEffect(() => { selectedTfRef.current = selectedTf; }, [selectedTf]);
-  useEffect(() => { tgConfigRef.current = tgConfig; }, [tgConfig]);
+  useEffect(() => { activeSymbolRef.current = activeSymbol; }, [activeSymbol]);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  useEffect(() => { strategyConfigRef.current = strategyConfig; }, [strategyConfig]);
+  useEffect(() => { lstmConfigRef.current = lstmConfig; }, [lstmConfig]);
+  useEffect(() => { sessionConfigRef.current = sessionConfig; }, [sessionConfig]);
   useEffect(() => { latestNewsRef.current = latestNews; }, [latestNews]);
   useEffect(() => { signalsRef.current = signals; }, [signals]);
+  useEffect(() => {
+      watchlistRef.current = watchlist;
+      localStorage.setItem(WATCHLIST_STORAGE_KEY, JSON.stringify(watchlist));
+  }, [watchlist]);
 
   const addLog = useCallback((level: LogEntry['level'], message: string) => {
     const newLog: LogEntry = {
-      id: Math.random().toString(36).substr(2, 9),
-      timestamp: new Date().toLocaleTimeString([], { hour12: false }),
+      id: createRandomId(UI_ENV, 9),
+      timestamp: formatTimeToIST(envRef.current.now()),
       level,
       message
     };
     setLogs(prev => [...prev.slice(-99), newLog]);
   }, []);
 
+  // --- PROBABILITY CALIBRATION ---
+  // Refitted on every journaled signal with a raw P(win) that has settled
+  const refreshCalibration = useCallback(async () => {
+      const next = fitCalibration(getCalibrationSamples(await querySignals()));
+      // Logged when calibration starts or switches from Platt to isotonic
+      if (next && next.method !== calibrationMethodRef.current) addLog('INFO', `📐 Signal confidence calibrated: ${describeCalibration(next)}`);
+      calibrationMethodRef.current = next?.method;
+      setCalibration(next);
+      await analysis.setCalibration(next);
+  }, [addLog, analysis]);
+
+  useEffect(() => {
+      refreshCalibration().catch(err => addLog('ERROR', 'Could not fit confidence calibration: ' + err.message));
+  }, [refreshCalibration, addLog]);
+
+  // --- NEWS BLACKOUT ---
+  // Calendar releases and hand-scheduled events, pushed to the worker on change
+  useEffect(() => {
+      analysis.setBlackout([...calendar, ...blackoutConfig.events], blackoutConfig)
+          .catch(err => addLog('ERROR', 'Could not apply news blackout: ' + err.message));
+  }, [calendar, blackoutConfig, analysis, addLog]);
+
+  // --- SIGNAL JOURNAL ---
+  // Persist new signals and status changes (PENDING -> WIN/LOSS)
+  useEffect(() => {
+      const changed = signals.filter(s => journaledRef.current[s.id] !== s.status);
+      if (changed.length === 0) return;
+      changed.forEach(s => { journaledRef.current[s.id] = s.status; });
+      const calibrationChanged = changed.some(s => s.status !== 'PENDING' && s.rawProbability !== undefined);
+      saveSignals(changed)
+          .then(() => calibrationChanged && refreshCalibration())
+          .catch(err => {
+              changed.forEach(s => { delete journaledRef.current[s.id]; });
+              addLog('ERROR', 'Journal write failed: ' + err.message);
+          });
+  }, [signals, addLog, refreshCalibration]);
+
+  // --- MARKET DATA PROVIDER ---
+  const [dataSource, setDataSource] = useState<DataSource>('LIVE');
+  const createProvider = useCallback((source: DataSource, replayCandles: Candle[] = [], replayName?: string): MarketDataProvider => {
+      if (source === 'SYNTHETIC') {
+          // Own random stream, so the walk doesn't consume draws from the app loops
+          return createSyntheticProvider({ env: SEED !== undefined ? createSeededEnvironment(SEED + 1) : systemEnvironment });
+      }
+      if (source === 'REPLAY') return createReplayProvider(replayCandles, { name: replayName });
+      return combineProviders(
+          createTwelveDataProvider({ apiKeys: settingsRef.current.twelveDataKeys, onLog: addLog }),
+          createFinnhubProvider({ apiKeys: settingsRef.current.finnhubKeys, onLog: addLog })
+      );
+  }, [addLog]);
+  const providerRef = useRef<MarketDataProvider | null>(null);
+
   // --- HIGH FREQUENCY JITTER (Simulates Millisecond Ticks) ---
   useEffect(() => {
       const interval = setInterval(() => {
-          if (currentCandleRef.current) {
-              const base = currentCandleRef.current.close;
-              // Very small random fluctuation (+/- 0.00002)
-              const jitter = (Math.random() - 0.5) * 0.00004;
+          const current = feedsRef.current[activeSymbolRef.current]?.aggregator.currentCandle;
+          if (current) {
+              const base = current.close;
+              // Very small random fluctuation (+/- 0.2 pip)
+              const jitter = (UI_ENV.random() - 0.5) * 0.4 * getSymbolSpec(activeSymbolRef.current).pipSize;
               setDisplayPrice(base + jitter);
           }
       }, 50); // Updates 20 times per second
       return () => clearInterval(interval);
   }, []);
 
-  // --- NEWS SIMULATION LOOP ---
+  // --- NEWS FEED ---
+  // Re-subscribed whenever the news settings or the feed clock change
+  const newsSettingsKey = JSON.stringify(settings.news);
   useEffect(() => {
-    // Generate initial news
-    setLatestNews(generateMarketNews());
+    MarketSentiment.setEnvironment(feedEnv);
+    MarketSentiment.reset(); // Headlines of the previous source don't carry over
+    setLatestNews(null);
+    setCalendar([]);
 
-    // New news every 3-5 minutes (Simulating realistic updates)
-    // Random interval between 3 min and 5 min
-    const intervalTime = Math.floor(Math.random() * (300000 - 180000 + 1) + 180000);
-    
-    const newsInterval = setInterval(() => {
-        const news = generateMarketNews();
-        setLatestNews(news);
-        const color = news.sentiment === 'POSITIVE' ? 'green' : news.sentiment === 'NEGATIVE' ? 'red' : 'gray';
-        addLog('INFO', `📰 NEWS: [${news.sentiment}] ${news.headline}`);
-    }, intervalTime);
+    const source = createNewsSource(JSON.parse(newsSettingsKey), { env: feedEnv, onLog: addLog });
+    newsSourceRef.current = source;
+    setNewsSource({ name: source.name, isSimulated: source.isSimulated, status: 'CONNECTING' });
+    addLog('INFO', `📰 News source: ${source.name}${source.isSimulated ? ' (simulated headlines)' : ''}`);
 
-    return () => clearInterval(newsInterval);
-  }, [addLog]);
+    const unsubscribe = source.subscribe(news => {
+        MarketSentiment.addNews(news);
+        setLatestNews(news);
+        addLog('INFO', `📰 NEWS: [${news.sentiment}] ${news.headline} (${news.source})`);
+    }, {
+        onStatus: status => setNewsSource(current => current && { ...current, status }),
+        onCalendar: setCalendar
+    });
+    return () => {
+        unsubscribe();
+        if (newsSourceRef.current === source) newsSourceRef.current = null;
+    };
+  }, [addLog, newsSettingsKey, feedEnv]);
 
-  // Use tgConfigRef to avoid dependency changes
+  // Use settingsRef to avoid dependency changes
   const sendTelegramAlert = useCallback(async (signal: Signal) => {
-      const config = tgConfigRef.current;
+      const config = settingsRef.current.telegram;
       if (!config.enabled || !config.botToken || !config.chatId) return;
 
       const emoji = signal.type === 'CALL' ? '🟢 ⬆️ CALL' : '🔴 ⬇️ PUT';
       const text = `
 🤖 <b>AI/ML BOT ALERT</b> 🤖
 
-Asset: ${SYMBOL}
+Asset: ${signal.symbol}
 Type: ${emoji}
-Entry: ${signal.price.toFixed(5)}
+Entry: ${formatPrice(signal.price, signal.symbol)}
 Timeframe: ${signal.timeframe}
 Strength: ${signal.signalStrength || 'N/A'}
-LSTM Target: ${signal.aiPrediction?.toFixed(5)}
+LSTM Target: ${signal.aiPrediction ? formatPrice(signal.aiPrediction, signal.symbol) : 'N/A'}
 Strategy: ${signal.strategy}
-Conf: ${(signal.confidence * 100).toFixed(0)}%
+Conf: ${(signal.confidence * 100).toFixed(0)}%${signal.rawProbability !== undefined ? ` P(win) (break-even ${(BREAK_EVEN_PROBABILITY * 100).toFixed(0)}%)` : ''}
 News Ctx: ${signal.newsContext || 'N/A'}
+MTF: ${signal.confluence ? formatConfluence(signal.confluence) : 'N/A'}
       `;
 
       try {
@@ -153,242 +321,593 @@ News Ctx: ${signal.newsContext || 'N/A'}
       }
   }, [addLog]);
 
-  // --- WEBSOCKET (FINNHUB) ---
-  const initWebSocket = useCallback((keyIndex: number) => {
-      if (wsRef.current) wsRef.current.close();
+  // --- LSTM LIFECYCLE: TRAINING (queued, one symbol at a time, in the worker) ---
+  // Every trained model becomes a stored version (utils/modelStore.ts); the
+  // newest one is restored on load and replaced on schedule or on drift.
+  const setFeedModel = useCallback((symbol: string, feed: SymbolFeed, model: LSTMModelData, baseline: ModelVersion['live']) => {
+      // The worker keeps its own copy for live analysis; this one feeds backtests
+      if (feed.model) disposeLSTMModel(feed.model);
+      feed.model = model;
+      feed.liveBaseline = baseline;
+      feed.candlesSinceTraining = 0;
+      setActiveModels(prev => ({ ...prev, [symbol]: model.version }));
+      setModelStats(prev => {
+          const next = { ...prev };
+          delete next[symbol];
+          return next;
+      });
+  }, []);
 
-      const apiKey = FINNHUB_KEYS[keyIndex % FINNHUB_KEYS.length]; 
-      const wsUrl = `wss://ws.finnhub.io?token=${apiKey}`;
-      
-      addLog('DEBUG', `Connecting to Finnhub Stream...`);
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      ws.onopen = () => {
-          addLog('INFO', `🔌 Connected to Live Stream (Finnhub)`);
-          ws.send(JSON.stringify({ type: 'subscribe', symbol: FINNHUB_SYMBOL }));
-          setIsConnected(true);
-      };
+  const queueTraining = useCallback((symbol: string, feedId: number, trigger: ModelVersion['trigger']) => {
+      const queued = feedsRef.current[symbol];
+      if (!queued || queued.retrainQueued) return;
+      queued.retrainQueued = true;
 
-      ws.onmessage = (event) => {
+      trainingQueueRef.current = trainingQueueRef.current.then(async () => {
+          const feed = feedsRef.current[symbol];
+          if (!feed || feed !== queued || feedId !== feedIdRef.current) return;
+
+          setTrainingSymbols(prev => [...prev, symbol]);
+          setStats(s => ({...s, isTraining: true}));
+          const config = lstmConfigRef.current;
+          addLog('INFO', `🧠 Training LSTM for ${symbol} [${trigger}]... (last ${config.trainingCandles} candles, ${config.features.length} features)`);
           try {
-              const message = JSON.parse(event.data);
-              
-              if (message.type === 'trade' && message.data) {
-                  message.data.forEach((trade: any) => {
-                      const price = trade.p;
-                      const now = Date.now();
-                      const minuteKey = formatToIST(now); // Use IST
-
-                      if (!currentCandleRef.current) {
-                          currentCandleRef.current = { 
-                              time: minuteKey, 
-                              open: price, 
-                              high: price, 
-                              low: price, 
-                              close: price, 
-                              volume: 0, 
-                              timestamp: now 
-                          };
-                          setCandles(prev => [...prev, currentCandleRef.current!]);
-                          setDisplayPrice(price);
-                      } else if (currentCandleRef.current.time !== minuteKey) {
-                          // CLOSE PREVIOUS 1M CANDLE
-                          const completedCandle = { ...currentCandleRef.current };
-                          const newHistory = [...candlesRef.current, completedCandle].slice(-3500);
-                          
-                          // We calculate indicators on the 1m chart for display purposes
-                          const withIndicators = calculateIndicators(newHistory);
-                          setCandles(withIndicators);
-                          candlesRef.current = withIndicators;
-
-                          // --- PARALLEL TIMEFRAME ANALYSIS ---
-                          // Analyzes ALL timeframes every minute (even on forming candles)
-                          // ensuring no idle waiting time.
-                          const activeTfs = TIMEFRAMES; 
-                          let signalsFoundCount = 0;
-                          
-                          activeTfs.forEach(tf => {
-                              // CHECK FOR ACTIVE SIGNAL:
-                              // If there is already a PENDING signal for this timeframe, do not generate a new one.
-                              // Wait for it to expire (WIN/LOSS).
-                              const hasActiveSignal = signalsRef.current.some(
-                                  s => s.timeframe === tf.id && s.status === 'PENDING'
-                              );
-
-                              if (hasActiveSignal) {
-                                  // Skip analysis for this TF until current signal expires
-                                  return; 
-                              }
-
-                              const tfMinutes = tf.value;
-                              
-                              // RESAMPLE: Includes the latest closed 1m candle
-                              const resampled = resampleCandles(withIndicators, tfMinutes);
-                              const resampledWithInd = calculateIndicators(resampled);
-
-                              const { signal, regime, debug } = analyzeMarket(
-                                  resampledWithInd, 
-                                  tf.id, 
-                                  aiModelRef.current
-                              );
-
-                              if (signal) {
-                                  // STRICT QUALITY FILTER:
-                                  // Only accept MODERATE, STRONG, or MAX. Reject WEAK.
-                                  if (signal.signalStrength === 'WEAK') {
-                                      // addLog('DEBUG', `Skipped WEAK signal on ${tf.id}`);
-                                      return;
-                                  }
-
-                                  setSignals(prev => [signal, ...prev]);
-                                  addLog('INFO', `🤖 SIGNAL (${tf.id}): ${signal.type} [${signal.signalStrength}]`);
-                                  sendTelegramAlert(signal);
-                                  signalsFoundCount++;
-                              }
-
-                              // Update stats if this is the currently viewed timeframe
-                              if (tf.id === selectedTfRef.current.id) {
-                                  setStats(prevStats => ({ ...prevStats, marketRegime: regime }));
-                              }
-                          });
-                          
-                          if (signalsFoundCount > 0) {
-                              addLog('DEBUG', `⚡ Generated ${signalsFoundCount} High-Quality Signals`);
-                          }
-
-                          // Start new candle
-                          currentCandleRef.current = { 
-                              time: minuteKey, 
-                              open: price, 
-                              high: price, 
-                              low: price, 
-                              close: price, 
-                              volume: 0, 
-                              timestamp: now 
-                          };
-                      } else {
-                          // UPDATE CURRENT CANDLE (SAME MINUTE)
-                          const c = currentCandleRef.current;
-                          c.high = Math.max(c.high, price);
-                          c.low = Math.min(c.low, price);
-                          c.close = price;
-                          
-                          // Update last candle in state
-                          setCandles(prev => {
-                              if (prev.length === 0) return [c];
-                              const next = [...prev];
-                              next[next.length - 1] = { ...c };
-                              return next;
-                          });
-                      }
-                  });
+              const trainedOn = feed.candles.slice(-config.trainingCandles);
+              const id = createModelVersionId(symbol, envRef.current.now());
+              const { model, durationMs } = await analysis.train(symbol, id, config);
+              if (feedId !== feedIdRef.current || feedsRef.current[symbol] !== feed) return;
+              const modelData = await deserializeLSTMModel(model);
+              setFeedModel(symbol, feed, modelData, { predictions: 0, hits: 0 });
+              const validation = modelData.validation;
+              addLog('INFO', `🎉 LSTM Model for ${symbol} Trained in ${(durationMs / 1000).toFixed(2)}s`
+                  + (validation ? ` (${validation.epochs} epochs, val loss ${validation.loss.toFixed(3)} vs baseline ${validation.baselineLoss.toFixed(3)}, direction ${(validation.directionalAccuracy * 100).toFixed(1)}%)` : '')
+                  + '! AI Online.');
+              if (modelData.members?.length) {
+                  addLog('INFO', `🗳️ Ensemble for ${symbol}: ` + modelData.members.map(m => m.kind === 'SEQUENCE' && m.model.validation
+                      ? `${getLearnerName(m.id)} ${(m.model.validation.directionalAccuracy * 100).toFixed(1)}%`
+                      : getLearnerName(m.id)).join(', '));
               }
-          } catch (e) {
-              console.error("Error parsing WS message", e);
+
+              const version: ModelVersion = {
+                  id,
+                  symbol,
+                  createdAt: envRef.current.now(),
+                  trigger,
+                  trainedOn: { candles: trainedOn.length, from: trainedOn[0]?.timestamp ?? 0, to: trainedOn[trainedOn.length - 1]?.timestamp ?? 0 },
+                  validationLoss: modelData.validationLoss ?? NaN,
+                  validation,
+                  config,
+                  members: modelData.members?.map(m => ({ id: m.id, validation: m.kind === 'SEQUENCE' ? m.model.validation : undefined })),
+                  live: { predictions: 0, hits: 0 }
+              };
+              saveModelVersion(version, modelData)
+                  .then(() => pruneModelVersions(symbol, MODEL_VERSIONS_KEPT))
+                  .catch(err => addLog('ERROR', `Could not store LSTM model for ${symbol}: ` + err.message));
+          } catch (err) {
+              console.error(err);
+              addLog('ERROR', `Failed to train AI model for ${symbol}: ` + (err as any).message);
+              feed.candlesSinceTraining = 0; // Back off before the next attempt
+          } finally {
+              feed.retrainQueued = false;
+              setTrainingSymbols(prev => prev.filter(s => s !== symbol));
+              setStats(s => ({...s, isTraining: false}));
           }
-      };
+      });
+  }, [addLog, analysis, setFeedModel]);
 
-      ws.onclose = () => {
-          setIsConnected(false);
-          addLog('WARNING', 'Stream disconnected. Switching key & reconnecting in 2s...');
-          setTimeout(() => initWebSocket(keyIndex + 1), 2000);
-      };
-      
-      ws.onerror = (e) => {
-          console.error("WebSocket Error", e);
+  // Loads a stored version into the worker and the feed
+  const activateStoredModel = useCallback(async (version: ModelVersion): Promise<boolean> => {
+      const feed = feedsRef.current[version.symbol];
+      if (!feed) return false;
+      const modelData = await loadModel(version.id);
+      if (feedsRef.current[version.symbol] !== feed) {
+          disposeLSTMModel(modelData);
+          return false;
+      }
+      await analysis.setModel(version.symbol, await serializeLSTMModel(modelData));
+      setFeedModel(version.symbol, feed, modelData, version.live);
+      return true;
+  }, [analysis, setFeedModel]);
+
+  // Newest stored model if it's recent enough, otherwise a fresh training
+  const restoreOrTrain = useCallback(async (symbol: string, feedId: number) => {
+      try {
+          const [latest] = await listModelVersions(symbol);
+          if (latest && envRef.current.now() - latest.createdAt < MODEL_MAX_AGE_MS && feedId === feedIdRef.current) {
+              if (await activateStoredModel(latest)) {
+                  addLog('INFO', `💾 Restored LSTM ${latest.id} for ${symbol} (val loss ${latest.validationLoss.toExponential(2)})`);
+                  return;
+              }
+          }
+      } catch (err) {
+          addLog('ERROR', `Could not restore LSTM model for ${symbol}: ` + (err as any).message);
+      }
+      queueTraining(symbol, feedId, 'INITIAL');
+  }, [addLog, activateStoredModel, queueTraining]);
+
+  // --- CLOSED 1M CANDLE: PARALLEL TIMEFRAME ANALYSIS (in the worker) ---
+  const handleCandleClose = useCallback(async (symbol: string, completedCandle: Candle) => {
+      const feed = feedsRef.current[symbol];
+      if (!feed) return;
+
+      feed.candles = [...feed.candles, completedCandle].slice(-MAX_CANDLES);
+      if (symbol === activeSymbolRef.current) setCandles(feed.candles);
+
+      // News sentiment is scored as EUR/USD direction; flip it for USD-base pairs
+      const sentimentScore = MarketSentiment.getScore() * getSymbolSpec(symbol).sentimentBias;
+
+      // CHECK FOR ACTIVE SIGNAL:
+      // If there is already a PENDING signal for this symbol & timeframe, do not generate a new one.
+      // Wait for it to expire (WIN/LOSS).
+      // Outside the allowed sessions every timeframe is skipped; indicators still update.
+      const tradingAllowed = getMarketStatus(envRef.current.now(), sessionConfigRef.current).allowed;
+      const skipTimeframes = TIMEFRAMES
+          .filter(tf => !tradingAllowed || signalsRef.current.some(s => s.symbol === symbol && s.timeframe === tf.id && s.status === 'PENDING'))
+          .map(tf => tf.id);
+
+      let analysed: CandleCloseResult;
+      try {
+          analysed = await analysis.closeCandle(symbol, completedCandle, envRef.current.now(), sentimentScore, skipTimeframes);
+      } catch (err) {
+          addLog('ERROR', `Analysis failed for ${symbol}: ` + (err as any).message);
+          return;
+      }
+      if (feedsRef.current[symbol] !== feed) return; // Feed restarted meanwhile
+      const { results, model: liveStats } = analysed;
+
+      // --- LSTM DRIFT / SCHEDULED RETRAINING ---
+      feed.candlesSinceTraining++;
+      if (liveStats && feed.model && liveStats.version === feed.model.version) {
+          setModelStats(prev => ({ ...prev, [symbol]: liveStats }));
+          const baseline = feed.liveBaseline || { predictions: 0, hits: 0 };
+          if (liveStats.version) {
+              updateModelLiveStats(liveStats.version, {
+                  predictions: baseline.predictions + liveStats.predictions,
+                  hits: baseline.hits + liveStats.hits
+              }).catch(() => {});
+          }
+          const drifting = liveStats.recentCount >= MODEL_DRIFT_WINDOW && liveStats.recentHitRate < MODEL_DRIFT_HIT_RATE;
+          if (drifting && feed.candlesSinceTraining >= MODEL_DRIFT_WINDOW && !feed.retrainQueued) {
+              addLog('WARNING', `📉 LSTM drift on ${symbol}: ${(liveStats.recentHitRate * 100).toFixed(0)}% hit rate over the last ${liveStats.recentCount} candles`);
+              queueTraining(symbol, feedIdRef.current, 'DRIFT');
+          }
+      }
+      // Also retries after a failed training
+      if (feed.candlesSinceTraining >= MODEL_RETRAIN_EVERY) queueTraining(symbol, feedIdRef.current, 'SCHEDULED');
+
+      let signalsFoundCount = 0;
+      results.forEach(({ timeframe, signal, regime, blackout }) => {
+          if (blackout) {
+              addLog('WARNING', signal
+                  ? `🚧 ${symbol} (${timeframe}) ${signal.type} downgraded to ${signal.signalStrength}: ${blackout}`
+                  : `🚧 ${symbol} (${timeframe}) signal suppressed: ${blackout}`);
+          }
+
+          // STRICT QUALITY FILTER:
+          // Only accept MODERATE, STRONG, or MAX. Reject WEAK.
+          if (signal && signal.signalStrength !== 'WEAK') {
+              signalsRef.current = [signal, ...signalsRef.current];
+              setSignals(prev => [signal, ...prev]);
+              addLog('INFO', `🤖 SIGNAL ${symbol} (${timeframe}): ${signal.type} [${signal.signalStrength}]`);
+              sendTelegramAlert(signal);
+              signalsFoundCount++;
+          }
+
+          // Update stats if this is the currently viewed symbol & timeframe
+          if (symbol === activeSymbolRef.current && timeframe === selectedTfRef.current.id) {
+              setStats(prevStats => ({ ...prevStats, marketRegime: regime }));
+          }
+      });
+
+      if (signalsFoundCount > 0) {
+          addLog('DEBUG', `⚡ Generated ${signalsFoundCount} High-Quality Signals (${symbol})`);
+      }
+  }, [addLog, sendTelegramAlert, analysis, queueTraining]);
+
+  // --- DATA QUALITY: GAPS BEFORE A CLOSED CANDLE ---
+  // Minutes missing after a disconnect (or a long silence) are backfilled from
+  // the history provider; short gaps on a live stream had no ticks and are
+  // filled flat. Returns false for a candle not newer than the stored ones.
+  const repairGap = useCallback(async (symbol: string, feed: SymbolFeed, candle: Candle): Promise<boolean> => {
+      const last = feed.candles[feed.candles.length - 1];
+      if (!last) return true;
+      if (candle.timestamp <= last.timestamp) {
+          addLog('DEBUG', `🧹 ${symbol}: duplicate candle ${formatToIST(candle.timestamp)} dropped`);
+          return false;
+      }
+      const holidays = sessionConfigRef.current.holidays;
+      const [gap] = findGaps([last, candle], holidays);
+      const reconnected = feed.disconnectedAt !== undefined;
+      feed.disconnectedAt = undefined;
+      if (!gap) return true;
+
+      let filled: Candle[] = [];
+      if (!reconnected && gap.minutes <= MAX_QUIET_MINUTES) {
+          filled = fillQuietMinutes(last, candle.timestamp, holidays);
+          addLog('DEBUG', `🧹 ${symbol}: ${gap.minutes} minute(s) without ticks filled flat`);
+      } else if (providerRef.current) {
+          const count = Math.min(Math.ceil((candle.timestamp - last.timestamp) / 60000) + 5, MAX_BACKFILL_MINUTES);
+          try {
+              const history = await providerRef.current.fetchHistory(symbol, '1m', count);
+              filled = cleanCandles(history.filter(c => c.timestamp > last.timestamp && c.timestamp < candle.timestamp), { holidays }).candles;
+          } catch (err) {
+              addLog('WARNING', `🧹 ${symbol}: backfill failed: ` + (err as any).message);
+          }
+          const missing = findGaps([last, ...filled, candle], holidays).reduce((sum, g) => sum + g.minutes, 0);
+          addLog(missing > 0 ? 'WARNING' : 'INFO', `🧹 ${symbol}: ${gap.minutes}-minute gap backfilled with ${filled.length} candle(s)`
+              + (missing > 0 ? `, ${missing} minute(s) still missing (affected candles are not analysed)` : ''));
+      }
+      if (feedsRef.current[symbol] !== feed) return false; // Feed restarted meanwhile
+      if (filled.length > 0) {
+          await analysis.append(symbol, filled);
+          feed.candles = [...feed.candles, ...filled].slice(-MAX_CANDLES);
+      }
+      return true;
+  }, [addLog, analysis]);
+
+  const queueCandleClose = useCallback((symbol: string, candle: Candle) => {
+      const feed = feedsRef.current[symbol];
+      if (!feed) return;
+      feed.closing = feed.closing
+          .then(async () => {
+              if (await repairGap(symbol, feed, candle)) await handleCandleClose(symbol, candle);
+          })
+          .catch(err => addLog('ERROR', `Candle close failed for ${symbol}: ` + err.message));
+  }, [addLog, repairGap, handleCandleClose]);
+
+  // --- LIVE TICKS -> 1M CANDLES ---
+  const subscribeToTicks = useCallback((provider: MarketDataProvider, symbol: string) => {
+      const feed = feedsRef.current[symbol];
+      if (!feed) return;
+
+      feed.unsubscribe = provider.subscribeTicks(symbol, (tick) => {
+          // Replayed and seeded feeds drive the clock from tick time instead of the wall clock
+          if (usesDataClock(provider)) {
+              (envRef.current as ReplayEnvironment).setTime(tick.timestamp);
+              newsSourceRef.current?.advance?.();
+          }
+
+          // Weekend / holiday ticks (synthetic or polled quotes) are dropped, and the
+          // last candle is closed at the bell, so the reopening gap isn't one candle
+          if (!isMarketOpen(tick.timestamp, sessionConfigRef.current.holidays)) {
+              const closed = feed.aggregator.flush();
+              if (closed) queueCandleClose(symbol, closed);
+              feed.spikeFilter.reset(); // The reopening may gap
+              return;
+          }
+
+          // Outlier quotes (bad prints) never reach the candles
+          if (!feed.spikeFilter.accept(tick.price)) {
+              addLog('WARNING', `⚡ ${symbol}: spike tick ${tick.price} at ${formatToIST(tick.timestamp)} ignored`);
+              return;
+          }
+
+          const event = feed.aggregator.push(tick);
+          const isActive = symbol === activeSymbolRef.current;
+          setQuotes(prev => ({ ...prev, [symbol]: tick.price }));
+
+          if (event.type === 'OPEN') {
+              if (isActive) {
+                  setCandles(prev => [...prev, { ...event.candle }]);
+                  setDisplayPrice(tick.price);
+              }
+          } else if (event.type === 'CLOSE') {
+              // CLOSE PREVIOUS 1M CANDLE
+              queueCandleClose(symbol, event.closed);
+          } else if (isActive) {
+              // UPDATE CURRENT CANDLE (SAME MINUTE)
+              const c = event.candle;
+              setCandles(prev => {
+                  if (prev.length === 0) return [c];
+                  const next = [...prev];
+                  next[next.length - 1] = { ...c };
+                  return next;
+              });
+          }
+      }, {
+          onStatus: (status) => {
+              setIsConnected(status === 'CONNECTED');
+              if (status !== 'CONNECTED' && feed.disconnectedAt === undefined) feed.disconnectedAt = envRef.current.now();
+              // Prices may have moved while the stream was down
+              if (status === 'CONNECTED' && feed.disconnectedAt !== undefined) feed.spikeFilter.reset();
+          }
+      });
+  }, [queueCandleClose, addLog]);
+
+  // --- MARKET HOURS / SESSIONS ---
+  // Ticks can stop at the weekly close (real providers), so the close is also
+  // detected on a timer: the forming candles are closed and analysis pauses.
+  useEffect(() => {
+      const update = () => {
+          const status = getMarketStatus(envRef.current.now(), sessionConfig);
+          setMarketStatus(status);
+          const label = describeMarketStatus(status);
+          if (label !== marketLabelRef.current) {
+              if (marketLabelRef.current !== null) addLog('INFO', `${status.open ? '🌍' : '🌙'} ${label}${status.allowed ? '' : ' • no new signals'}`);
+              marketLabelRef.current = label;
+          }
+          if (!status.open) {
+              Object.keys(feedsRef.current).forEach(symbol => {
+                  const closed = feedsRef.current[symbol].aggregator.flush();
+                  if (closed) queueCandleClose(symbol, closed);
+              });
+          }
       };
+      update();
+      const interval = setInterval(update, 30 * 1000);
+      return () => clearInterval(interval);
+  }, [sessionConfig, addLog, queueCandleClose]);
+
+  // --- HISTORY + AI TRAINING, THEN STREAM (per symbol) ---
+  const startSymbol = useCallback(async (provider: MarketDataProvider, symbol: string, feedId: number) => {
+    // Starts as disconnected: the gap between the history and the stream is backfilled
+    const feed: SymbolFeed = {
+        candles: [], aggregator: new TickAggregator(), candlesSinceTraining: 0,
+        spikeFilter: new SpikeFilter(), closing: Promise.resolve(), disconnectedAt: 0
+    };
+    feedsRef.current[symbol] = feed;
 
-  }, [addLog, sendTelegramAlert]);
+    let histCandles: Candle[];
+    try {
+        // Synthetic history also covers weekends
+        const holidays = sessionConfigRef.current.holidays;
+        const raw = (await provider.fetchHistory(symbol, '1m', 3000)).filter(c => isMarketOpen(c.timestamp, holidays));
+        const { candles: cleaned, report } = cleanCandles(raw, { holidays });
+        if (report.duplicates + report.spikes + report.missingMinutes > 0) addLog('INFO', `🧹 ${symbol} history: ${describeDataQuality(report)}`);
+        histCandles = cleaned;
+    } catch (e) {
+        if (feedId === feedIdRef.current) addLog('ERROR', `CRITICAL: Could not fetch ${symbol} history. Analysis will be delayed.`);
+        return;
+    }
+    if (feedId !== feedIdRef.current || feedsRef.current[symbol] !== feed) return;
 
-  const fetchHistoricalData = useCallback(async () => {
-    addLog('INFO', '🚀 Starting AI Bot. Fetching 3000+ Candles from TwelveData...');
+    feed.candles = histCandles.slice(-MAX_CANDLES);
+    try {
+        await analysis.load(symbol, feed.candles);
+    } catch (e) {
+        if (feedId === feedIdRef.current) addLog('ERROR', `Could not load ${symbol} into the analysis worker: ` + (e as any).message);
+        return;
+    }
+    if (feedId !== feedIdRef.current || feedsRef.current[symbol] !== feed) return;
     
-    let loaded = false;
-    for (const apiKey of TD_API_KEYS) {
-        if (loaded) break;
-        try {
-            const url = `https://api.twelvedata.com/time_series?symbol=${SYMBOL}&interval=1min&outputsize=3000&apikey=${apiKey}&order=ASC&timezone=UTC`;
-            const response = await fetch(url);
-            const data = await response.json();
-
-            if (data.status === 'ok' && data.values) {
-                const histCandles: Candle[] = data.values.map((v: any) => {
-                    const utcString = v.datetime.replace(' ', 'T') + 'Z';
-                    const ts = new Date(utcString).getTime();
-                    
-                    return {
-                        time: formatToIST(ts), 
-                        open: parseFloat(v.open),
-                        high: parseFloat(v.high),
-                        low: parseFloat(v.low),
-                        close: parseFloat(v.close),
-                        volume: parseInt(v.volume || '0'),
-                        timestamp: ts
-                    };
-                });
-
-                const withIndicators = calculateIndicators(histCandles);
-                setCandles(withIndicators);
-                candlesRef.current = withIndicators;
-                
-                // Initialize display price
-                if(histCandles.length > 0) {
-                    setDisplayPrice(histCandles[histCandles.length - 1].close);
-                }
-
-                loaded = true;
-                addLog('INFO', `✅ Loaded ${histCandles.length} candles.`);
-                
-                // --- TRAIN AI MODEL ---
-                setStats(s => ({...s, isTraining: true}));
-                addLog('INFO', '🧠 Training LSTM Neural Network... (Optimized for last 500 candles)');
-                
-                const startTime = Date.now();
-                setTimeout(async () => {
-                    try {
-                        const modelData = await trainLSTMModel(withIndicators);
-                        const duration = ((Date.now() - startTime) / 1000).toFixed(2);
-                        aiModelRef.current = modelData;
-                        addLog('INFO', `🎉 LSTM Model Trained in ${duration}s! AI Online.`);
-                    } catch (err) {
-                        console.error(err);
-                        addLog('ERROR', 'Failed to train AI model: ' + (err as any).message);
-                    } finally {
-                        setStats(s => ({...s, isTraining: false}));
-                    }
-                }, 100);
-
-                initWebSocket(0);
-            } else {
-                addLog('WARNING', `TwelveData API limit: ${data.message}`);
-            }
-        } catch (e) {
-            addLog('ERROR', 'Connection error to TwelveData.');
+    if(histCandles.length > 0) {
+        const last = histCandles[histCandles.length - 1];
+        setQuotes(prev => ({ ...prev, [symbol]: last.close }));
+        // Initialize display price & replay clock
+        if (symbol === activeSymbolRef.current) {
+            setCandles(feed.candles);
+            setDisplayPrice(last.close);
+        }
+        if (usesDataClock(provider)) {
+            (envRef.current as ReplayEnvironment).setTime(last.timestamp + 60000);
+            newsSourceRef.current?.advance?.();
         }
     }
-    if (!loaded) addLog('ERROR', 'CRITICAL: Could not fetch history. Analysis will be delayed.');
-  }, [addLog, initWebSocket]);
+
+    addLog('INFO', `✅ Loaded ${histCandles.length} ${symbol} candles.`);
+    
+    // --- RESTORE OR TRAIN AI MODEL ---
+    restoreOrTrain(symbol, feedId);
+
+    subscribeToTicks(provider, symbol);
+  }, [addLog, restoreOrTrain, subscribeToTicks, analysis]);
+
+  const stopSymbol = useCallback((symbol: string) => {
+      feedsRef.current[symbol]?.unsubscribe?.();
+      delete feedsRef.current[symbol];
+      analysis.remove(symbol).catch(() => {});
+  }, [analysis]);
+
+  const startFeed = useCallback((provider: MarketDataProvider) => {
+    const feedId = ++feedIdRef.current;
+    Object.keys(feedsRef.current).forEach(stopSymbol);
+    setCandles([]);
+    setChartData([]);
+    setQuotes({});
+    setIsConnected(false);
+
+    // A live seeded feed starts from the wall clock until its history arrives
+    envRef.current = usesDataClock(provider)
+        ? createReplayEnvironment(SEED, provider.isRealtime ? Date.now() : 0)
+        : systemEnvironment;
+    MarketSentiment.setEnvironment(envRef.current);
+    setFeedEnv(envRef.current);
+    analysis.reset(strategyConfigRef.current, strategyRegistry.getState(), SEED)
+        .catch(err => addLog('ERROR', 'Analysis worker reset failed: ' + err.message));
+
+    // A replay file holds a single instrument: it's fed to the active symbol only
+    const symbols = provider.isRealtime ? watchlistRef.current : [activeSymbolRef.current];
+
+    addLog('INFO', `🚀 Starting AI Bot. Fetching 3000+ Candles for ${symbols.join(', ')} from ${provider.name}...`);
+    if (SEED !== undefined) addLog('DEBUG', `🎲 Deterministic mode: seed ${SEED}`);
+
+    symbols.forEach(symbol => startSymbol(provider, symbol, feedId));
+  }, [addLog, startSymbol, stopSymbol, analysis]);
+
+  const switchDataSource = useCallback((source: DataSource, replayCandles?: Candle[], replayName?: string) => {
+      providerRef.current = createProvider(source, replayCandles, replayName);
+      setDataSource(source);
+      addLog('INFO', `Data source switched to ${providerRef.current.name}`);
+      startFeed(providerRef.current);
+  }, [createProvider, startFeed, addLog]);
+
+  // --- WATCHLIST ---
+  const selectSymbol = (symbol: string) => {
+      activeSymbolRef.current = symbol;
+      setActiveSymbol(symbol);
+      const feed = feedsRef.current[symbol];
+      const current = feed?.aggregator.currentCandle;
+      setCandles(feed ? (current ? [...feed.candles, { ...current }] : feed.candles) : []);
+      setDisplayPrice(current?.close ?? feed?.candles[feed.candles.length - 1]?.close ?? 0);
+      setStats(prev => ({ ...prev, marketRegime: 'CALCULATING' }));
+  };
+
+  const toggleWatch = useCallback((symbol: string) => {
+      const watched = watchlistRef.current.includes(symbol);
+      if (watched && watchlistRef.current.length === 1) return; // Keep at least one symbol
+
+      const next = watched ? watchlistRef.current.filter(s => s !== symbol) : [...watchlistRef.current, symbol];
+      watchlistRef.current = next;
+      setWatchlist(next);
+
+      if (watched) {
+          stopSymbol(symbol);
+          addLog('INFO', `👁️ Stopped watching ${symbol}`);
+          if (symbol === activeSymbolRef.current) selectSymbol(next[0]);
+      } else if (providerRef.current?.isRealtime) {
+          addLog('INFO', `👁️ Watching ${symbol}`);
+          startSymbol(providerRef.current, symbol, feedIdRef.current);
+      }
+  }, [addLog, startSymbol, stopSymbol]);
+
+  // --- SETTINGS / CREDENTIALS ---
+  const bootWithSettings = useCallback((loaded: AppSettings) => {
+      settingsRef.current = loaded;
+      setSettings(loaded);
+      if (loaded.twelveDataKeys.length === 0 || loaded.finnhubKeys.length === 0) {
+          addLog('WARNING', '🔑 No TwelveData/Finnhub keys configured (env or ⚙️ Settings). Falling back to synthetic data.');
+          switchDataSource('SYNTHETIC');
+      } else {
+          switchDataSource('LIVE');
+      }
+  }, [addLog, switchDataSource]);
 
   useEffect(() => {
-      fetchHistoricalData();
+      let cancelled = false;
+      loadSettings()
+          .then(result => {
+              if (cancelled) return;
+              if (result.status === 'LOCKED') {
+                  addLog('WARNING', '🔒 Stored settings are encrypted. Enter your passphrase to unlock.');
+                  setSettingsLocked(true);
+                  return;
+              }
+              bootWithSettings(result.settings);
+          })
+          .catch(err => {
+              if (cancelled) return;
+              addLog('ERROR', 'Could not read stored settings: ' + err.message);
+              bootWithSettings(getEnvSettings());
+          });
       return () => {
-          if (wsRef.current) wsRef.current.close();
+          cancelled = true;
+          Object.keys(feedsRef.current).forEach(stopSymbol);
       };
-  }, [fetchHistoricalData]);
+  }, [bootWithSettings, addLog, stopSymbol]);
+
+  const handleUnlock = useCallback(async () => {
+      try {
+          const result = await loadSettings(unlockPassphrase);
+          if (result.status !== 'OK') return;
+          passphraseRef.current = unlockPassphrase;
+          setSettingsLocked(false);
+          setUnlockPassphrase('');
+          setUnlockError(null);
+          bootWithSettings(result.settings);
+      } catch (err) {
+          setUnlockError((err as any).message);
+      }
+  }, [unlockPassphrase, bootWithSettings]);
+
+  const handleSaveSettings = useCallback(async (next: AppSettings, passphrase?: string) => {
+      await saveSettings(next, passphrase);
+      passphraseRef.current = passphrase;
+      const prev = settingsRef.current;
+      settingsRef.current = next;
+      setSettings(next);
+      addLog('INFO', `⚙️ Settings saved${passphrase ? ' (encrypted)' : ''}.`);
+
+      // Restart the live feed so key rotation picks up the new lists
+      const keysChanged = prev.twelveDataKeys.join() !== next.twelveDataKeys.join() || prev.finnhubKeys.join() !== next.finnhubKeys.join();
+      if (keysChanged && (dataSource === 'LIVE' || (dataSource === 'SYNTHETIC' && next.twelveDataKeys.length > 0 && next.finnhubKeys.length > 0))) {
+          switchDataSource('LIVE');
+      }
+  }, [addLog, dataSource, switchDataSource]);
+
+  const handleSaveStrategy = useCallback((next: StrategyConfig, nextPlugins: Record<string, StrategyPluginState>) => {
+      try {
+          saveStrategyConfig(next);
+      } catch (err) {
+          addLog('ERROR', 'Could not save strategy config: ' + (err as any).message);
+          return;
+      }
+      strategyConfigRef.current = next;
+      setStrategyConfig(next);
+      strategyRegistry.applyState(nextPlugins);
+      saveStrategyPluginState(strategyRegistry.getState());
+      setPluginState(strategyRegistry.getState());
+
+      // Indicator periods may have changed: the worker recomputes every stored series
+      analysis.setConfig(next, strategyRegistry.getState())
+          .catch(err => addLog('ERROR', 'Could not apply strategy config: ' + err.message));
+      addLog('INFO', `🎛️ Strategy config applied: ${getConfigVersion(next, strategyRegistry.getState())}`);
+  }, [addLog, analysis]);
+
+  const handleSaveBlackoutConfig = useCallback((next: BlackoutConfig) => {
+      try {
+          saveBlackoutConfig(next);
+      } catch (err) {
+          addLog('ERROR', 'Could not save news blackout: ' + (err as any).message);
+          return;
+      }
+      setBlackoutConfig(next);
+      setShowBlackout(false);
+      addLog('INFO', `🚧 News blackout saved: ${next.action.toLowerCase()} on ${next.timeframes.join(', ') || 'no timeframes'}`);
+  }, [addLog]);
+
+  const handleSaveSessionConfig = useCallback((next: SessionConfig) => {
+      try {
+          saveSessionConfig(next);
+      } catch (err) {
+          addLog('ERROR', 'Could not save trading sessions: ' + (err as any).message);
+          return;
+      }
+      setSessionConfig(next);
+      setShowSessions(false);
+      addLog('INFO', `🌍 Trading sessions saved: ${next.allowed.join(', ')}`);
+  }, [addLog]);
+
+  const handleSaveLSTMConfig = useCallback((next: LSTMConfig) => {
+      try {
+          saveLSTMConfig(next);
+      } catch (err) {
+          addLog('ERROR', 'Could not save LSTM config: ' + (err as any).message);
+          return;
+      }
+      lstmConfigRef.current = next;
+      setLSTMConfig(next);
+      // Running models keep their architecture until the next (re)training
+      addLog('INFO', `🧠 LSTM config saved: ${next.features.join(', ')} • ${next.layers}x${next.units} units, window ${next.windowSize}`);
+  }, [addLog]);
+
+  const handleReplayFile = useCallback(async (file: File) => {
+      try {
+          const parsed = parseCandleFile(await file.text(), file.name);
+          switchDataSource('REPLAY', parsed, `Replay: ${file.name}`);
+      } catch (err) {
+          addLog('ERROR', 'Could not load replay file: ' + (err as any).message);
+      }
+  }, [switchDataSource, addLog]);
 
   useEffect(() => {
-      if(candlesRef.current.length > 0) {
+      if((feedsRef.current[activeSymbolRef.current]?.candles.length ?? 0) > 0) {
           addLog('INFO', `Timeframe switched to ${selectedTf.label}. Chart updating...`);
       }
   }, [selectedTf, addLog]);
 
   useEffect(() => {
       const interval = setInterval(() => {
-          if (currentCandleRef.current && candlesRef.current.length > 0) {
-              const currentPrice = currentCandleRef.current.close;
-              
-              setSignals(prev => checkSignals(prev, currentPrice));
+          const feeds = feedsRef.current;
+          const livePrices = Object.keys(feeds)
+              .filter(symbol => feeds[symbol].aggregator.currentCandle && feeds[symbol].candles.length > 0)
+              .map(symbol => [symbol, feeds[symbol].aggregator.currentCandle!.close] as [string, number]);
+
+          if (livePrices.length > 0) {
+              // Each symbol's signals settle against that symbol's own price
+              setSignals(prev => livePrices.reduce(
+                  (acc, [symbol, price]) => checkSignals(acc, price, envRef.current, symbol),
+                  prev
+              ));
 
               setStats(prev => {
                   const finished = signals.filter(s => s.status !== 'PENDING');
@@ -403,7 +922,8 @@ News Ctx: ${signal.newsContext || 'N/A'}
                           wins, 
                           losses, 
                           winRate: total > 0 ? (wins / total) * 100 : 0, 
-                          activeSignals: signals.filter(s => s.status === 'PENDING').length
+                          activeSignals: signals.filter(s => s.status === 'PENDING').length,
+                          aiAccuracy: getAiAccuracy(getSettledSignals(signals)).accuracy
                       };
                   }
                   return prev;
@@ -414,56 +934,146 @@ News Ctx: ${signal.newsContext || 'N/A'}
   }, [signals]);
 
   // --- CHART DATA PREPARATION ---
-  // Resample 1m candles to the selected timeframe for the chart
-  const processedChartData = useMemo(() => {
-      if (candles.length === 0) return [];
-      
-      // If 1m (though removed from UI, logic stays safe), just return the last 100 raw candles
-      if (selectedTf.value === 1) return candles.slice(-100);
+  // The worker resamples the whole 1m buffer (plus the forming candle) to the
+  // selected timeframe and computes its indicators. At most one request is in
+  // flight; changes that arrive meanwhile trigger a single follow-up request.
+  const chartBusyRef = useRef(false);
+  const chartStaleRef = useRef(false);
+  const refreshChart = useCallback(() => {
+      if (chartBusyRef.current) {
+          chartStaleRef.current = true;
+          return;
+      }
+      const symbol = activeSymbolRef.current;
+      const feed = feedsRef.current[symbol];
+      if (!feed || feed.candles.length === 0) return;
+      chartBusyRef.current = true;
+      const forming = feed.aggregator.currentCandle;
+      analysis.chart(symbol, selectedTfRef.current.value, forming ? { ...forming } : undefined)
+          .then(data => { if (symbol === activeSymbolRef.current) setChartData(data); })
+          .catch(() => { /* Feed not loaded in the worker yet */ })
+          .finally(() => {
+              chartBusyRef.current = false;
+              if (chartStaleRef.current) {
+                  chartStaleRef.current = false;
+                  refreshChart();
+              }
+          });
+  }, [analysis]);
 
-      // Resample based on selected Timeframe
-      const resampled = resampleCandles(candles, selectedTf.value);
-      
-      // Return last ~50 resampled candles for a clean view
-      return resampled.slice(-50);
-  }, [candles, selectedTf]);
+  useEffect(() => { refreshChart(); }, [candles, selectedTf, activeSymbol, strategyConfig, refreshChart]);
+
+  const activeSignals = useMemo(() => signals.filter(s => s.symbol === activeSymbol), [signals, activeSymbol]);
+  // Upcoming release shown in the ticker (re-evaluated on every render, i.e. every price update)
+  const nextEvent = calendar.find(e => e.actual === undefined && e.timestamp > envRef.current.now());
 
   return (
     <div className="min-h-screen bg-gray-900 text-white p-4 md:p-8 font-sans">
       
-      {/* Telegram Modal */}
-      {showTgModal && (
+      {/* Settings (provider keys + Telegram) */}
+      {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            encrypted={isSettingsEncrypted()}
+            onSave={handleSaveSettings}
+            onClose={() => setShowSettings(false)}
+          />
+      )}
+
+      {/* Unlock encrypted settings */}
+      {settingsLocked && (
           <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
               <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-96">
-                  <h3 className="text-xl font-bold mb-4">Telegram Configuration</h3>
-                  <div className="space-y-4">
-                      <div>
-                          <label className="text-xs text-gray-400">Bot Token</label>
-                          <input 
-                            type="text" 
-                            className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm"
-                            value={tgConfig.botToken}
-                            onChange={(e) => setTgConfig(c => ({...c, botToken: e.target.value}))}
-                          />
-                      </div>
-                      <div>
-                          <label className="text-xs text-gray-400">Chat ID</label>
-                          <input 
-                            type="text" 
-                            className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm"
-                            value={tgConfig.chatId}
-                            onChange={(e) => setTgConfig(c => ({...c, chatId: e.target.value}))}
-                          />
-                      </div>
-                      <div className="flex gap-2 mt-4">
-                          <button onClick={() => {setTgConfig(c=>({...c, enabled: true})); setShowTgModal(false);}} className="flex-1 bg-green-600 hover:bg-green-500 py-2 rounded">Enable</button>
-                          <button onClick={() => {setTgConfig(c=>({...c, enabled: false})); setShowTgModal(false);}} className="flex-1 bg-gray-600 hover:bg-gray-500 py-2 rounded">Disable</button>
-                      </div>
+                  <h3 className="text-xl font-bold mb-4">🔒 Unlock Settings</h3>
+                  <input 
+                    type="password" 
+                    placeholder="Passphrase"
+                    className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm"
+                    value={unlockPassphrase}
+                    onChange={(e) => setUnlockPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                  />
+                  {unlockError && <p className="text-xs text-red-400 mt-2">{unlockError}</p>}
+                  <div className="flex gap-2 mt-4">
+                      <button onClick={handleUnlock} className="flex-1 bg-green-600 hover:bg-green-500 py-2 rounded">Unlock</button>
+                      <button onClick={() => { setSettingsLocked(false); bootWithSettings(getEnvSettings()); }} className="flex-1 bg-gray-600 hover:bg-gray-500 py-2 rounded">Use Env Keys</button>
                   </div>
               </div>
           </div>
       )}
 
+      {showBacktest && (
+          <BacktestPanel
+            symbol={activeSymbol}
+            candles={feedsRef.current[activeSymbol]?.candles || []}
+            aiModel={feedsRef.current[activeSymbol]?.model}
+            config={strategyConfig}
+            sessions={sessionConfig}
+            onClose={() => setShowBacktest(false)}
+          />
+      )}
+
+      {showJournal && <SignalJournal onClose={() => setShowJournal(false)} />}
+
+      {showStrategy && (
+          <StrategyEditor
+            config={strategyConfig}
+            plugins={strategyRegistry.list()}
+            onSave={handleSaveStrategy}
+            onClose={() => setShowStrategy(false)}
+          />
+      )}
+
+      {showOptimizer && (
+          <OptimizerPanel
+            symbol={activeSymbol}
+            candles={feedsRef.current[activeSymbol]?.candles || []}
+            baseConfig={strategyConfig}
+            pluginState={pluginState}
+            onApply={(config) => handleSaveStrategy(config, pluginState)}
+            onClose={() => setShowOptimizer(false)}
+          />
+      )}
+
+      {showModels && (
+          <ModelPanel
+            activeVersions={activeModels}
+            liveStats={modelStats}
+            trainingSymbols={trainingSymbols}
+            watchlist={watchlist}
+            lstmConfig={lstmConfig}
+            onSaveConfig={handleSaveLSTMConfig}
+            onRetrain={(symbol) => queueTraining(symbol, feedIdRef.current, 'MANUAL')}
+            onActivate={(version) => {
+                activateStoredModel(version)
+                    .then(ok => ok && addLog('INFO', `💾 Activated LSTM ${version.id} for ${version.symbol}`))
+                    .catch(err => addLog('ERROR', `Could not activate ${version.id}: ` + err.message));
+            }}
+            onClose={() => setShowModels(false)}
+          />
+      )}
+
+      {showBlackout && (
+          <BlackoutPanel
+            config={blackoutConfig}
+            calendar={calendar}
+            now={envRef.current.now()}
+            onSave={handleSaveBlackoutConfig}
+            onClose={() => setShowBlackout(false)}
+          />
+      )}
+
+      {showSessions && (
+          <SessionPanel
+            config={sessionConfig}
+            now={envRef.current.now()}
+            onSave={handleSaveSessionConfig}
+            onClose={() => setShowSessions(false)}
+          />
+      )}
+
+      {showAnalytics && <AnalyticsPanel sessionSignals={signals} calibration={calibration} onClose={() => setShowAnalytics(false)} />}
+
       {/* Header */}
       <header className="flex flex-col md:flex-row justify-between items-center mb-4 border-b border-gray-800 pb-4">
         <div>
@@ -494,11 +1104,90 @@ News Ctx: ${signal.newsContext || 'N/A'}
                  </select>
              </div>
 
+             {/* Data Source Selector */}
+             <div className="flex items-center gap-2 bg-gray-800 rounded-lg p-1 border border-gray-700">
+                 <span className="text-xs text-gray-500 pl-2">DATA:</span>
+                 <select 
+                    value={dataSource} 
+                    onChange={(e) => {
+                        const source = e.target.value as DataSource;
+                        if (source !== 'REPLAY') switchDataSource(source);
+                    }}
+                    className="bg-transparent text-sm font-bold text-blue-400 outline-none cursor-pointer"
+                 >
+                     <option value="LIVE" className="bg-gray-800 text-white">Live</option>
+                     <option value="SYNTHETIC" className="bg-gray-800 text-white">Synthetic</option>
+                     <option value="REPLAY" disabled className="bg-gray-800 text-white">Replay</option>
+                 </select>
+                 <label className="text-xs text-gray-400 hover:text-gray-200 cursor-pointer pr-2" title="Replay a CSV/JSON file of 1m candles">
+                     📂
+                     <input
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            if (e.target.files?.[0]) handleReplayFile(e.target.files[0]);
+                            e.target.value = '';
+                        }}
+                     />
+                 </label>
+             </div>
+
+             <button 
+                onClick={() => setShowBacktest(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+             >
+                 <span>⏪ Backtest</span>
+             </button>
+
+             <button 
+                onClick={() => setShowJournal(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+             >
+                 <span>📒 Journal</span>
+             </button>
+
+             <button 
+                onClick={() => setShowAnalytics(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+             >
+                 <span>📊 Analytics</span>
+             </button>
+
+             <button 
+                onClick={() => setShowStrategy(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+                title={getConfigVersion(strategyConfig, pluginState)}
+             >
+                 <span>🎛️ Strategy: {strategyConfig.id}</span>
+             </button>
+
+             <button 
+                onClick={() => setShowOptimizer(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+             >
+                 <span>🔬 Optimise</span>
+             </button>
+
              <button 
-                onClick={() => setShowTgModal(true)}
-                className={`px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 ${tgConfig.enabled ? 'bg-blue-900/30 border-blue-500 text-blue-400' : 'bg-gray-800 border-gray-600 text-gray-400'}`}
+                onClick={() => setShowModels(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
              >
-                 <span>✈️ Telegram</span>
+                 <span>🧠 Models</span>
+             </button>
+
+             <button 
+                onClick={() => setShowBlackout(true)}
+                className="px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 bg-gray-800 border-gray-600 text-gray-400 hover:text-gray-200"
+             >
+                 <span>🚧 Blackout</span>
+             </button>
+
+             <button 
+                onClick={() => setShowSettings(true)}
+                className={`px-4 py-2 rounded-lg border text-sm font-bold flex items-center gap-2 ${settings.telegram.enabled ? 'bg-blue-900/30 border-blue-500 text-blue-400' : 'bg-gray-800 border-gray-600 text-gray-400'}`}
+             >
+                 <span>⚙️ Settings{settings.telegram.enabled ? ' • ✈️' : ''}</span>
              </button>
 
              <div className={`px-4 py-2 rounded-lg flex items-center gap-3 border ${isConnected ? 'bg-gray-800 border-green-500/30' : 'bg-red-900/20 border-red-500'}`}>
@@ -507,32 +1196,65 @@ News Ctx: ${signal.newsContext || 'N/A'}
                   <span className={`relative inline-flex rounded-full h-3 w-3 ${isConnected ? 'bg-green-500' : 'bg-red-500'}`}></span>
                 </span>
                 <span className={`font-mono font-bold ${isConnected ? 'text-green-400' : 'text-red-400'}`}>
-                    {isConnected ? 'LIVE FEED' : 'CONNECTING'}
+                    {isConnected ? (dataSource === 'LIVE' ? 'LIVE FEED' : `${dataSource} FEED`) : 'CONNECTING'}
                 </span>
             </div>
+
+             {marketStatus && (
+                 <button
+                    onClick={() => setShowSessions(true)}
+                    className={`px-4 py-2 rounded-lg border text-sm font-bold font-mono ${
+                        marketStatus.allowed ? 'bg-gray-800 border-blue-500/30 text-blue-300'
+                        : marketStatus.open ? 'bg-gray-800 border-gray-600 text-gray-400'
+                        : 'bg-gray-900 border-gray-700 text-gray-500'
+                    }`}
+                    title="Trading sessions"
+                 >
+                     {marketStatus.open ? '🌍' : '🌙'} {describeMarketStatus(marketStatus).toUpperCase()}
+                 </button>
+             )}
         </div>
       </header>
 
       {/* News Ticker */}
-      {latestNews && (
+      {newsSource && (
           <div className={`mb-6 p-3 rounded-lg flex items-center gap-4 animate-fade-in border ${
-              latestNews.impact === 'HIGH' ? 'bg-red-900/20 border-red-500/30' : 'bg-gray-800 border-gray-700'
+              latestNews?.impact === 'HIGH' ? 'bg-red-900/20 border-red-500/30' : 'bg-gray-800 border-gray-700'
           }`}>
-              <div className="flex items-center gap-2">
+              <div className="flex items-center gap-2" title={`News source: ${newsSource.name} (${newsSource.status.toLowerCase()})`}>
                   <span className="text-xl">📢</span>
-                  <span className="font-bold text-xs bg-gray-900 px-2 py-1 rounded text-gray-300">LIVE NEWS</span>
+                  <span className={`font-bold text-xs px-2 py-1 rounded ${
+                      newsSource.isSimulated ? 'bg-yellow-900/40 text-yellow-400' : 'bg-gray-900 text-gray-300'
+                  }`}>
+                      {newsSource.isSimulated ? 'SIMULATED NEWS' : 'LIVE NEWS'}
+                  </span>
+                  <span className={`text-xs font-mono ${newsSource.status === 'DISCONNECTED' ? 'text-red-400' : 'text-gray-400'}`}>
+                      {newsSource.name}
+                  </span>
               </div>
               <div className="flex-1 overflow-hidden">
-                  <p className="whitespace-nowrap font-mono text-sm text-gray-200">
-                      {latestNews.headline} 
-                      <span className={`ml-3 text-xs font-bold ${
-                          latestNews.sentiment === 'POSITIVE' ? 'text-green-400' : 
-                          latestNews.sentiment === 'NEGATIVE' ? 'text-red-400' : 'text-gray-400'
-                      }`}>
-                          [{latestNews.sentiment} - {latestNews.impact} IMPACT]
-                      </span>
-                  </p>
+                  {latestNews ? (
+                      <p className="whitespace-nowrap font-mono text-sm text-gray-200">
+                          {latestNews.headline} 
+                          <span className={`ml-3 text-xs font-bold ${
+                              latestNews.sentiment === 'POSITIVE' ? 'text-green-400' : 
+                              latestNews.sentiment === 'NEGATIVE' ? 'text-red-400' : 'text-gray-400'
+                          }`}>
+                              [{latestNews.sentiment} - {latestNews.impact} IMPACT]
+                          </span>
+                          {latestNews.source !== newsSource.name && <span className="ml-2 text-xs text-gray-500">— {latestNews.source}</span>}
+                      </p>
+                  ) : (
+                      <p className="whitespace-nowrap font-mono text-sm text-gray-500 italic">
+                          {newsSource.status === 'DISCONNECTED' ? 'News source unreachable' : 'Waiting for headlines...'}
+                      </p>
+                  )}
               </div>
+              {nextEvent && (
+                  <span className="text-xs font-mono text-gray-400 whitespace-nowrap" title={nextEvent.title}>
+                      Next: {nextEvent.currency} {nextEvent.kind} {formatToIST(nextEvent.timestamp)}
+                  </span>
+              )}
           </div>
       )}
 
@@ -544,13 +1266,23 @@ News Ctx: ${signal.newsContext || 'N/A'}
             <div className="grid grid-cols-2 gap-4">
                 <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
                     <p className="text-gray-400 text-xs uppercase tracking-wider">LSTM Status</p>
-                    {stats.isTraining ? (
+                    {trainingSymbols.includes(activeSymbol) ? (
                         <p className="text-lg font-bold text-yellow-400 animate-pulse">Training...</p>
-                    ) : aiModelRef.current ? (
-                        <p className="text-lg font-bold text-green-400">Online</p>
+                    ) : feedsRef.current[activeSymbol]?.model ? (
+                        <>
+                            <p className="text-lg font-bold text-green-400">Online</p>
+                            {modelStats[activeSymbol]?.recentCount > 0 && (
+                                <p className="text-xs text-gray-500 font-mono" title={activeModels[activeSymbol]}>
+                                    Live hit: {(modelStats[activeSymbol].recentHitRate * 100).toFixed(1)}% ({modelStats[activeSymbol].recentCount})
+                                </p>
+                            )}
+                        </>
                     ) : (
                         <p className="text-lg font-bold text-gray-500">Offline</p>
                     )}
+                    {stats.wins + stats.losses > 0 && (
+                        <p className="text-xs text-gray-500 font-mono">Dir. acc: {stats.aiAccuracy.toFixed(1)}%</p>
+                    )}
                 </div>
                 <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
                     <p className="text-gray-400 text-xs uppercase tracking-wider">Market Regime</p>
@@ -567,28 +1299,40 @@ News Ctx: ${signal.newsContext || 'N/A'}
                 <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
                     <p className="text-gray-400 text-xs uppercase tracking-wider">Live Price</p>
                     <p className="text-lg font-bold text-yellow-400 font-mono">
-                        {displayPrice.toFixed(5)}
+                        {formatPrice(displayPrice, activeSymbol)}
                     </p>
                 </div>
             </div>
 
+            <Watchlist
+              symbols={SYMBOLS}
+              watchlist={watchlist}
+              activeSymbol={activeSymbol}
+              quotes={quotes}
+              signals={signals}
+              trainingSymbols={trainingSymbols}
+              modelSymbols={Object.keys(feedsRef.current).filter(s => feedsRef.current[s].model)}
+              onSelect={selectSymbol}
+              onToggleWatch={toggleWatch}
+            />
+
             <LogConsole logs={logs} />
         </div>
 
         {/* Middle Column: Chart */}
         <div className="lg:col-span-2 space-y-6">
             {/* Pass displayPrice to widget for animation */}
-            <ChartWidget data={processedChartData} signals={signals} currentPrice={displayPrice} />
+            <ChartWidget symbol={activeSymbol} data={chartData} timeframeMinutes={selectedTf.value} signals={activeSignals} currentPrice={displayPrice} config={strategyConfig} />
             
             <div className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
-                <h3 className="text-gray-200 font-bold mb-4">AI Predicted Signals (All Timeframes)</h3>
+                <h3 className="text-gray-200 font-bold mb-4">AI Predicted Signals: {activeSymbol} (All Timeframes)</h3>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[600px] overflow-y-auto pr-2 scrollbar-hide">
-                    {signals.length === 0 ? (
+                    {activeSignals.length === 0 ? (
                         <p className="text-gray-500 italic col-span-2 text-center py-8">
                              {stats.isTraining ? "AI is training on 3000 candles..." : `Waiting for signal from 5m, 15m, 30m, 1h...`}
                         </p>
                     ) : (
-                        signals.slice(0, 50).map(sig => (
+                        activeSignals.slice(0, 50).map(sig => (
                             <SignalCard key={sig.id} signal={sig} />
                         ))
                     )}
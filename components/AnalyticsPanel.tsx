@@ -0,0 +1,178 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { Signal } from '../types';
+import { analyzePerformance } from '../utils/analytics';
+import { querySignals } from '../utils/journal';
+import { BREAK_EVEN_PROBABILITY } from '../utils/simulation';
+import { Calibration, describeCalibration } from '../utils/calibration';
+import { ENSEMBLE_LEARNERS, getLearnerName } from '../utils/ensemble';
+import BreakdownTable from './BreakdownTable';
+
+interface AnalyticsPanelProps {
+  sessionSignals: Signal[];
+  calibration: Calibration | null; // Currently applied to new signals
+  onClose: () => void;
+}
+
+type AnalyticsSource = 'SESSION' | 'JOURNAL';
+
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ sessionSignals, calibration, onClose }) => {
+  const [source, setSource] = useState<AnalyticsSource>('SESSION');
+  const [journalSignals, setJournalSignals] = useState<Signal[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (source !== 'JOURNAL' || journalSignals) return;
+    querySignals()
+      .then(setJournalSignals)
+      .catch(err => setError('Could not read journal: ' + err.message));
+  }, [source, journalSignals]);
+
+  const signals = source === 'SESSION' ? sessionSignals : (journalSignals || []);
+  const report = useMemo(() => analyzePerformance(signals), [signals]);
+  // Registry order, combined vote last; green = beats the naive baseline
+  const modelRows = [...ENSEMBLE_LEARNERS.map(l => l.id as string), 'ensemble']
+    .filter(model => report.byModel[model])
+    .map(model => [model, report.byModel[model]] as const);
+  const naive = report.byModel.naive;
+
+  const equityData = report.equityCurve.map(p => ({
+    time: new Date(p.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+    equity: Number(p.equity.toFixed(2))
+  }));
+
+  const tile = (label: string, value: string, className: string = 'text-white', sub?: string) => (
+    <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+      <p className="text-gray-400 text-xs uppercase">{label}</p>
+      <p className={`text-xl font-bold ${className}`}>{value}</p>
+      {sub && <p className="text-xs text-gray-500">{sub}</p>}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">📊 Performance Analytics</h3>
+          <div className="flex items-center gap-4">
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value as AnalyticsSource)}
+              className="bg-gray-900 border border-gray-700 rounded p-1 text-xs"
+            >
+              <option value="SESSION">This session</option>
+              <option value="JOURNAL">Full journal</option>
+            </select>
+            <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+          </div>
+        </div>
+        {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+          {tile('Signals', String(report.total), 'text-white', `${report.wins}W / ${report.losses}L`)}
+          {tile('Win Rate', `${report.winRate.toFixed(1)}%`, report.winRate > 50 ? 'text-emerald-400' : 'text-red-400')}
+          {tile('P&L (units)', report.pnl.toFixed(2), report.pnl >= 0 ? 'text-emerald-400' : 'text-red-400')}
+          {tile('Max Drawdown', report.maxDrawdown.toFixed(2), 'text-yellow-400')}
+          {tile('Losing Streak', String(report.longestLosingStreak), 'text-red-400', 'longest')}
+          {tile(
+            'LSTM Accuracy',
+            report.ai.samples > 0 ? `${report.ai.accuracy.toFixed(1)}%` : '—',
+            report.ai.accuracy > 50 ? 'text-emerald-400' : 'text-gray-300',
+            `${report.ai.correct}/${report.ai.samples} directional`
+          )}
+        </div>
+
+        <div className="bg-gray-900/50 rounded border border-gray-700 p-3 mt-4 h-56">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Equity Curve (stake units)</p>
+          {equityData.length === 0 ? (
+            <p className="text-xs text-gray-500 italic">No settled signals</p>
+          ) : (
+            <ResponsiveContainer width="100%" height="85%">
+              <LineChart data={equityData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="time" stroke="#9CA3AF" tick={{fontSize: 10}} interval={Math.max(Math.floor(equityData.length / 6), 0)} />
+                <YAxis stroke="#9CA3AF" tick={{fontSize: 10}} width={40} />
+                <Tooltip contentStyle={{ backgroundColor: '#1F2937', border: 'none', color: '#F3F4F6' }} />
+                <ReferenceLine y={0} stroke="#6B7280" />
+                <Line type="stepAfter" dataKey="equity" stroke="#60A5FA" dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-4">
+          <BreakdownTable title="By Timeframe" rows={report.byTimeframe} />
+          <BreakdownTable title="By Strength" rows={report.byStrength} />
+          <BreakdownTable title="By Regime" rows={report.byRegime} />
+          <BreakdownTable title="By Strategy" rows={report.byStrategy} />
+          <BreakdownTable title="By Hour (IST)" rows={report.byHourIST} sortByKey />
+          <BreakdownTable title="By Session" rows={report.bySession} />
+          <BreakdownTable title="By Strategy Config" rows={report.byConfig} />
+          <BreakdownTable title={`P(win) vs Break-even ${(BREAK_EVEN_PROBABILITY * 100).toFixed(1)}%`} rows={report.byBreakEven} />
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Confidence Calibration</p>
+            {report.calibration.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No settled signals</p>
+            ) : (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Conf.</th>
+                    <th className="text-right font-normal">N</th>
+                    <th className="text-right font-normal">Expected</th>
+                    <th className="text-right font-normal">Actual</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.calibration.map(b => {
+                    const gap = b.winRate - b.avgConfidence * 100;
+                    return (
+                      <tr key={b.from} className="text-gray-300">
+                        <td>{(b.from * 100).toFixed(0)}-{(b.to * 100).toFixed(0)}%</td>
+                        <td className="text-right">{b.total}</td>
+                        <td className="text-right">{(b.avgConfidence * 100).toFixed(1)}</td>
+                        <td className={`text-right ${gap >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{b.winRate.toFixed(1)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+            <p className="text-xs text-gray-500 mt-2 font-mono">
+              {describeCalibration(calibration)} • Brier {report.brierScore !== null ? report.brierScore.toFixed(3) : '—'}
+            </p>
+          </div>
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Model Accuracy (settled signals)</p>
+            {modelRows.length === 0 ? (
+              <p className="text-xs text-gray-500 italic">No model votes recorded</p>
+            ) : (
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Model</th>
+                    <th className="text-right font-normal">N</th>
+                    <th className="text-right font-normal">Direction</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {modelRows.map(([model, row]) => (
+                    <tr key={model} className={model === 'naive' ? 'text-gray-500 italic' : 'text-gray-300'}>
+                      <td>{model === 'ensemble' ? 'Ensemble' : getLearnerName(model)}{model === 'naive' && ' (baseline)'}</td>
+                      <td className="text-right">{row.samples}</td>
+                      <td className={`text-right ${model !== 'naive' && naive && row.accuracy > naive.accuracy ? 'text-emerald-400' : ''}`}>{row.accuracy.toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
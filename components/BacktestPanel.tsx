@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Candle, SessionConfig, StrategyConfig } from '../types';
+import { runBacktest, BacktestReport } from '../utils/backtest';
+import { LSTMModelData } from '../utils/simulation';
+import { parseCandleFile } from '../utils/marketData';
+import BreakdownTable from './BreakdownTable';
+
+interface BacktestPanelProps {
+  symbol: string;
+  candles: Candle[];
+  aiModel?: LSTMModelData;
+  config?: StrategyConfig;
+  sessions?: SessionConfig; // Live trading sessions, applied when ticked
+  onClose: () => void;
+}
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ symbol, candles, aiModel, config, sessions, onClose }) => {
+  const [uploaded, setUploaded] = useState<Candle[] | null>(null);
+  const [useLstm, setUseLstm] = useState(false);
+  const [useSessions, setUseSessions] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [report, setReport] = useState<BacktestReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = uploaded || candles;
+
+  const handleFile = async (file: File) => {
+    try {
+      setUploaded(parseCandleFile(await file.text(), file.name));
+      setReport(null);
+      setError(null);
+    } catch (err) {
+      setError('Invalid candle file: ' + (err as any).message);
+    }
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setReport(null);
+    setProgress(0);
+    try {
+      const result = await runBacktest(source, {
+        symbol,
+        config,
+        aiModel: useLstm ? aiModel : undefined,
+        sessions: useSessions ? sessions : undefined,
+        onProgress: (done, total) => setProgress(done / total)
+      });
+      setReport(result);
+    } catch (err) {
+      setError((err as any).message);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">Historical Backtest: {symbol}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          <p className="text-gray-400">
+            Source: <span className="font-mono text-gray-200">{uploaded ? 'Uploaded file' : 'Session history'}</span>
+            {' '}({source.length} x 1m candles)
+          </p>
+          <div className="flex items-center gap-4 flex-wrap">
+            <label className="text-xs text-gray-400">
+              Load 1m candles (CSV/JSON):
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="ml-2 text-xs"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+            <label className="text-xs text-gray-400 flex items-center gap-2">
+              <input type="checkbox" checked={useLstm} disabled={!aiModel} onChange={(e) => setUseLstm(e.target.checked)} />
+              Include LSTM (trained on this data, expect look-ahead bias)
+            </label>
+            <label className="text-xs text-gray-400 flex items-center gap-2">
+              <input type="checkbox" checked={useSessions} disabled={!sessions} onChange={(e) => setUseSessions(e.target.checked)} />
+              Trade only in the allowed sessions (weekends and holidays skipped)
+            </label>
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={progress !== null || source.length === 0}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 px-4 py-2 rounded font-bold"
+          >
+            {progress !== null ? `Replaying... ${(progress * 100).toFixed(0)}%` : 'Run Backtest'}
+          </button>
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+        </div>
+
+        {report && (
+          <div className="mt-6 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-400 text-xs uppercase">Signals</p>
+                <p className="text-xl font-bold">{report.total}</p>
+                <p className="text-xs text-gray-500">{report.wins}W / {report.losses}L</p>
+              </div>
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-400 text-xs uppercase">Win Rate</p>
+                <p className={`text-xl font-bold ${report.winRate > 50 ? 'text-emerald-400' : 'text-red-400'}`}>{report.winRate.toFixed(1)}%</p>
+              </div>
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-400 text-xs uppercase">P&L (units)</p>
+                <p className={`text-xl font-bold ${report.pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{report.pnl.toFixed(2)}</p>
+              </div>
+              <div className="bg-gray-900/50 p-3 rounded border border-gray-700">
+                <p className="text-gray-400 text-xs uppercase">Max Drawdown</p>
+                <p className="text-xl font-bold text-yellow-400">{report.maxDrawdown.toFixed(2)}</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Replayed {report.candlesReplayed} candles from {new Date(report.startTime).toLocaleString()} to {new Date(report.endTime).toLocaleString()}
+              {report.unsettled > 0 && ` • ${report.unsettled} signal(s) still open at end of data`}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <BreakdownTable title="By Strategy" rows={report.byStrategy} />
+              <BreakdownTable title="By Regime" rows={report.byRegime} />
+              <BreakdownTable title="By Timeframe" rows={report.byTimeframe} />
+              <BreakdownTable title="By Session" rows={report.bySession} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
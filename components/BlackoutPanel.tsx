@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { BlackoutConfig, EconomicEvent } from '../types';
+import { TIMEFRAMES } from '../constants';
+import { DEFAULT_BLACKOUT_CONFIG, describeBlackout, getBlackoutWindows, validateBlackoutConfig } from '../utils/blackout';
+import { formatToIST } from '../utils/simulation';
+
+interface BlackoutPanelProps {
+  config: BlackoutConfig;
+  calendar: EconomicEvent[]; // Releases from the calendar feed
+  now: number;
+  onSave: (config: BlackoutConfig) => void;
+  onClose: () => void;
+}
+
+const EVENT_KINDS: { kind: EconomicEvent['kind']; label: string; currency: EconomicEvent['currency'] }[] = [
+  { kind: 'NFP', label: 'Non-Farm Payrolls', currency: 'USD' },
+  { kind: 'CPI', label: 'CPI', currency: 'USD' },
+  { kind: 'FOMC', label: 'FOMC rate decision', currency: 'USD' },
+  { kind: 'ECB', label: 'ECB rate decision', currency: 'EUR' }
+];
+
+// datetime-local works in the browser's time zone
+const toLocalInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const BlackoutPanel: React.FC<BlackoutPanelProps> = ({ config, calendar, now, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BlackoutConfig>(config);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [newKind, setNewKind] = useState<EconomicEvent['kind']>('NFP');
+  const [newTime, setNewTime] = useState(() => toLocalInput(now));
+
+  const setWindow = (kind: EconomicEvent['kind'], patch: Partial<BlackoutConfig['windows'][EconomicEvent['kind']]>) => {
+    setDraft(d => ({ ...d, windows: { ...d.windows, [kind]: { ...d.windows[kind], ...patch } } }));
+  };
+
+  const toggleTimeframe = (id: string, enabled: boolean) => {
+    setDraft(d => ({ ...d, timeframes: TIMEFRAMES.map(tf => tf.id).filter(tf => (tf === id ? enabled : d.timeframes.includes(tf))) }));
+  };
+
+  const addEvent = () => {
+    const timestamp = new Date(newTime).getTime();
+    if (!Number.isFinite(timestamp)) {
+      setErrors(['Pick a date and time for the event']);
+      return;
+    }
+    const kind = EVENT_KINDS.find(k => k.kind === newKind)!;
+    const event: EconomicEvent = {
+      id: `manual-${kind.kind}-${timestamp}`,
+      kind: kind.kind,
+      title: kind.label,
+      currency: kind.currency,
+      timestamp,
+      impact: 'HIGH'
+    };
+    setErrors([]);
+    setDraft(d => ({ ...d, events: [...d.events.filter(e => e.id !== event.id), event].sort((a, b) => a.timestamp - b.timestamp) }));
+  };
+
+  const handleSave = () => {
+    const validation = validateBlackoutConfig(draft);
+    setErrors(validation);
+    if (validation.length === 0) onSave(draft);
+  };
+
+  const upcoming = getBlackoutWindows([...calendar, ...draft.events], draft).filter(w => w.end > now).slice(0, 10);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(config);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">🚧 News Blackout</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Windows (minutes before / after release)</p>
+            <div className="space-y-1">
+              {EVENT_KINDS.map(({ kind, label }) => (
+                <div key={kind} className="flex items-center gap-3 text-xs text-gray-300">
+                  <label className="flex items-center gap-1 w-48">
+                    <input type="checkbox" checked={draft.windows[kind].enabled} onChange={(e) => setWindow(kind, { enabled: e.target.checked })} />
+                    {label}
+                  </label>
+                  <span className="text-gray-500">−</span>
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right font-mono"
+                    value={draft.windows[kind].before}
+                    onChange={(e) => setWindow(kind, { before: parseFloat(e.target.value) })}
+                  />
+                  <span className="text-gray-500">+</span>
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right font-mono"
+                    value={draft.windows[kind].after}
+                    onChange={(e) => setWindow(kind, { after: parseFloat(e.target.value) })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">During a window</p>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-300">
+              <select
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                value={draft.action}
+                onChange={(e) => setDraft(d => ({ ...d, action: e.target.value as BlackoutConfig['action'] }))}
+              >
+                <option value="SUPPRESS">Suppress signals</option>
+                <option value="DOWNGRADE">Downgrade signal strength</option>
+              </select>
+              <span className="text-gray-500">on</span>
+              {TIMEFRAMES.map(tf => (
+                <label key={tf.id} className="flex items-center gap-1">
+                  <input type="checkbox" checked={draft.timeframes.includes(tf.id)} onChange={(e) => toggleTimeframe(tf.id, e.target.checked)} />
+                  {tf.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Scheduled by hand</p>
+            <div className="flex items-center gap-2 mb-2 text-xs">
+              <select
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                value={newKind}
+                onChange={(e) => setNewKind(e.target.value as EconomicEvent['kind'])}
+              >
+                {EVENT_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+              </select>
+              <input
+                type="datetime-local"
+                className="bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                value={newTime}
+                onChange={(e) => setNewTime(e.target.value)}
+              />
+              <button onClick={addEvent} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded">+ Add</button>
+            </div>
+            {draft.events.map(e => (
+              <div key={e.id} className="flex items-center justify-between text-xs font-mono text-gray-300 py-0.5">
+                <span>{e.currency} {e.kind} • {formatToIST(e.timestamp)}</span>
+                <button onClick={() => setDraft(d => ({ ...d, events: d.events.filter(x => x.id !== e.id) }))} className="text-red-400 hover:text-red-300">Remove</button>
+              </div>
+            ))}
+            {draft.events.length === 0 && <p className="text-gray-500 italic text-xs">None — calendar releases still apply</p>}
+          </div>
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Upcoming windows</p>
+            {upcoming.map(w => (
+              <p key={w.event.id} className={`text-xs font-mono ${w.start <= now ? 'text-amber-400' : 'text-gray-300'}`}>
+                {w.start <= now ? '● ' : ''}{describeBlackout(w)}
+              </p>
+            ))}
+            {upcoming.length === 0 && <p className="text-gray-500 italic text-xs">No scheduled releases</p>}
+          </div>
+        </div>
+
+        {errors.map(m => <p key={m} className="text-xs text-red-400 mt-2">✖ {m}</p>)}
+        <div className="flex gap-2 mt-4 justify-end">
+          <button onClick={() => setDraft(DEFAULT_BLACKOUT_CONFIG)} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs">Defaults</button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty}
+            className="bg-green-600 hover:bg-green-500 disabled:opacity-50 px-3 py-1 rounded text-xs"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlackoutPanel;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { BreakdownRow } from '../utils/analytics';
+
+interface BreakdownTableProps {
+  title: string;
+  rows: Record<string, BreakdownRow>;
+  sortByKey?: boolean; // e.g. hour-of-day rows, instead of most signals first
+}
+
+const BreakdownTable: React.FC<BreakdownTableProps> = ({ title, rows, sortByKey }) => {
+  const entries = Object.keys(rows)
+    .map(k => [k, rows[k]] as [string, BreakdownRow])
+    .sort((a, b) => sortByKey ? a[0].localeCompare(b[0]) : b[1].total - a[1].total);
+  return (
+    <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+      <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">{title}</p>
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500 italic">No settled signals</p>
+      ) : (
+        <table className="w-full text-xs font-mono">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">Name</th>
+              <th className="text-right font-normal">N</th>
+              <th className="text-right font-normal">Win %</th>
+              <th className="text-right font-normal">P&L</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(([name, row]) => (
+              <tr key={name} className="text-gray-300">
+                <td className="truncate max-w-[140px]">{name}</td>
+                <td className="text-right">{row.total}</td>
+                <td className={`text-right ${row.winRate > 50 ? 'text-emerald-400' : 'text-red-400'}`}>{row.winRate.toFixed(1)}</td>
+                <td className={`text-right ${row.pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{row.pnl.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default BreakdownTable;
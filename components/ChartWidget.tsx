@@ -1,90 +1,443 @@
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { Candle, Signal } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  AreaChart, Area, Bar, BarShapeProps, Brush, ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, TooltipValueType, ResponsiveContainer,
+  ReferenceArea, ReferenceDot, ReferenceLine
+} from 'recharts';
+import { Candle, Signal, StrategyConfig } from '../types';
+import { getSymbolSpec, formatPrice } from '../constants';
+import { formatToIST } from '../utils/simulation';
+import { DEFAULT_STRATEGY_CONFIG } from '../utils/strategyConfig';
+import { buildSignalMarkers } from '../utils/signalMarkers';
+import { getNewsCandleRuns } from '../utils/blackout';
+import SignalCard from './SignalCard';
 
 interface ChartWidgetProps {
-  data: Candle[];
+  symbol: string;
+  data: Candle[]; // Indicator-enriched, full buffer for the selected timeframe
+  timeframeMinutes: number; // Timeframe `data` was resampled to
   signals: Signal[];
   currentPrice?: number;
+  config?: StrategyConfig; // RSI bands and ADX trend level for the sub-panes
 }
 
-const ChartWidget: React.FC<ChartWidgetProps> = ({ data, signals, currentPrice }) => {
-  const latestPrice = currentPrice || (data.length > 0 ? data[data.length - 1].close : 0);
-  
-  // Calculate domain based on data + current price to keep lines in view
-  const allLows = data.map(d => d.low);
-  if (currentPrice) allLows.push(currentPrice);
-  
-  const allHighs = data.map(d => d.high);
-  if (currentPrice) allHighs.push(currentPrice);
+type Overlay = 'bollinger' | 'ema' | 'sma' | 'ichimoku' | 'psar' | 'keltner' | 'donchian' | 'vwap' | 'superTrend' | 'pivots';
+type Pane = 'macd' | 'rsi' | 'adx' | 'stoch' | 'stochRsi' | 'cci' | 'williamsR';
+
+const OVERLAYS: { key: Overlay; label: string }[] = [
+  { key: 'bollinger', label: 'Bollinger' },
+  { key: 'ema', label: 'Trend EMA' },
+  { key: 'sma', label: 'SMA fast/slow' },
+  { key: 'ichimoku', label: 'Ichimoku' },
+  { key: 'psar', label: 'PSAR' },
+  { key: 'keltner', label: 'Keltner' },
+  { key: 'donchian', label: 'Donchian' },
+  { key: 'vwap', label: 'VWAP' },
+  { key: 'superTrend', label: 'SuperTrend' },
+  { key: 'pivots', label: 'Pivots' }
+];
+
+const PANES: { key: Pane; label: string }[] = [
+  { key: 'macd', label: 'MACD' },
+  { key: 'rsi', label: 'RSI' },
+  { key: 'adx', label: 'ADX' },
+  { key: 'stoch', label: 'Stochastic' },
+  { key: 'stochRsi', label: 'Stoch RSI' },
+  { key: 'cci', label: 'CCI' },
+  { key: 'williamsR', label: 'Williams %R' }
+];
+
+// Prices an enabled overlay draws for a candle, so the y-domain keeps them in view
+const overlayPrices = (d: Candle, on: Record<Overlay, boolean>): (number | undefined)[] => [
+  ...(on.bollinger ? [d.bollinger?.upper, d.bollinger?.lower] : []),
+  ...(on.ichimoku ? [d.ichimoku?.senkouA, d.ichimoku?.senkouB] : []),
+  ...(on.psar ? [d.psar?.value] : []),
+  ...(on.keltner ? [d.keltner?.upper, d.keltner?.lower] : []),
+  ...(on.donchian ? [d.donchian?.upper, d.donchian?.lower] : []),
+  ...(on.vwap ? [d.vwap] : []),
+  ...(on.superTrend ? [d.superTrend?.value] : []),
+  ...(on.pivots ? [d.pivots?.r1, d.pivots?.s1] : [])
+];
+
+const DEFAULT_VISIBLE = 60;
+const MIN_VISIBLE = 10;
+const SYNC_ID = 'price-chart';
 
-  const minPrice = Math.min(...allLows) * 0.9995;
-  const maxPrice = Math.max(...allHighs) * 1.0005;
+const UP = '#10B981';
+const DOWN = '#F87171';
 
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#1F2937', border: 'none', color: '#F3F4F6' },
+  itemStyle: { color: '#F3F4F6' },
+  labelStyle: { color: '#9CA3AF' }
+};
+
+// Bar over [low, high]: the bar rect spans the wick, the body is derived from open/close
+const CandleShape = (props: BarShapeProps) => {
+  const { x, y, width, height, payload } = props as BarShapeProps & { payload: Candle };
+  const { open, close, high, low } = payload;
+  const range = high - low;
+  const toY = (price: number) => range > 0 ? y + ((high - price) / range) * height : y;
+  const color = close >= open ? UP : DOWN;
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(toY(Math.min(open, close)) - bodyTop, 1);
+  const cx = x + width / 2;
+  const bodyWidth = Math.max(width * 0.7, 1);
   return (
-    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 h-64 md:h-96 w-full">
-      <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-bold text-gray-200">EUR/USD - Chart</h3>
-        <span className="text-2xl font-mono text-green-400">{latestPrice.toFixed(5)}</span>
-      </div>
-      
-      <ResponsiveContainer width="100%" height="85%">
-        <AreaChart data={data}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#10B981" stopOpacity={0.3}/>
-              <stop offset="95%" stopColor="#10B981" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
+    <g>
+      <line x1={cx} x2={cx} y1={y} y2={y + height} stroke={color} strokeWidth={1} />
+      <rect x={cx - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
+const ChartWidget: React.FC<ChartWidgetProps> = ({ symbol, data, timeframeMinutes, signals, currentPrice, config = DEFAULT_STRATEGY_CONFIG }) => {
+  const { precision } = getSymbolSpec(symbol);
+  const latestPrice = currentPrice || (data.length > 0 ? data[data.length - 1].close : 0);
+
+  const [overlays, setOverlays] = useState<Record<Overlay, boolean>>({
+    bollinger: true, ema: true, sma: false, ichimoku: false, psar: false, keltner: false, donchian: false, vwap: false, superTrend: false, pivots: false
+  });
+  const [panes, setPanes] = useState<Record<Pane, boolean>>({
+    macd: true, rsi: true, adx: false, stoch: false, stochRsi: false, cci: false, williamsR: false
+  });
+  // Window is kept relative to the right edge so new candles scroll in while
+  // offset is 0, and a panned view stays put as the buffer grows.
+  const [view, setView] = useState({ size: DEFAULT_VISIBLE, offset: 0 });
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [hovered, setHovered] = useState<{ id: string; left: number; top: number } | null>(null);
+
+  const size = Math.min(Math.max(view.size, MIN_VISIBLE), Math.max(data.length, 1));
+  const endIndex = Math.max(data.length - 1 - Math.min(view.offset, data.length - size), 0);
+  const startIndex = Math.max(endIndex - size + 1, 0);
+  const visible = data.slice(startIndex, endIndex + 1);
+  const markers = buildSignalMarkers(signals, visible, timeframeMinutes);
+  const newsRuns = getNewsCandleRuns(visible);
+  const hoveredSignal = hovered && signals.find(s => s.id === hovered.id);
+
+  const showCard = (id: string, e: React.MouseEvent) => {
+    const rect = chartRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    // Flip to the left half so the card stays inside the chart
+    const x = e.clientX - rect.left;
+    setHovered({ id, left: x > rect.width / 2 ? x - 300 : x + 12, top: Math.max(e.clientY - rect.top - 40, 0) });
+  };
+
+  // Wheel zooms around the right edge of the window. Registered by hand
+  // because React's wheel listener is passive and can't stop the page scroll.
+  const dataLengthRef = useRef(data.length);
+  dataLengthRef.current = data.length;
+  useEffect(() => {
+    const el = chartRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setView(v => {
+        const factor = e.deltaY > 0 ? 1.2 : 1 / 1.2;
+        const next = Math.round(v.size * factor);
+        return { ...v, size: Math.min(Math.max(next, MIN_VISIBLE), Math.max(dataLengthRef.current, MIN_VISIBLE)) };
+      });
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    return () => el.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const handleBrush = ({ startIndex: s, endIndex: e }: { startIndex?: number; endIndex?: number }) => {
+    if (s === undefined || e === undefined) return;
+    setView({ size: e - s + 1, offset: data.length - 1 - e });
+  };
+
+  // Calculate domain based on visible candles (+ overlays) + current price to keep lines in view
+  const lows: number[] = [];
+  const highs: number[] = [];
+  visible.forEach(d => {
+    const prices = overlayPrices(d, overlays).filter((v): v is number => v !== undefined);
+    lows.push(Math.min(d.low, ...prices));
+    highs.push(Math.max(d.high, ...prices));
+  });
+  markers.forEach(m => {
+    lows.push(Math.min(m.price, m.exitPrice ?? m.price));
+    highs.push(Math.max(m.price, m.exitPrice ?? m.price));
+  });
+  if (currentPrice) {
+    lows.push(currentPrice);
+    highs.push(currentPrice);
+  }
+  const pad = (Math.max(...highs) - Math.min(...lows)) * 0.05;
+  const minPrice = Math.min(...lows) - pad;
+  const maxPrice = Math.max(...highs) + pad;
+
+  const xAxis = (hide: boolean) => (
+    <XAxis
+      dataKey="timestamp"
+      hide={hide}
+      stroke="#9CA3AF"
+      tick={{fontSize: 10}}
+      tickFormatter={(ts) => formatToIST(ts)}
+      interval={Math.max(Math.floor(visible.length / 6), 0)}
+    />
+  );
+
+  // 0-100 style oscillator pane with %K / %D lines and two reference levels
+  const oscillatorPane = (key: string, lines: { dataKey: string; name: string; stroke: string }[], domain: [number, number], levels: [number, number]) => (
+    <div key={key} className="h-20 mt-1">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={visible} syncId={SYNC_ID}>
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-          <XAxis 
-            dataKey="time" 
-            stroke="#9CA3AF" 
-            tick={{fontSize: 10}}
-            interval={Math.floor(data.length / 5)}
-          />
-          <YAxis 
-            domain={[minPrice, maxPrice]} 
-            stroke="#9CA3AF" 
-            tick={{fontSize: 10}} 
-            tickFormatter={(val) => val.toFixed(5)}
-            width={60}
-          />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#1F2937', border: 'none', color: '#F3F4F6' }}
-            itemStyle={{ color: '#F3F4F6' }}
-            labelStyle={{ color: '#9CA3AF' }}
-          />
-          <Area 
-            type="monotone" 
-            dataKey="close" 
-            stroke="#10B981" 
-            fillOpacity={1} 
-            fill="url(#colorPrice)" 
-            isAnimationActive={false}
-          />
-          {/* Signal Markers */}
-          {signals.map(sig => (
-             <ReferenceLine 
-                key={sig.id} 
-                x={sig.timestampStr} 
-                stroke={sig.type === 'CALL' ? '#34D399' : '#F87171'} 
-                label={{ 
-                    value: sig.type === 'CALL' ? '⬆' : '⬇', 
-                    position: 'top', 
-                    fill: sig.type === 'CALL' ? '#34D399' : '#F87171',
-                    fontSize: 20
-                }} 
-             />
-          ))}
-          {/* Current Price Line */}
-          {currentPrice && (
-              <ReferenceLine y={currentPrice} stroke="#FBBF24" strokeDasharray="3 3" />
-          )}
-        </AreaChart>
+          {xAxis(true)}
+          <YAxis domain={domain} ticks={levels} allowDataOverflow stroke="#9CA3AF" tick={{fontSize: 10}} width={60} />
+          <Tooltip {...tooltipStyle} labelFormatter={(ts) => formatToIST(Number(ts))} formatter={(val: TooltipValueType | undefined, name) => [Number(val).toFixed(1), name]} />
+          <ReferenceLine y={levels[1]} stroke={DOWN} strokeDasharray="3 3" />
+          <ReferenceLine y={levels[0]} stroke={UP} strokeDasharray="3 3" />
+          {lines.map(l => <Line key={l.dataKey} dataKey={l.dataKey} name={l.name} stroke={l.stroke} dot={false} strokeWidth={1} isAnimationActive={false} />)}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
+
+  const toggle = (key: string, label: string, checked: boolean, onChange: () => void) => (
+    <label key={key} className="flex items-center gap-1 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={onChange} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 w-full">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-bold text-gray-200">{symbol} - Chart</h3>
+        <span className="text-2xl font-mono text-green-400">{formatPrice(latestPrice, symbol)}</span>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-400 mb-2">
+        {OVERLAYS.map(o => toggle(o.key, o.label, overlays[o.key], () => setOverlays(s => ({ ...s, [o.key]: !s[o.key] }))))}
+        <span className="text-gray-600">|</span>
+        {PANES.map(p => toggle(p.key, p.label, panes[p.key], () => setPanes(s => ({ ...s, [p.key]: !s[p.key] }))))}
+        <span className="ml-auto text-gray-500">{visible.length}/{data.length} bars • scroll to zoom</span>
+        {view.offset > 0 && (
+          <button onClick={() => setView(v => ({ ...v, offset: 0 }))} className="text-blue-400 hover:text-blue-300">Latest ⏭</button>
+        )}
+      </div>
+
+      <div ref={chartRef} className="relative">
+        {hoveredSignal && (
+          <div className="absolute z-10 w-72 pointer-events-none" style={{ left: hovered!.left, top: hovered!.top }}>
+            <SignalCard signal={hoveredSignal} />
+          </div>
+        )}
+        <div className="h-64 md:h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={visible} syncId={SYNC_ID}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              {xAxis(false)}
+              <YAxis
+                domain={[minPrice, maxPrice]}
+                stroke="#9CA3AF"
+                tick={{fontSize: 10}}
+                tickFormatter={(val) => val.toFixed(precision)}
+                width={60}
+              />
+              <Tooltip
+                {...tooltipStyle}
+                labelFormatter={(ts) => formatToIST(Number(ts))}
+                formatter={(val: TooltipValueType | undefined, name) => [Array.isArray(val) ? val.map(v => formatPrice(Number(v), symbol)).join(' - ') : formatPrice(Number(val), symbol), name]}
+              />
+              {/* News blackout windows, behind the candles */}
+              {newsRuns.map(run => (
+                <React.Fragment key={run.from}>
+                  <ReferenceArea
+                    x1={run.from}
+                    x2={run.to}
+                    shape={(p: BarShapeProps) => <rect x={p.x} y={p.y} width={Math.max(p.width, 4)} height={p.height} fill="#F59E0B" fillOpacity={0.12} />}
+                  />
+                </React.Fragment>
+              ))}
+              <Bar dataKey={(d: Candle) => [d.low, d.high]} name="Low - High" shape={CandleShape} isAnimationActive={false} />
+              {overlays.bollinger && (
+                <>
+                  <Line dataKey="bollinger.upper" name="BB upper" stroke="#818CF8" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="bollinger.middle" name="BB middle" stroke="#818CF8" strokeDasharray="4 4" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="bollinger.lower" name="BB lower" stroke="#818CF8" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.ema && <Line dataKey="ema200" name="Trend EMA" stroke="#F59E0B" dot={false} strokeWidth={1.5} isAnimationActive={false} />}
+              {overlays.sma && (
+                <>
+                  <Line dataKey="smaFast" name="SMA fast" stroke="#22D3EE" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="smaSlow" name="SMA slow" stroke="#E879F9" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.ichimoku && (
+                <>
+                  <Line dataKey="ichimoku.tenkan" name="Tenkan" stroke="#38BDF8" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="ichimoku.kijun" name="Kijun" stroke="#FB7185" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="ichimoku.senkouA" name="Senkou A" stroke={UP} strokeDasharray="2 2" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="ichimoku.senkouB" name="Senkou B" stroke={DOWN} strokeDasharray="2 2" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.psar && (
+                <Line dataKey="psar.value" name="PSAR" stroke="none" dot={{ r: 1.5, fill: '#FDE68A', stroke: 'none' }} activeDot={false} isAnimationActive={false} />
+              )}
+              {overlays.keltner && (
+                <>
+                  <Line dataKey="keltner.upper" name="Keltner upper" stroke="#2DD4BF" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="keltner.lower" name="Keltner lower" stroke="#2DD4BF" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.donchian && (
+                <>
+                  <Line dataKey="donchian.upper" name="Donchian upper" stroke="#A3E635" type="stepAfter" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="donchian.lower" name="Donchian lower" stroke="#A3E635" type="stepAfter" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.vwap && <Line dataKey="vwap" name="VWAP" stroke="#F472B6" dot={false} strokeWidth={1.5} isAnimationActive={false} />}
+              {overlays.superTrend && (
+                <>
+                  <Line dataKey={(d: Candle) => d.superTrend?.direction === 'UP' ? d.superTrend.value : undefined} name="SuperTrend up" stroke={UP} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                  <Line dataKey={(d: Candle) => d.superTrend?.direction === 'DOWN' ? d.superTrend.value : undefined} name="SuperTrend down" stroke={DOWN} dot={false} strokeWidth={1.5} isAnimationActive={false} />
+                </>
+              )}
+              {overlays.pivots && (
+                <>
+                  <Line dataKey="pivots.pivot" name="Pivot" stroke="#9CA3AF" type="stepAfter" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="pivots.r1" name="R1" stroke={DOWN} type="stepAfter" strokeDasharray="6 3" dot={false} strokeWidth={1} isAnimationActive={false} />
+                  <Line dataKey="pivots.s1" name="S1" stroke={UP} type="stepAfter" strokeDasharray="6 3" dot={false} strokeWidth={1} isAnimationActive={false} />
+                </>
+              )}
+              {/* Signal Markers: expiry window, entry price, entry and exit points */}
+              {markers.map(m => {
+                const color = m.signal.type === 'CALL' ? '#34D399' : '#F87171';
+                const outcomeColor = m.outcome === 'WIN' ? '#34D399' : '#F87171';
+                return (
+                  <React.Fragment key={m.signal.id}>
+                    <ReferenceArea
+                      x1={m.entryTime}
+                      x2={m.expiryTime}
+                      shape={(p: BarShapeProps) => <rect x={p.x} y={p.y} width={Math.max(p.width, 2)} height={p.height} fill={color} fillOpacity={0.08} />}
+                    />
+                    <ReferenceLine
+                      segment={[{ x: m.entryTime, y: m.price }, { x: m.expiryTime, y: m.price }]}
+                      stroke={color}
+                      strokeDasharray="4 2"
+                    />
+                    {!m.clipped && (
+                      <ReferenceDot
+                        x={m.entryTime}
+                        y={m.price}
+                        r={6}
+                        fill={color}
+                        stroke="#111827"
+                        label={{ value: m.signal.type === 'CALL' ? '⬆' : '⬇', position: m.signal.type === 'CALL' ? 'bottom' : 'top', fill: color, fontSize: 16 }}
+                        onMouseEnter={(_, e) => showCard(m.signal.id, e)}
+                        onMouseLeave={() => setHovered(null)}
+                      />
+                    )}
+                    {m.exitPrice !== undefined && m.outcome !== 'PENDING' && (
+                      <ReferenceDot
+                        x={m.expiryTime}
+                        y={m.exitPrice}
+                        r={5}
+                        fill={outcomeColor}
+                        stroke="#111827"
+                        label={{ value: m.outcome, position: 'right', fill: outcomeColor, fontSize: 10 }}
+                        onMouseEnter={(_, e) => showCard(m.signal.id, e)}
+                        onMouseLeave={() => setHovered(null)}
+                      />
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {/* Current Price Line */}
+              {currentPrice && (
+                  <ReferenceLine y={currentPrice} stroke="#FBBF24" strokeDasharray="3 3" />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+
+        {panes.macd && (
+          <div className="h-24 mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={visible} syncId={SYNC_ID}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {xAxis(true)}
+                <YAxis stroke="#9CA3AF" tick={{fontSize: 10}} width={60} tickFormatter={(val) => val.toExponential(0)} />
+                <Tooltip {...tooltipStyle} labelFormatter={(ts) => formatToIST(Number(ts))} />
+                <ReferenceLine y={0} stroke="#6B7280" />
+                <Bar dataKey="macd.hist" name="MACD hist" isAnimationActive={false} shape={(p: BarShapeProps) => (
+                  <rect x={p.x} y={p.y} width={p.width} height={p.height} fill={((p.payload as Candle).macd?.hist ?? 0) >= 0 ? UP : DOWN} />
+                )} />
+                <Line dataKey="macd.line" name="MACD" stroke="#60A5FA" dot={false} strokeWidth={1} isAnimationActive={false} />
+                <Line dataKey="macd.signal" name="Signal" stroke="#F59E0B" dot={false} strokeWidth={1} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {panes.rsi && (
+          <div className="h-20 mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={visible} syncId={SYNC_ID}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {xAxis(true)}
+                <YAxis domain={[0, 100]} ticks={[config.rsi.oversold, config.rsi.overbought]} stroke="#9CA3AF" tick={{fontSize: 10}} width={60} />
+                <Tooltip {...tooltipStyle} labelFormatter={(ts) => formatToIST(Number(ts))} formatter={(val: TooltipValueType | undefined) => [Number(val).toFixed(1), 'RSI']} />
+                <ReferenceLine y={config.rsi.overbought} stroke={DOWN} strokeDasharray="3 3" />
+                <ReferenceLine y={config.rsi.oversold} stroke={UP} strokeDasharray="3 3" />
+                <Line dataKey="rsi" name="RSI" stroke="#A78BFA" dot={false} strokeWidth={1} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {panes.adx && (
+          <div className="h-20 mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={visible} syncId={SYNC_ID}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                {xAxis(true)}
+                <YAxis domain={[0, 'auto']} stroke="#9CA3AF" tick={{fontSize: 10}} width={60} />
+                <Tooltip {...tooltipStyle} labelFormatter={(ts) => formatToIST(Number(ts))} formatter={(val: TooltipValueType | undefined) => [Number(val).toFixed(1), 'ADX']} />
+                <ReferenceLine y={config.regime.trendAdx} stroke="#6B7280" strokeDasharray="3 3" />
+                <Line dataKey="adx" name="ADX" stroke="#FBBF24" dot={false} strokeWidth={1} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {panes.stoch && oscillatorPane('stoch', [
+          { dataKey: 'stoch.k', name: '%K', stroke: '#60A5FA' }, { dataKey: 'stoch.d', name: '%D', stroke: '#F59E0B' }
+        ], [0, 100], [20, 80])}
+        {panes.stochRsi && oscillatorPane('stochRsi', [
+          { dataKey: 'stochRsi.k', name: 'Stoch RSI %K', stroke: '#A78BFA' }, { dataKey: 'stochRsi.d', name: 'Stoch RSI %D', stroke: '#F59E0B' }
+        ], [0, 100], [20, 80])}
+        {panes.cci && oscillatorPane('cci', [{ dataKey: 'cci', name: 'CCI', stroke: '#22D3EE' }], [-250, 250], [-100, 100])}
+        {panes.williamsR && oscillatorPane('williamsR', [{ dataKey: 'williamsR', name: 'Williams %R', stroke: '#F472B6' }], [-100, 0], [-80, -20])}
+      </div>
+
+      {/* Navigator: drag the handles or the window to pan/zoom over the full buffer */}
+      {data.length > MIN_VISIBLE && (
+        <div className="h-12 mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={data}>
+              <YAxis hide domain={['auto', 'auto']} />
+              <Area type="monotone" dataKey="close" stroke="#4B5563" fill="#374151" isAnimationActive={false} />
+              <Brush
+                dataKey="timestamp"
+                height={40}
+                stroke="#6B7280"
+                fill="#1F2937"
+                travellerWidth={8}
+                startIndex={startIndex}
+                endIndex={endIndex}
+                tickFormatter={(ts) => formatToIST(ts)}
+                onChange={handleBrush}
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
 };
 
-export default ChartWidget;
\ No newline at end of file
+export default ChartWidget;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from 'react';
+import { EnsembleMemberId, LSTMConfig, LSTMFeature, ModelVersion } from '../types';
+import { ModelLiveStats } from '../utils/analysisEngine';
+import { listModelVersions, deleteModelVersion } from '../utils/modelStore';
+import { DEFAULT_LSTM_CONFIG, LSTM_FEATURES, validateLSTMConfig } from '../utils/lstmConfig';
+import { ENSEMBLE_LEARNERS, getLearnerName } from '../utils/ensemble';
+
+interface ModelPanelProps {
+  activeVersions: Record<string, string | undefined>; // Symbol -> version in use
+  liveStats: Record<string, ModelLiveStats>; // Symbol -> live hit rate of that version
+  trainingSymbols: string[];
+  watchlist: string[];
+  lstmConfig: LSTMConfig; // Used by the next training
+  onSaveConfig: (config: LSTMConfig) => void;
+  onRetrain: (symbol: string) => void;
+  onActivate: (version: ModelVersion) => void;
+  onClose: () => void;
+}
+
+const TRIGGER_STYLE: Record<ModelVersion['trigger'], string> = {
+  INITIAL: 'text-gray-400',
+  SCHEDULED: 'text-blue-400',
+  DRIFT: 'text-yellow-400',
+  MANUAL: 'text-purple-400'
+};
+
+const ARCHITECTURE_FIELDS: { key: Exclude<keyof LSTMConfig, 'features' | 'ensemble'>; label: string; step: number }[] = [
+  { key: 'windowSize', label: 'Window', step: 1 },
+  { key: 'layers', label: 'LSTM layers', step: 1 },
+  { key: 'units', label: 'Units / layer', step: 1 },
+  { key: 'denseUnits', label: 'Dense units', step: 1 },
+  { key: 'epochs', label: 'Max epochs', step: 1 },
+  { key: 'patience', label: 'Patience', step: 1 },
+  { key: 'batchSize', label: 'Batch size', step: 1 },
+  { key: 'learningRate', label: 'Learning rate', step: 0.001 },
+  { key: 'validationSplit', label: 'Validation split', step: 0.05 },
+  { key: 'trainingCandles', label: 'Training candles', step: 100 }
+];
+
+const formatHitRate = (hits: number, predictions: number) =>
+  predictions > 0 ? `${((hits / predictions) * 100).toFixed(1)}% (${predictions})` : '—';
+
+// Share of the baseline (always predict the mean return) error removed; > 0 beats it
+const formatSkill = (v: ModelVersion) =>
+  v.validation && v.validation.baselineLoss > 0 ? `${((1 - v.validation.loss / v.validation.baselineLoss) * 100).toFixed(1)}%` : '—';
+
+// Validation direction accuracy of each ensemble member stored with the version
+const formatMembers = (v: ModelVersion) =>
+  (v.members || []).map(m => `${getLearnerName(m.id)}${m.validation ? ` ${(m.validation.directionalAccuracy * 100).toFixed(1)}%` : ''}`).join('\n');
+
+const ModelPanel: React.FC<ModelPanelProps> = ({ activeVersions, liveStats, trainingSymbols, watchlist, lstmConfig, onSaveConfig, onRetrain, onActivate, onClose }) => {
+  const [versions, setVersions] = useState<ModelVersion[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LSTMConfig>(lstmConfig);
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
+
+  // Stored live counters are bumped every candle; reload with the stats
+  useEffect(() => {
+    listModelVersions()
+      .then(setVersions)
+      .catch(err => setError('Could not open model store: ' + err.message));
+  }, [activeVersions, liveStats]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteModelVersion(id);
+      setVersions(v => v.filter(m => m.id !== id));
+    } catch (err) {
+      setError('Delete failed: ' + (err as any).message);
+    }
+  };
+
+  const toggleFeature = (feature: LSTMFeature, enabled: boolean) => {
+    setDraft(d => ({
+      ...d,
+      // Keep the canonical order so equal feature sets compare equal
+      features: LSTM_FEATURES.map(f => f.key).filter(f => (f === feature ? enabled : d.features.includes(f)))
+    }));
+  };
+
+  const toggleLearner = (id: EnsembleMemberId, enabled: boolean) => {
+    setDraft(d => ({
+      ...d,
+      ensemble: ENSEMBLE_LEARNERS.map(l => l.id).filter(l => l !== 'lstm' && (l === id ? enabled : d.ensemble.includes(l)))
+    }));
+  };
+
+  const handleSaveConfig = () => {
+    const validation = validateLSTMConfig(draft);
+    setConfigErrors(validation);
+    if (validation.length === 0) onSaveConfig(draft);
+  };
+
+  const symbols = Array.from(new Set([...watchlist, ...versions.map(v => v.symbol)]));
+  const configDirty = JSON.stringify(draft) !== JSON.stringify(lstmConfig);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">🧠 LSTM Models</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+        {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+        <div className="bg-gray-900/50 rounded border border-gray-700 p-3 mb-4">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Features & architecture (next training)</p>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2">
+            {LSTM_FEATURES.map(f => (
+              <label key={f.key} className="flex items-center gap-1 text-xs text-gray-300">
+                <input type="checkbox" checked={draft.features.includes(f.key)} onChange={(e) => toggleFeature(f.key, e.target.checked)} />
+                {f.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2">
+            <span className="text-xs text-gray-500">Ensemble:</span>
+            {ENSEMBLE_LEARNERS.filter(l => l.id !== 'lstm').map(l => (
+              <label key={l.id} className="flex items-center gap-1 text-xs text-gray-300" title={l.description}>
+                <input type="checkbox" checked={draft.ensemble.includes(l.id)} onChange={(e) => toggleLearner(l.id, e.target.checked)} />
+                {l.name}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-x-4 gap-y-1">
+            {ARCHITECTURE_FIELDS.map(field => (
+              <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+                {field.label}
+                <input
+                  type="number"
+                  step={field.step}
+                  className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right font-mono"
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft(d => ({ ...d, [field.key]: parseFloat(e.target.value) }))}
+                />
+              </label>
+            ))}
+          </div>
+          {configErrors.map(m => <p key={m} className="text-xs text-red-400 mt-1">✖ {m}</p>)}
+          <div className="flex gap-2 mt-2 justify-end">
+            <button onClick={() => setDraft(DEFAULT_LSTM_CONFIG)} className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs">Defaults</button>
+            <button
+              onClick={handleSaveConfig}
+              disabled={!configDirty}
+              className="bg-green-600 hover:bg-green-500 disabled:opacity-50 px-3 py-1 rounded text-xs"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {symbols.map(symbol => {
+            const rows = versions.filter(v => v.symbol === symbol);
+            const live = liveStats[symbol];
+            const isTraining = trainingSymbols.includes(symbol);
+            return (
+              <div key={symbol}>
+                <div className="flex items-center gap-3 mb-1">
+                  <span className="font-bold text-gray-200">{symbol}</span>
+                  {live && (
+                    <span className="text-xs text-gray-400 font-mono">
+                      live: {formatHitRate(live.hits, live.predictions)} • last {live.recentCount}: {(live.recentHitRate * 100).toFixed(1)}%
+                    </span>
+                  )}
+                  <div className="flex-1" />
+                  {watchlist.includes(symbol) && (
+                    <button
+                      onClick={() => onRetrain(symbol)}
+                      disabled={isTraining}
+                      className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1 rounded text-xs"
+                    >
+                      {isTraining ? 'Training...' : '↻ Retrain now'}
+                    </button>
+                  )}
+                </div>
+                <table className="w-full text-xs font-mono">
+                  <thead>
+                    <tr className="text-gray-500">
+                      <th className="text-left font-normal">Version</th>
+                      <th className="text-left font-normal">Trained</th>
+                      <th className="text-left font-normal">Trigger</th>
+                      <th className="text-right font-normal">Candles</th>
+                      <th className="text-right font-normal">Features</th>
+                      <th className="text-right font-normal">Val loss</th>
+                      <th className="text-right font-normal">Skill</th>
+                      <th className="text-right font-normal">Val dir.</th>
+                      <th className="text-right font-normal">Ensemble</th>
+                      <th className="text-right font-normal">Live hit rate</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(v => {
+                      const active = activeVersions[symbol] === v.id;
+                      return (
+                        <tr key={v.id} className={`border-t border-gray-700/50 ${active ? 'text-green-300' : 'text-gray-300'}`}>
+                          <td className="py-1">{v.id}{active && ' ●'}</td>
+                          <td>{new Date(v.createdAt).toLocaleString()}</td>
+                          <td className={TRIGGER_STYLE[v.trigger]}>{v.trigger}</td>
+                          <td className="text-right">{v.trainedOn.candles}</td>
+                          <td className="text-right" title={v.config?.features.join(', ')}>
+                            {v.config ? `${v.config.features.length} • ${v.config.layers}x${v.config.units}` : '—'}
+                          </td>
+                          <td className="text-right">{Number.isFinite(v.validationLoss) ? v.validationLoss.toFixed(3) : '—'}</td>
+                          <td className="text-right">{formatSkill(v)}</td>
+                          <td className="text-right">{v.validation ? `${(v.validation.directionalAccuracy * 100).toFixed(1)}%` : '—'}</td>
+                          <td className="text-right" title={formatMembers(v)}>{v.members?.length ? `+${v.members.length}` : '—'}</td>
+                          <td className="text-right">{formatHitRate(v.live.hits, v.live.predictions)}</td>
+                          <td className="text-right space-x-2 whitespace-nowrap">
+                            {!active && watchlist.includes(symbol) && (
+                              <button onClick={() => onActivate(v)} className="text-blue-400 hover:text-blue-300">Activate</button>
+                            )}
+                            {!active && (
+                              <button onClick={() => handleDelete(v.id)} className="text-red-400 hover:text-red-300">Delete</button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {rows.length === 0 && <p className="text-gray-500 italic text-xs py-2">No stored models</p>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelPanel;
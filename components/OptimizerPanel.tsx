@@ -0,0 +1,259 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Candle, StrategyConfig } from '../types';
+import { OptimizerOptions, OptimizerReport, ParameterRange, SegmentResult, applyParams, countGridCandidates } from '../utils/optimizer';
+import { OptimizerJob, startOptimizer } from '../utils/optimizerClient';
+import { StrategyPluginState } from '../utils/strategies';
+import { getConfigParam, listConfigParams } from '../utils/strategyConfig';
+
+interface OptimizerPanelProps {
+  symbol: string;
+  candles: Candle[];
+  baseConfig: StrategyConfig;
+  pluginState: Record<string, StrategyPluginState>;
+  onApply: (config: StrategyConfig) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_SPACE: ParameterRange[] = [
+  { path: 'signal.threshold', min: 55, max: 85, step: 10 },
+  { path: 'regime.trendAdx', min: 20, max: 30, step: 5 },
+  { path: 'regime.reversionMaxAdx', min: 25, max: 35, step: 5 }
+];
+
+const formatParams = (params: Record<string, number>) => Object.keys(params).map(k => `${k.split('.')[1]}=${params[k]}`).join(' ');
+
+const SegmentCells: React.FC<{ seg: SegmentResult }> = ({ seg }) => (
+  <>
+    <td className="text-right">{seg.trades}</td>
+    <td className={`text-right ${seg.winRate > 50 ? 'text-emerald-400' : 'text-red-400'}`}>{seg.winRate.toFixed(1)}</td>
+    <td className={`text-right ${seg.expectancy >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>{seg.expectancy.toFixed(3)}</td>
+  </>
+);
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ symbol, candles, baseConfig, pluginState, onApply, onClose }) => {
+  const [space, setSpace] = useState<ParameterRange[]>(DEFAULT_SPACE);
+  const [method, setMethod] = useState<OptimizerOptions['method']>('GRID');
+  const [samples, setSamples] = useState(30);
+  const [folds, setFolds] = useState(3);
+  const [inSampleRatio, setInSampleRatio] = useState(0.7);
+  const [minTrades, setMinTrades] = useState(10);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [report, setReport] = useState<OptimizerReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const jobRef = useRef<OptimizerJob | null>(null);
+
+  // Closing the panel stops the worker
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const gridSize = countGridCandidates(space);
+  const candidateCount = method === 'GRID' ? Math.min(gridSize, samples) : samples;
+  const paths = listConfigParams(baseConfig); // Every numeric StrategyConfig field can be searched
+
+  const updateRange = (index: number, patch: Partial<ParameterRange>) => {
+    setSpace(s => s.map((r, i) => i === index ? { ...r, ...patch } : r));
+  };
+
+  const addRange = (path: string) => {
+    const current = getConfigParam(baseConfig, path) ?? 0;
+    setSpace(s => [...s, { path, min: current, max: current, step: Number.isInteger(current) ? 1 : current / 10 }]);
+  };
+
+  const handleRun = async () => {
+    setError(null);
+    setReport(null);
+    setProgress(0);
+    const job = startOptimizer(candles, {
+      baseConfig,
+      space,
+      method,
+      samples,
+      folds,
+      inSampleRatio,
+      minTrades,
+      symbol,
+      pluginState
+    }, (done, total) => setProgress(done / total));
+    jobRef.current = job;
+    try {
+      setReport(await job.result);
+    } catch (err) {
+      setError((err as any).message);
+    } finally {
+      jobRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const numberInput = (value: number, onChange: (v: number) => void, step: number = 1, width: string = 'w-16') => (
+    <input
+      type="number"
+      step={step}
+      className={`${width} bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-right font-mono text-xs`}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">🔬 Walk-Forward Optimiser: {symbol}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+            <p className="text-gray-400 uppercase tracking-wider mb-2">Search Space (base: {baseConfig.id})</p>
+            <table className="w-full font-mono">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal">Parameter</th>
+                  <th className="text-right font-normal">Min</th>
+                  <th className="text-right font-normal">Max</th>
+                  <th className="text-right font-normal">Step</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {space.map((r, i) => (
+                  <tr key={r.path} className="text-gray-300">
+                    <td>{r.path}</td>
+                    <td className="text-right">{numberInput(r.min, v => updateRange(i, { min: v }), r.step)}</td>
+                    <td className="text-right">{numberInput(r.max, v => updateRange(i, { max: v }), r.step)}</td>
+                    <td className="text-right">{numberInput(r.step, v => updateRange(i, { step: v }), r.step)}</td>
+                    <td className="text-right">
+                      <button onClick={() => setSpace(s => s.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-400">✕</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <select
+              value=""
+              onChange={(e) => e.target.value && addRange(e.target.value)}
+              className="mt-2 bg-gray-900 border border-gray-700 rounded p-1"
+            >
+              <option value="">+ Add parameter...</option>
+              {paths.filter(p => !space.some(r => r.path === p)).map(p => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+
+          <div className="bg-gray-900/50 rounded border border-gray-700 p-3 space-y-2 text-gray-300">
+            <p className="text-gray-400 uppercase tracking-wider">Run Settings</p>
+            <label className="flex justify-between items-center">
+              Method
+              <select value={method} onChange={(e) => setMethod(e.target.value as OptimizerOptions['method'])} className="bg-gray-900 border border-gray-700 rounded p-1">
+                <option value="GRID">Grid ({gridSize} combinations)</option>
+                <option value="RANDOM">Random</option>
+              </select>
+            </label>
+            <label className="flex justify-between items-center">{method === 'GRID' ? 'Max candidates' : 'Samples'} {numberInput(samples, setSamples)}</label>
+            <label className="flex justify-between items-center">Walk-forward folds {numberInput(folds, setFolds)}</label>
+            <label className="flex justify-between items-center">In-sample ratio {numberInput(inSampleRatio, setInSampleRatio, 0.05)}</label>
+            <label className="flex justify-between items-center">Min OOS trades {numberInput(minTrades, setMinTrades)}</label>
+            <p className="text-gray-500">
+              {candidateCount} candidates × {folds * 2} backtests on {candles.length} x 1m candles (runs in a background worker)
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <button
+            onClick={handleRun}
+            disabled={progress !== null || candles.length === 0 || space.length === 0}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 px-4 py-2 rounded font-bold text-sm"
+          >
+            {progress !== null ? `Optimising... ${(progress * 100).toFixed(0)}%` : 'Run Optimiser'}
+          </button>
+          {progress !== null && (
+            <button onClick={() => jobRef.current?.cancel()} className="bg-gray-600 hover:bg-gray-500 px-4 py-2 rounded text-sm">Cancel</button>
+          )}
+        </div>
+        {error && <p className="text-red-400 text-xs mt-2">{error}</p>}
+
+        {report && (
+          <div className="mt-6 space-y-4">
+            <p className="text-xs text-gray-400">
+              {report.evaluated} valid candidates on {report.candlesUsed} candles • walk-forward efficiency{' '}
+              <span className={report.walkForwardEfficiency >= 0.5 ? 'text-emerald-400' : 'text-yellow-400'}>{report.walkForwardEfficiency.toFixed(2)}</span>
+              {' '}(OOS / IS expectancy of the per-fold IS winners; well below 0.5 suggests curve fitting)
+            </p>
+
+            <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+              <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Walk-Forward Selection</p>
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Fold</th>
+                    <th className="text-left font-normal">Best IS params</th>
+                    <th className="text-right font-normal">IS N</th>
+                    <th className="text-right font-normal">IS Win %</th>
+                    <th className="text-right font-normal">IS Exp.</th>
+                    <th className="text-right font-normal">OOS N</th>
+                    <th className="text-right font-normal">OOS Win %</th>
+                    <th className="text-right font-normal">OOS Exp.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.walkForward.map(w => (
+                    <tr key={w.fold} className="text-gray-300">
+                      <td>#{w.fold + 1}</td>
+                      <td>{formatParams(w.bestParams)}</td>
+                      <SegmentCells seg={w.inSample} />
+                      <SegmentCells seg={w.outOfSample} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-gray-900/50 rounded border border-gray-700 p-3">
+              <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Candidates (ranked by out-of-sample)</p>
+              <table className="w-full text-xs font-mono">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">#</th>
+                    <th className="text-left font-normal">Params</th>
+                    <th className="text-right font-normal">IS N</th>
+                    <th className="text-right font-normal">IS Win %</th>
+                    <th className="text-right font-normal">IS Exp.</th>
+                    <th className="text-right font-normal">OOS N</th>
+                    <th className="text-right font-normal">OOS Win %</th>
+                    <th className="text-right font-normal">OOS Exp.</th>
+                    <th className="text-left font-normal pl-2">Flags</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.ranked.map((c, i) => (
+                    <tr key={c.configVersion} className="text-gray-300" title={c.configVersion}>
+                      <td>{i + 1}</td>
+                      <td>{formatParams(c.params)}</td>
+                      <SegmentCells seg={c.inSample} />
+                      <SegmentCells seg={c.outOfSample} />
+                      <td className="pl-2">
+                        {c.overfit && <span className="text-red-400 mr-1">OVERFIT</span>}
+                        {c.insufficientTrades && <span className="text-yellow-400">FEW TRADES</span>}
+                      </td>
+                      <td className="text-right">
+                        <button
+                          onClick={() => onApply({ ...applyParams(baseConfig, c.params), id: `${baseConfig.id}-opt${i + 1}` })}
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          Apply
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OptimizerPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { SessionConfig, TradingSession } from '../types';
+import { DEFAULT_SESSION_CONFIG, TRADING_SESSIONS, describeMarketStatus, getMarketStatus, validateSessionConfig } from '../utils/sessions';
+
+interface SessionPanelProps {
+  config: SessionConfig;
+  now: number;
+  onSave: (config: SessionConfig) => void;
+  onClose: () => void;
+}
+
+const pad = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const SessionPanel: React.FC<SessionPanelProps> = ({ config, now, onSave, onClose }) => {
+  const [draft, setDraft] = useState<SessionConfig>(config);
+  const [holidayText, setHolidayText] = useState(config.holidays.join('\n'));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const status = getMarketStatus(now, draft);
+
+  const toggleSession = (id: TradingSession, enabled: boolean) => {
+    setDraft(d => ({ ...d, allowed: TRADING_SESSIONS.map(s => s.id).filter(s => (s === id ? enabled : d.allowed.includes(s))) }));
+  };
+
+  const handleSave = () => {
+    const next = { ...draft, holidays: holidayText.split(/[\s,]+/).map(h => h.trim()).filter(Boolean) };
+    const validation = validateSessionConfig(next);
+    setErrors(validation);
+    if (validation.length === 0) onSave(next);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">🌍 Trading Sessions</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+
+        <p className={`text-sm font-mono mb-4 ${status.allowed ? 'text-green-400' : 'text-gray-400'}`}>Now: {describeMarketStatus(status)}</p>
+
+        <div className="bg-gray-900/50 rounded border border-gray-700 p-3 mb-4">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Allowed sessions (local hours, Mon–Fri)</p>
+          {TRADING_SESSIONS.map(s => (
+            <label key={s.id} className="flex items-center gap-2 text-xs text-gray-300 py-0.5">
+              <input type="checkbox" checked={draft.allowed.includes(s.id)} onChange={(e) => toggleSession(s.id, e.target.checked)} />
+              <span className="w-20">{s.name}</span>
+              <span className="font-mono text-gray-500">{pad(s.open)}–{pad(s.close)} {s.timeZone}</span>
+              {status.sessions.includes(s.id) && <span className="text-green-400">● open</span>}
+            </label>
+          ))}
+          <p className="text-xs text-gray-500 mt-2">Analysis keeps running outside them; only signals are held back.</p>
+        </div>
+
+        <div className="bg-gray-900/50 rounded border border-gray-700 p-3 mb-4">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Holidays (MM-DD or YYYY-MM-DD, New York trading day)</p>
+          <textarea
+            rows={3}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono"
+            value={holidayText}
+            onChange={(e) => setHolidayText(e.target.value)}
+          />
+          <p className="text-xs text-gray-500 mt-1">The market is also closed from Friday to Sunday 17:00 New York time.</p>
+        </div>
+
+        {errors.map(m => <p key={m} className="text-xs text-red-400 mb-1">✖ {m}</p>)}
+        <div className="flex gap-2 justify-end">
+          <button
+            onClick={() => { setDraft(DEFAULT_SESSION_CONFIG); setHolidayText(DEFAULT_SESSION_CONFIG.holidays.join('\n')); }}
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded text-xs"
+          >
+            Defaults
+          </button>
+          <button onClick={handleSave} className="bg-green-600 hover:bg-green-500 px-3 py-1 rounded text-xs">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPanel;
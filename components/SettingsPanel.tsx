@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { AppSettings } from '../types';
+import { validateSettings, verifySettings } from '../utils/settings';
+import { evaluateHeadlineClassifier } from '../utils/headlineSentiment';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  encrypted: boolean;
+  onSave: (settings: AppSettings, passphrase?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const toLines = (keys: string[]) => keys.join('\n');
+const fromLines = (text: string) => text.split(/[\s,]+/).map(k => k.trim()).filter(Boolean);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, encrypted, onSave, onClose }) => {
+  const [tdKeys, setTdKeys] = useState(toLines(settings.twelveDataKeys));
+  const [fhKeys, setFhKeys] = useState(toLines(settings.finnhubKeys));
+  const [telegram, setTelegram] = useState(settings.telegram);
+  const [news, setNews] = useState(settings.news);
+  const [feedUrls, setFeedUrls] = useState(toLines(settings.news.feedUrls));
+  const [encrypt, setEncrypt] = useState(encrypted);
+  const [passphrase, setPassphrase] = useState('');
+  const [messages, setMessages] = useState<{ errors: string[]; warnings: string[] }>({ errors: [], warnings: [] });
+  const [busy, setBusy] = useState(false);
+  const classifier = useMemo(() => evaluateHeadlineClassifier(), []);
+
+  const draft = (): AppSettings => ({
+    twelveDataKeys: fromLines(tdKeys),
+    finnhubKeys: fromLines(fhKeys),
+    telegram,
+    news: { ...news, feedUrls: fromLines(feedUrls), calendarUrl: news.calendarUrl.trim() }
+  });
+
+  const handleVerify = async () => {
+    setBusy(true);
+    const failures = await verifySettings(draft());
+    setMessages({ errors: failures, warnings: failures.length === 0 ? ['All keys accepted by their providers'] : [] });
+    setBusy(false);
+  };
+
+  const handleSave = async () => {
+    const next = draft();
+    const validation = validateSettings(next);
+    if (encrypt && !passphrase) validation.errors.push('Enter a passphrase to encrypt the stored settings');
+    setMessages(validation);
+    if (validation.errors.length > 0) return;
+
+    setBusy(true);
+    try {
+      await onSave(next, encrypt ? passphrase : undefined);
+      onClose();
+    } catch (err) {
+      setMessages({ errors: [(err as any).message], warnings: [] });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">Settings</h3>
+        <div className="space-y-4">
+          <div>
+            <label className="text-xs text-gray-400">TwelveData API Keys (one per line, rotated in order)</label>
+            <textarea
+              rows={3}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm font-mono"
+              value={tdKeys}
+              onChange={(e) => setTdKeys(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="text-xs text-gray-400">Finnhub API Keys (one per line, rotated on disconnect)</label>
+            <textarea
+              rows={3}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm font-mono"
+              value={fhKeys}
+              onChange={(e) => setFhKeys(e.target.value)}
+            />
+          </div>
+
+          <div className="border-t border-gray-700 pt-4">
+            <p className="text-sm font-bold mb-2">✈️ Telegram</p>
+            <label className="text-xs text-gray-400">Bot Token</label>
+            <input
+              type="text"
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm mb-2"
+              value={telegram.botToken}
+              onChange={(e) => setTelegram(c => ({...c, botToken: e.target.value}))}
+            />
+            <label className="text-xs text-gray-400">Chat ID</label>
+            <input
+              type="text"
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm"
+              value={telegram.chatId}
+              onChange={(e) => setTelegram(c => ({...c, chatId: e.target.value}))}
+            />
+            <label className="text-xs text-gray-400 flex items-center gap-2 mt-2">
+              <input type="checkbox" checked={telegram.enabled} onChange={(e) => setTelegram(c => ({...c, enabled: e.target.checked}))} />
+              Send alerts
+            </label>
+          </div>
+
+          <div className="border-t border-gray-700 pt-4">
+            <p className="text-sm font-bold mb-2">📢 News</p>
+            <label className="text-xs text-gray-400">Source</label>
+            <select
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm mb-2"
+              value={news.source}
+              onChange={(e) => setNews(n => ({...n, source: e.target.value as AppSettings['news']['source']}))}
+            >
+              <option value="FEEDS">Feeds & economic calendar</option>
+              <option value="SIMULATED">Simulated headlines</option>
+            </select>
+            <label className="text-xs text-gray-400">Headline feeds (RSS / Atom / JSON, one URL per line)</label>
+            <textarea
+              rows={2}
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm font-mono mb-2"
+              value={feedUrls}
+              onChange={(e) => setFeedUrls(e.target.value)}
+            />
+            <label className="text-xs text-gray-400">Economic calendar (JSON URL)</label>
+            <input
+              type="text"
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm font-mono"
+              value={news.calendarUrl}
+              onChange={(e) => setNews(n => ({...n, calendarUrl: e.target.value}))}
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              Headline classifier: {(classifier.sentimentAccuracy * 100).toFixed(0)}% direction, {(classifier.impactAccuracy * 100).toFixed(0)}% impact on {classifier.samples} held-out FX headlines
+            </p>
+          </div>
+
+          <div className="border-t border-gray-700 pt-4">
+            <label className="text-xs text-gray-400 flex items-center gap-2">
+              <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+              Encrypt stored settings with a passphrase
+            </label>
+            <p className="text-xs text-gray-500 mt-1">Only values you enter are stored; keys from .env are read from env on every load unless you cleared or replaced them.</p>
+            {encrypt && (
+              <input
+                type="password"
+                placeholder="Passphrase (asked on every reload)"
+                className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm mt-2"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+              />
+            )}
+          </div>
+
+          {messages.errors.map(m => <p key={m} className="text-xs text-red-400">✖ {m}</p>)}
+          {messages.warnings.map(m => <p key={m} className="text-xs text-yellow-400">⚠ {m}</p>)}
+
+          <div className="flex gap-2 mt-4">
+            <button onClick={handleSave} disabled={busy} className="flex-1 bg-green-600 hover:bg-green-500 disabled:bg-gray-600 py-2 rounded">Save</button>
+            <button onClick={handleVerify} disabled={busy} className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 py-2 rounded">Test Keys</button>
+            <button onClick={onClose} className="flex-1 bg-gray-600 hover:bg-gray-500 py-2 rounded">Cancel</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
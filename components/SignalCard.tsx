@@ -1,5 +1,6 @@
 import React from 'react';
 import { Signal } from '../types';
+import { formatPrice } from '../constants';
 
 interface SignalCardProps {
   signal: Signal;
@@ -41,6 +42,7 @@ const SignalCard: React.FC<SignalCardProps> = ({ signal }) => {
                  <span className="text-xs bg-gray-700 px-2 py-1 rounded text-gray-300">
                     {signal.strategy}
                 </span>
+                 <span className="text-[10px] text-gray-500 font-mono mt-1">{signal.symbol}</span>
             </div>
         </div>
         <span className="text-gray-400 text-xs font-mono">{signal.timestampStr}</span>
@@ -67,13 +69,13 @@ const SignalCard: React.FC<SignalCardProps> = ({ signal }) => {
       <div className="grid grid-cols-2 gap-4 text-sm mt-2">
         <div>
             <p className="text-gray-500 text-xs uppercase">Entry Price</p>
-            <p className="font-mono text-gray-200 text-base">{signal.price.toFixed(5)}</p>
+            <p className="font-mono text-gray-200 text-base">{formatPrice(signal.price, signal.symbol)}</p>
         </div>
         <div className="text-right">
             <p className="text-gray-500 text-xs uppercase">Exit Price</p>
             {signal.exitPrice ? (
                 <p className={`font-mono text-base ${signal.status === 'WIN' ? 'text-green-400' : 'text-red-400'}`}>
-                    {signal.exitPrice.toFixed(5)}
+                    {formatPrice(signal.exitPrice, signal.symbol)}
                 </p>
             ) : (
                 <p className="font-mono text-gray-400 text-base animate-pulse">Running...</p>
@@ -85,7 +87,7 @@ const SignalCard: React.FC<SignalCardProps> = ({ signal }) => {
           <div className="mt-2 bg-gray-900/50 p-2 rounded text-xs border border-gray-700">
               <div className="flex justify-between items-center mb-1">
                   <span className="text-purple-400 font-bold">🧠 LSTM Target</span>
-                  <span className="font-mono text-gray-300">{signal.aiPrediction.toFixed(5)}</span>
+                  <span className="font-mono text-gray-300">{formatPrice(signal.aiPrediction, signal.symbol)}</span>
               </div>
               {signal.aiConfidenceScore !== undefined && (
                    <div className="flex items-center gap-2">
@@ -101,6 +103,27 @@ const SignalCard: React.FC<SignalCardProps> = ({ signal }) => {
           </div>
       )}
 
+      {signal.confluence && signal.confluence.timeframes.length > 0 && (
+          <div className="mt-2 flex items-center gap-1 text-[10px]" title={signal.confluence.timeframes.map(t => `${t.timeframe}: ${t.regime}, ${t.emaSide} EMA, MACD ${t.macd}`).join('\n')}>
+              <span className="text-gray-500 uppercase mr-1">MTF</span>
+              {signal.confluence.timeframes.map(t => (
+                  <span
+                    key={t.timeframe}
+                    className={`px-1.5 py-0.5 rounded font-mono ${
+                        t.agreement === 'AGREE' ? 'bg-green-900/60 text-green-300'
+                        : t.agreement === 'CONFLICT' ? 'bg-red-900/60 text-red-300'
+                        : 'bg-gray-700 text-gray-400'
+                    }`}
+                  >
+                      {t.timeframe}
+                  </span>
+              ))}
+              <span className={`ml-auto font-mono ${signal.confluence.points >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {signal.confluence.points >= 0 ? '+' : ''}{signal.confluence.points}
+              </span>
+          </div>
+      )}
+
       <div className="mt-2 pt-2 border-t border-gray-700 flex justify-between items-center">
           <span className="text-xs text-gray-500">{signal.timeframe} Expiry</span>
           <div className="flex items-center justify-end gap-1">
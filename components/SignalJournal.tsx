@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { Signal } from '../types';
+import { TIMEFRAMES, SYMBOLS, formatPrice } from '../constants';
+import { JournalFilter, querySignals, signalsToCSV, signalsToJSON } from '../utils/journal';
+
+interface SignalJournalProps {
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+const STRENGTHS: NonNullable<Signal['signalStrength']>[] = ['MAX', 'STRONG', 'MODERATE', 'WEAK'];
+const OUTCOMES: Signal['status'][] = ['WIN', 'LOSS', 'PENDING'];
+
+const toDateInput = (ts: number) => new Date(ts - new Date(ts).getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const SignalJournal: React.FC<SignalJournalProps> = ({ onClose }) => {
+  const [filter, setFilter] = useState<JournalFilter>({});
+  const [fromDate, setFromDate] = useState(() => toDateInput(Date.now() - 7 * 86400000));
+  const [toDate, setToDate] = useState(() => toDateInput(Date.now()));
+  const [rows, setRows] = useState<Signal[]>([]);
+  const [strategies, setStrategies] = useState<string[]>([]);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const [error, setError] = useState<string | null>(null);
+
+  // Strategy names are free-form (e.g. "Trend Alpha + LSTM"), so list what the journal holds
+  useEffect(() => {
+    querySignals()
+      .then(all => setStrategies(Array.from(new Set(all.map(s => s.strategy || 'Hybrid'))).sort()))
+      .catch(err => setError('Could not open journal: ' + err.message));
+  }, []);
+
+  useEffect(() => {
+    const query: JournalFilter = {
+      ...filter,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined
+    };
+    querySignals(query)
+      .then(result => {
+        setRows(result);
+        setVisible(PAGE_SIZE);
+      })
+      .catch(err => setError('Journal query failed: ' + err.message));
+  }, [filter, fromDate, toDate]);
+
+  const update = (patch: Partial<JournalFilter>) => setFilter(f => ({ ...f, ...patch }));
+
+  const settled = rows.filter(s => s.status !== 'PENDING');
+  const wins = settled.filter(s => s.status === 'WIN').length;
+  const pnl = settled.reduce((sum, s) => sum + (s.pnl || 0), 0);
+  const stamp = `${fromDate || 'start'}_${toDate || 'now'}`;
+
+  const selectClass = 'bg-gray-900 border border-gray-700 rounded p-1 text-xs';
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">📒 Signal Journal</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-sm">✕ Close</button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 items-center mb-3">
+          <select className={selectClass} value={filter.symbol || ''} onChange={(e) => update({ symbol: e.target.value || undefined })}>
+            <option value="">All symbols</option>
+            {SYMBOLS.map(s => <option key={s.symbol} value={s.symbol}>{s.symbol}</option>)}
+          </select>
+          <select className={selectClass} value={filter.timeframe || ''} onChange={(e) => update({ timeframe: e.target.value || undefined })}>
+            <option value="">All timeframes</option>
+            {TIMEFRAMES.map(tf => <option key={tf.id} value={tf.id}>{tf.id}</option>)}
+          </select>
+          <select className={selectClass} value={filter.strategy || ''} onChange={(e) => update({ strategy: e.target.value || undefined })}>
+            <option value="">All strategies</option>
+            {strategies.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select className={selectClass} value={filter.strength || ''} onChange={(e) => update({ strength: (e.target.value || undefined) as JournalFilter['strength'] })}>
+            <option value="">All strengths</option>
+            {STRENGTHS.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <select className={selectClass} value={filter.outcome || ''} onChange={(e) => update({ outcome: (e.target.value || undefined) as JournalFilter['outcome'] })}>
+            <option value="">All outcomes</option>
+            {OUTCOMES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <input type="date" className={selectClass} value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          <span className="text-xs text-gray-500">to</span>
+          <input type="date" className={selectClass} value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          <div className="flex-1" />
+          <button
+            onClick={() => downloadFile(signalsToCSV(rows), `signals_${stamp}.csv`, 'text/csv')}
+            disabled={rows.length === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1 rounded text-xs"
+          >
+            ⬇ CSV
+          </button>
+          <button
+            onClick={() => downloadFile(signalsToJSON(rows), `signals_${stamp}.json`, 'application/json')}
+            disabled={rows.length === 0}
+            className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1 rounded text-xs"
+          >
+            ⬇ JSON
+          </button>
+        </div>
+
+        <p className="text-xs text-gray-400 mb-2">
+          {rows.length} signal(s) • {wins}W / {settled.length - wins}L
+          {settled.length > 0 && ` • ${((wins / settled.length) * 100).toFixed(1)}% win rate`}
+          {' '}• P&L <span className={pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}>{pnl.toFixed(2)}</span>
+        </p>
+        {error && <p className="text-red-400 text-xs mb-2">{error}</p>}
+
+        <div className="flex-1 overflow-y-auto">
+          <table className="w-full text-xs font-mono">
+            <thead className="sticky top-0 bg-gray-800">
+              <tr className="text-gray-500">
+                <th className="text-left font-normal">Time</th>
+                <th className="text-left font-normal">Symbol</th>
+                <th className="text-left font-normal">TF</th>
+                <th className="text-left font-normal">Type</th>
+                <th className="text-left font-normal">Strategy</th>
+                <th className="text-left font-normal">Strength</th>
+                <th className="text-left font-normal">Regime</th>
+                <th className="text-right font-normal">Entry</th>
+                <th className="text-right font-normal">Exit</th>
+                <th className="text-right font-normal">LSTM</th>
+                <th className="text-right font-normal">RSI</th>
+                <th className="text-right font-normal">ADX</th>
+                <th className="text-right font-normal">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, visible).map(sig => (
+                <tr key={sig.id} className="text-gray-300 border-t border-gray-700/50" title={sig.newsContext}>
+                  <td className="py-1 whitespace-nowrap">{new Date(sig.timestamp).toLocaleString()}</td>
+                  <td>{sig.symbol}</td>
+                  <td>{sig.timeframe}</td>
+                  <td className={sig.type === 'CALL' ? 'text-green-400' : 'text-red-400'}>{sig.type}</td>
+                  <td className="truncate max-w-[160px]">{sig.strategy}</td>
+                  <td>{sig.signalStrength}</td>
+                  <td className="truncate max-w-[120px]">{sig.regime}</td>
+                  <td className="text-right">{formatPrice(sig.price, sig.symbol)}</td>
+                  <td className="text-right">{sig.exitPrice !== undefined ? formatPrice(sig.exitPrice, sig.symbol) : '—'}</td>
+                  <td className="text-right">{sig.aiPrediction ? formatPrice(sig.aiPrediction, sig.symbol) : '—'}</td>
+                  <td className="text-right">{sig.indicators?.rsi?.toFixed(1) ?? '—'}</td>
+                  <td className="text-right">{sig.indicators?.adx?.toFixed(1) ?? '—'}</td>
+                  <td className={`text-right font-bold ${sig.status === 'WIN' ? 'text-green-400' : sig.status === 'LOSS' ? 'text-red-400' : 'text-yellow-400'}`}>
+                    {sig.status}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && <p className="text-gray-500 italic text-center py-8">No signals match these filters</p>}
+          {rows.length > visible && (
+            <button onClick={() => setVisible(v => v + PAGE_SIZE)} className="w-full text-xs text-blue-400 hover:text-blue-300 py-2">
+              Show more ({rows.length - visible} remaining)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SignalJournal;
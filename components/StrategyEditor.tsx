@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { StrategyConfig } from '../types';
+import { STRATEGY_PRESETS, getConfigVersion, validateStrategyConfig } from '../utils/strategyConfig';
+import { RegistryEntry, StrategyPluginState } from '../utils/strategies';
+
+interface StrategyEditorProps {
+  config: StrategyConfig;
+  plugins: RegistryEntry[];
+  onSave: (config: StrategyConfig, pluginState: Record<string, StrategyPluginState>) => void;
+  onClose: () => void;
+}
+
+type ConfigGroup = Exclude<keyof StrategyConfig, 'id'>;
+
+const GROUPS: { key: ConfigGroup; title: string; step: number }[] = [
+  { key: 'indicators', title: 'Indicator Periods', step: 1 },
+  { key: 'regime', title: 'Regime (ADX)', step: 1 },
+  { key: 'rsi', title: 'RSI Bands', step: 1 },
+  { key: 'weights', title: 'Score Weights', step: 1 },
+  { key: 'sentiment', title: 'News Sentiment', step: 1 },
+  { key: 'ai', title: 'LSTM Fusion', step: 0.0001 },
+  { key: 'ensemble', title: 'Model Ensemble Weights', step: 0.1 },
+  { key: 'confluence', title: 'Timeframe Confluence', step: 1 },
+  { key: 'signal', title: 'Signal Thresholds', step: 1 }
+];
+
+// camelCase -> "Camel Case"
+const toLabel = (key: string) => key.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+const StrategyEditor: React.FC<StrategyEditorProps> = ({ config, plugins, onSave, onClose }) => {
+  const [draft, setDraft] = useState<StrategyConfig>(config);
+  const [pluginState, setPluginState] = useState<Record<string, StrategyPluginState>>(() => {
+    const state: Record<string, StrategyPluginState> = {};
+    plugins.forEach(p => { state[p.strategy.id] = { enabled: p.enabled, weight: p.weight }; });
+    return state;
+  });
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updatePlugin = (id: string, patch: Partial<StrategyPluginState>) => {
+    setPluginState(s => ({ ...s, [id]: { ...s[id], ...patch } }));
+  };
+
+  const updateField = (group: ConfigGroup, field: string, value: number) => {
+    setDraft(d => ({ ...d, [group]: { ...(d[group] as Record<string, number>), [field]: value } }));
+  };
+
+  const handleSave = () => {
+    const validation = validateStrategyConfig(draft);
+    Object.keys(pluginState).forEach(id => {
+      const weight = pluginState[id].weight;
+      if (!Number.isFinite(weight) || weight < 0) validation.push(`Weight for ${id} must be a number >= 0`);
+    });
+    setErrors(validation);
+    if (validation.length > 0) return;
+    onSave(draft, pluginState);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50">
+      <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-xl font-bold">🎛️ Strategy Parameters</h3>
+          <span className="text-xs font-mono text-gray-500">{getConfigVersion(draft, pluginState)}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-end mb-4">
+          <div>
+            <label className="text-xs text-gray-400 block">Preset</label>
+            <select
+              className="bg-gray-900 border border-gray-700 rounded p-2 text-sm"
+              value=""
+              onChange={(e) => {
+                const preset = STRATEGY_PRESETS.find(p => p.id === e.target.value);
+                if (preset) setDraft(preset);
+              }}
+            >
+              <option value="" disabled>Load preset...</option>
+              {STRATEGY_PRESETS.map(p => <option key={p.id} value={p.id}>{p.id}</option>)}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="text-xs text-gray-400 block">Config name</label>
+            <input
+              type="text"
+              className="w-full bg-gray-900 border border-gray-700 rounded p-2 text-sm font-mono"
+              value={draft.id}
+              onChange={(e) => setDraft(d => ({ ...d, id: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="bg-gray-900/50 rounded border border-gray-700 p-3 mb-4">
+          <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">Strategies (scores are multiplied by weight)</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {plugins.map(({ strategy }) => {
+              const state = pluginState[strategy.id];
+              return (
+                <div key={strategy.id} className="flex items-center gap-2 text-xs text-gray-300" title={strategy.description}>
+                  <input
+                    type="checkbox"
+                    checked={state.enabled}
+                    onChange={(e) => updatePlugin(strategy.id, { enabled: e.target.checked })}
+                  />
+                  <span className={`flex-1 ${state.enabled ? '' : 'text-gray-500 line-through'}`}>{strategy.name}</span>
+                  <input
+                    type="number"
+                    step={0.1}
+                    min={0}
+                    disabled={!state.enabled}
+                    className="w-20 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right font-mono disabled:opacity-50"
+                    value={state.weight}
+                    onChange={(e) => updatePlugin(strategy.id, { weight: parseFloat(e.target.value) })}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {GROUPS.map(group => {
+            const values = draft[group.key] as Record<string, number>;
+            return (
+              <div key={group.key} className="bg-gray-900/50 rounded border border-gray-700 p-3">
+                <p className="text-xs text-gray-400 uppercase tracking-wider mb-2">{group.title}</p>
+                {Object.keys(values).map(field => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-xs text-gray-300 mb-1">
+                    {toLabel(field)}
+                    <input
+                      type="number"
+                      step={group.step}
+                      className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right font-mono"
+                      value={values[field]}
+                      onChange={(e) => updateField(group.key, field, parseFloat(e.target.value))}
+                    />
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {errors.map(m => <p key={m} className="text-xs text-red-400 mt-2">✖ {m}</p>)}
+
+        <div className="flex gap-2 mt-4">
+          <button onClick={handleSave} className="flex-1 bg-green-600 hover:bg-green-500 py-2 rounded">Apply & Save</button>
+          <button onClick={onClose} className="flex-1 bg-gray-600 hover:bg-gray-500 py-2 rounded">Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StrategyEditor;
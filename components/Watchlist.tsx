@@ -0,0 +1,70 @@
+import React from 'react';
+import { Signal, SymbolSpec } from '../types';
+import { formatPrice } from '../constants';
+
+interface WatchlistProps {
+  symbols: SymbolSpec[];
+  watchlist: string[];
+  activeSymbol: string;
+  quotes: Record<string, number>;
+  signals: Signal[];
+  trainingSymbols: string[];
+  modelSymbols: string[];
+  onSelect: (symbol: string) => void;
+  onToggleWatch: (symbol: string) => void;
+}
+
+const Watchlist: React.FC<WatchlistProps> = ({ symbols, watchlist, activeSymbol, quotes, signals, trainingSymbols, modelSymbols, onSelect, onToggleWatch }) => {
+  const getModelStatus = (symbol: string) => {
+    if (trainingSymbols.includes(symbol)) return <span className="text-yellow-400 animate-pulse">Training</span>;
+    if (modelSymbols.includes(symbol)) return <span className="text-green-400">AI</span>;
+    return <span className="text-gray-600">—</span>;
+  };
+
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4">
+      <p className="text-gray-400 text-xs uppercase tracking-wider mb-2">Watchlist</p>
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal w-6"></th>
+            <th className="text-left font-normal">Symbol</th>
+            <th className="text-right font-normal">Price</th>
+            <th className="text-right font-normal">Open</th>
+            <th className="text-right font-normal">LSTM</th>
+          </tr>
+        </thead>
+        <tbody>
+          {symbols.map(spec => {
+            const watched = watchlist.includes(spec.symbol);
+            const isActive = spec.symbol === activeSymbol;
+            const pending = signals.filter(s => s.symbol === spec.symbol && s.status === 'PENDING').length;
+            return (
+              <tr
+                key={spec.symbol}
+                onClick={() => watched && onSelect(spec.symbol)}
+                className={`${isActive ? 'bg-blue-900/30 text-blue-300' : 'text-gray-300'} ${watched ? 'cursor-pointer hover:bg-gray-700/50' : 'opacity-50'}`}
+              >
+                <td onClick={(e) => e.stopPropagation()}>
+                  <input
+                    type="checkbox"
+                    checked={watched}
+                    disabled={watched && watchlist.length === 1}
+                    onChange={() => onToggleWatch(spec.symbol)}
+                    title={watched ? 'Stop watching' : 'Watch'}
+                  />
+                </td>
+                <td className="py-1 font-bold" title={spec.label}>{spec.symbol}</td>
+                <td className="text-right">{quotes[spec.symbol] !== undefined ? formatPrice(quotes[spec.symbol], spec.symbol) : '—'}</td>
+                <td className={`text-right ${pending > 0 ? 'text-yellow-400' : 'text-gray-600'}`}>{pending}</td>
+                <td className="text-right">{watched ? getModelStatus(spec.symbol) : ''}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -0,0 +1,48 @@
+import { Timeframe, SymbolSpec } from './types';
+
+// REMOVED 1 MINUTE TIMEFRAME AS REQUESTED
+export const TIMEFRAMES: Timeframe[] = [
+    { label: '5 min', value: 5, id: '5m' },
+    { label: '15 min', value: 15, id: '15m' },
+    { label: '30 min', value: 30, id: '30m' },
+    { label: '45 min', value: 45, id: '45m' },
+    { label: '1 hour', value: 60, id: '1h' },
+];
+
+// Rolling 1-minute candle buffer kept by the live engine
+export const MAX_CANDLES = 3500;
+
+// Data quality (utils/dataQuality.ts)
+export const SPIKE_MAX_DEVIATION = 0.005; // Ticks / candles further than this (fraction) from the recent median are spikes
+export const SPIKE_CONFIRMATIONS = 3; // Consecutive agreeing outliers accepted as a genuine jump
+export const MAX_BACKFILL_MINUTES = 600; // Longest gap requested from the history provider after a reconnect
+export const MAX_QUIET_MINUTES = 5; // Gaps up to this long on a live stream are minutes without ticks, filled flat
+
+// LSTM lifecycle: scheduled / drift-triggered retraining and persistence
+export const MODEL_RETRAIN_EVERY = 240; // Closed 1m candles between scheduled retrains
+export const MODEL_DRIFT_WINDOW = 60; // Latest predictions the live hit rate is measured over
+export const MODEL_DRIFT_HIT_RATE = 0.45; // Retrain early when that hit rate drops below
+export const MODEL_MAX_AGE_MS = 12 * 60 * 60 * 1000; // Older stored models are retrained instead of restored
+export const MODEL_VERSIONS_KEPT = 5; // Per symbol; older versions are deleted
+
+// Direction classifier & probability calibration (utils/directionClassifier.ts, utils/calibration.ts)
+export const CLASSIFIER_MIN_SAMPLES = 50; // Candles of a timeframe needed to fit its classifier
+export const CALIBRATION_MIN_SAMPLES = 30; // Settled signals before raw probabilities are calibrated
+export const CALIBRATION_ISOTONIC_MIN_SAMPLES = 300; // Platt scaling below, isotonic regression from here on
+
+export const SYMBOLS: SymbolSpec[] = [
+    { symbol: 'EUR/USD', label: 'Euro / US Dollar', precision: 5, pipSize: 0.0001, sentimentBias: 1 },
+    { symbol: 'GBP/USD', label: 'British Pound / US Dollar', precision: 5, pipSize: 0.0001, sentimentBias: 1 },
+    { symbol: 'USD/JPY', label: 'US Dollar / Japanese Yen', precision: 3, pipSize: 0.01, sentimentBias: -1 },
+    { symbol: 'XAU/USD', label: 'Gold / US Dollar', precision: 2, pipSize: 0.1, sentimentBias: 1 },
+];
+
+export const DEFAULT_SYMBOL = 'EUR/USD';
+
+export const getSymbolSpec = (symbol: string): SymbolSpec => {
+    return SYMBOLS.find(s => s.symbol === symbol) || SYMBOLS[0];
+};
+
+export const formatPrice = (price: number, symbol: string): string => {
+    return price.toFixed(getSymbolSpec(symbol).precision);
+};
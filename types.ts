@@ -22,7 +22,32 @@ export interface Candle {
   adx?: number;
   atr?: number;
   rsi?: number;
-  isNewsCandle?: boolean;
+  // Extended set (utils/extendedIndicators.ts)
+  stoch?: { k: number; d?: number };
+  stochRsi?: { k: number; d?: number };
+  cci?: number;
+  williamsR?: number; // -100..0
+  ichimoku?: {
+    tenkan?: number;
+    kijun?: number;
+    senkouA?: number; // Spans are displaced forward by the kijun period
+    senkouB?: number;
+  };
+  psar?: { value: number; trend: 'UP' | 'DOWN' };
+  keltner?: Band;
+  donchian?: Band;
+  vwap?: number; // Tick-volume weighted, resets at 00:00 UTC
+  superTrend?: { value: number; direction: 'UP' | 'DOWN' };
+  pivots?: { pivot: number; r1: number; r2: number; s1: number; s2: number }; // Previous UTC day
+  isNewsCandle?: boolean; // Overlaps a news blackout window
+  missingMinutes?: number; // Resampled candles: 1m candles missing from the elapsed part of the bucket
+  sentiment?: number; // News sentiment score when the candle closed (live candles only)
+}
+
+export interface Band {
+  upper: number;
+  middle: number;
+  lower: number;
 }
 
 export interface LogEntry {
@@ -34,20 +59,59 @@ export interface LogEntry {
 
 export interface NewsItem {
   headline: string;
-  sentiment: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
+  sentiment: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL'; // For EUR/USD (see SymbolSpec.sentimentBias)
   impact: 'HIGH' | 'MEDIUM' | 'LOW';
   timestamp: number;
   source: string;
+  event?: EconomicEvent; // Set on economic calendar releases
+}
+
+// Scheduled release from the economic calendar (utils/newsData.ts)
+export interface EconomicEvent {
+  id: string;
+  kind: 'CPI' | 'NFP' | 'FOMC' | 'ECB';
+  title: string; // As published, e.g. 'CPI y/y'
+  currency: 'USD' | 'EUR';
+  timestamp: number; // Scheduled release time
+  impact: NewsItem['impact'];
+  actual?: number; // Unset until released
+  forecast?: number;
+  previous?: number;
+  unit?: string; // '%', 'K', ... as published
+}
+
+// Minutes around scheduled releases in which signals are held back (utils/blackout.ts)
+export interface BlackoutConfig {
+  windows: Record<EconomicEvent['kind'], { enabled: boolean; before: number; after: number }>;
+  timeframes: string[]; // Timeframe ids whose signals are affected
+  action: 'SUPPRESS' | 'DOWNGRADE'; // Drop the signal, or lower its strength one level
+  events: EconomicEvent[]; // Scheduled by hand, on top of the calendar feed
+}
+
+export type TradingSession = 'SYDNEY' | 'TOKYO' | 'LONDON' | 'NEW_YORK';
+
+// When the bot may trade (utils/sessions.ts)
+export interface SessionConfig {
+  allowed: TradingSession[]; // Signals only while one of these is open
+  holidays: string[]; // 'MM-DD' every year or 'YYYY-MM-DD', New York date
+}
+
+export interface NewsSettings {
+  source: 'SIMULATED' | 'FEEDS';
+  feedUrls: string[]; // RSS / Atom / JSON headline feeds
+  calendarUrl: string; // JSON economic calendar, empty = none
 }
 
 export interface Signal {
   id: string;
+  symbol: string; // e.g. 'EUR/USD'
   timestamp: number; 
   timestampStr: string;
   type: 'CALL' | 'PUT';
   price: number; // Entry Price
   exitPrice?: number; // Exit Price
-  confidence: number;
+  confidence: number; // Calibrated P(win) when rawProbability is set, score-based otherwise
+  rawProbability?: number; // Uncalibrated P(win) from the timeframe's direction classifier
   timeframe: string;
   regime: string;
   status: 'PENDING' | 'WIN' | 'LOSS';
@@ -57,6 +121,90 @@ export interface Signal {
   signalStrength?: 'WEAK' | 'MODERATE' | 'STRONG' | 'MAX';
   aiConfidenceScore?: number; // 0-100 score derived from AI certainty
   newsContext?: string; // Which news triggered/influenced this
+  indicators?: IndicatorSnapshot; // Indicator values on the entry candle
+  configVersion?: string; // StrategyConfig fingerprint that produced it
+  confluence?: ConfluenceBreakdown; // Higher-timeframe agreement, live signals only
+  modelVersion?: string; // ModelVersion.id of the LSTM behind aiPrediction
+  modelVotes?: Partial<Record<EnsembleMemberId | 'ensemble', 'UP' | 'DOWN'>>; // Next-candle direction per model
+}
+
+// Direction of a timeframe at the time a lower timeframe is scored
+export interface TimeframeBias {
+  timeframe: string;
+  regime: string;
+  emaSide: 'ABOVE' | 'BELOW'; // Close vs the trend EMA
+  macd: 'UP' | 'DOWN'; // Sign of the MACD histogram
+}
+
+export interface ConfluenceEntry extends TimeframeBias {
+  agreement: 'AGREE' | 'CONFLICT' | 'MIXED';
+  points: number; // Contribution to the signal score (negative on conflict)
+}
+
+export interface ConfluenceBreakdown {
+  points: number; // Sum of the entries, already included in the score
+  timeframes: ConfluenceEntry[]; // Higher timeframes, lowest first
+}
+
+// Copy of the entry candle's indicators, stored with the signal in the journal
+export interface IndicatorSnapshot {
+  close: number;
+  rsi?: number;
+  adx?: number;
+  atr?: number;
+  ema200?: number;
+  macd?: Candle['macd'];
+  bollinger?: Candle['bollinger'];
+  stochK?: number;
+  cci?: number;
+  williamsR?: number;
+  superTrend?: 'UP' | 'DOWN';
+}
+
+// --- LSTM ---
+
+// Models voting on the next-candle move (utils/ensemble.ts); 'lstm' is the primary model
+export type EnsembleMemberId = 'lstm' | 'gru' | 'cnn' | 'logistic' | 'naive';
+
+// Inputs the LSTM can be trained on (utils/lstmFeatures.ts)
+export type LSTMFeature = 'close' | 'returns' | 'rsi' | 'macdHist' | 'atrRange' | 'bbPercentB' | 'timeOfDay' | 'sentiment';
+
+export interface LSTMConfig {
+  features: LSTMFeature[];
+  windowSize: number; // Candles per input sequence
+  layers: number; // Stacked LSTM layers
+  units: number; // Per LSTM layer
+  denseUnits: number; // Hidden dense layer before the output (0 = none)
+  epochs: number; // Upper bound, early stopping usually ends sooner
+  patience: number; // Epochs without validation improvement before stopping
+  batchSize: number;
+  learningRate: number;
+  validationSplit: number; // Most recent fraction of the sequences held out
+  trainingCandles: number; // Latest 1m candles used for training
+  ensemble: EnsembleMemberId[]; // Extra learners trained on the same buffer (GRU / CNN reuse the settings above)
+}
+
+// Measured on the held-out tail after training
+export interface LSTMValidationMetrics {
+  samples: number;
+  loss: number; // MSE of the standardised next-candle return
+  baselineLoss: number; // MSE of always predicting the mean return
+  directionalAccuracy: number; // Share of samples with the right sign (0..1)
+  epochs: number; // Epochs actually trained
+}
+
+// One trained LSTM, persisted by utils/modelStore.ts
+export interface ModelVersion {
+  id: string;
+  symbol: string;
+  createdAt: number;
+  trigger: 'INITIAL' | 'SCHEDULED' | 'DRIFT' | 'MANUAL';
+  trainedOn: { candles: number; from: number; to: number }; // 1m candles the model saw
+  validationLoss: number; // MSE on the held-out tail (standardised returns)
+  validation?: LSTMValidationMetrics;
+  config?: LSTMConfig; // Architecture & features it was trained with
+  members?: { id: EnsembleMemberId; validation?: LSTMValidationMetrics }[]; // Ensemble learners stored with it
+  live: { predictions: number; hits: number }; // Next-candle direction while it was active
 }
 
 export interface BotStats {
@@ -75,4 +223,108 @@ export interface TelegramConfig {
     botToken: string;
     chatId: string;
     enabled: boolean;
-}
\ No newline at end of file
+}
+
+export interface Timeframe {
+    label: string;
+    value: number; // Minutes
+    id: string;
+}
+
+export interface AppSettings {
+    twelveDataKeys: string[];
+    finnhubKeys: string[];
+    telegram: TelegramConfig;
+    news: NewsSettings;
+}
+
+export interface SymbolSpec {
+    symbol: string; // TwelveData notation, e.g. 'EUR/USD'
+    label: string;
+    precision: number; // Decimals shown for prices
+    pipSize: number;
+    // +1 when EUR/USD-bullish news is bullish for this pair (USD is the quote
+    // currency), -1 when USD is the base currency
+    sentimentBias: 1 | -1;
+}
+
+// --- STRATEGY PARAMETERS ---
+
+export interface IndicatorParams {
+    macdFast: number;
+    macdSlow: number;
+    macdSignal: number;
+    bbPeriod: number;
+    bbMult: number;
+    adxPeriod: number;
+    rsiPeriod: number;
+    emaTrendPeriod: number; // Stored on Candle.ema200 whatever the period
+    smaFast: number; // Chart overlays only
+    smaSlow: number;
+    stochK: number;
+    stochD: number;
+    stochSmooth: number; // Slow stochastic: SMA of raw %K
+    stochRsiPeriod: number;
+    cciPeriod: number;
+    williamsPeriod: number;
+    ichimokuTenkan: number;
+    ichimokuKijun: number;
+    ichimokuSenkouB: number;
+    psarStep: number;
+    psarMax: number;
+    keltnerPeriod: number;
+    keltnerMult: number; // x ATR
+    donchianPeriod: number;
+    superTrendPeriod: number;
+    superTrendMult: number;
+}
+
+export interface StrategyConfig {
+    id: string; // Preset / user config name
+    indicators: IndicatorParams;
+    regime: {
+        trendAdx: number; // ADX above => trending (strategy A)
+        chopAdx: number; // ADX below => choppy/sideways
+        reversionMaxAdx: number; // ADX at or below => reversion (strategy B)
+    };
+    rsi: {
+        overbought: number;
+        oversold: number;
+        midline: number;
+    };
+    weights: {
+        trendMacdCross: number;
+        trendBbMidCross: number;
+        trendRsi: number;
+        trendHist: number;
+        reversionBbBreak: number;
+        reversionRsiExtreme: number;
+        reversionMacdCross: number;
+        oscillatorExtreme: number; // Per oscillator (Stoch, Stoch RSI, CCI, Williams %R) at an extreme
+        oscillatorTrend: number; // Extremes agreeing with the SuperTrend direction
+        strategyMinScore: number; // Score needed before a strategy name is assigned
+    };
+    sentiment: {
+        deadband: number; // |score| at or below is ignored
+        cap: number; // Max points sentiment can add
+    };
+    ai: {
+        moveThreshold: number; // Predicted move (fraction of price) worth `weight` points
+        maxRatio: number;
+        weight: number;
+    };
+    ensemble: Record<EnsembleMemberId, number>; // Vote weight per model in the combined AI prediction (0 = tracked only)
+    confluence: {
+        agreePoints: number; // Per higher timeframe whose EMA side and MACD agree
+        conflictPoints: number; // Deducted per higher timeframe where both disagree
+        vetoStrongTrend: number; // 1 = a strong opposite trend on any higher timeframe blocks the signal
+    };
+    signal: {
+        threshold: number; // Min score to emit a signal
+        strong: number; // Score above => STRONG
+        max: number; // Score above => MAX
+        confidenceScale: number; // confidence = score / scale (no direction classifier for the timeframe)
+        maxConfidence: number;
+        minProbability: number; // Drop signals whose P(win) is below this (0 = off; break-even is 1 / (1 + payout))
+    };
+}
@@ -0,0 +1,88 @@
+import { BlackoutConfig, Candle, EconomicEvent, LSTMConfig, StrategyConfig } from '../types';
+import { SerializedLSTMModel, deserializeLSTMModel, serializeLSTMModel } from './simulation';
+import { StrategyPluginState } from './strategies';
+import { ModelLiveStats, TimeframeAnalysis, createAnalysisEngine } from './analysisEngine';
+import { Calibration } from './calibration';
+
+// --- ANALYSIS WORKER ---
+// Hosts the live AnalysisEngine: candles in, enriched candles / signals /
+// regimes out. Every request carries an id that is echoed on its response.
+// Requests run in arrival order, except that TRAIN yields between epochs so
+// candle closes keep being analysed meanwhile. See utils/analysisClient.ts.
+
+export type AnalysisRequest =
+    | { type: 'RESET'; config: StrategyConfig; pluginState: Record<string, StrategyPluginState>; seed?: number }
+    | { type: 'CONFIG'; config: StrategyConfig; pluginState: Record<string, StrategyPluginState> }
+    | { type: 'LOAD'; symbol: string; candles: Candle[] }
+    | { type: 'REMOVE'; symbol: string }
+    | { type: 'CANDLE_CLOSE'; symbol: string; candle: Candle; now: number; sentimentScore: number; skipTimeframes: string[] }
+    | { type: 'APPEND'; symbol: string; candles: Candle[] }
+    | { type: 'CHART'; symbol: string; timeframeMinutes: number; forming?: Candle }
+    | { type: 'TRAIN'; symbol: string; version?: string; lstmConfig?: LSTMConfig }
+    | { type: 'SET_MODEL'; symbol: string; model: SerializedLSTMModel }
+    | { type: 'SET_CALIBRATION'; calibration: Calibration | null }
+    | { type: 'SET_BLACKOUT'; events: EconomicEvent[]; config: BlackoutConfig };
+
+export type AnalysisResponse =
+    | { type: 'DONE' }
+    | { type: 'CANDLES'; candles: Candle[] }
+    | { type: 'ANALYSIS'; results: TimeframeAnalysis[]; model?: ModelLiveStats }
+    | { type: 'TRAINED'; model: SerializedLSTMModel; durationMs: number }
+    | { type: 'ERROR'; message: string };
+
+export interface AnalysisRequestMessage { id: number; request: AnalysisRequest }
+export interface AnalysisResponseMessage { id: number; response: AnalysisResponse }
+
+const ctx = self as unknown as Worker;
+const engine = createAnalysisEngine();
+
+const handle = async (request: AnalysisRequest): Promise<AnalysisResponse> => {
+    switch (request.type) {
+        case 'RESET':
+            engine.reset(request.config, request.pluginState, request.seed);
+            return { type: 'DONE' };
+        case 'CONFIG':
+            engine.setConfig(request.config, request.pluginState);
+            return { type: 'DONE' };
+        case 'LOAD':
+            return { type: 'CANDLES', candles: engine.load(request.symbol, request.candles) };
+        case 'REMOVE':
+            engine.remove(request.symbol);
+            return { type: 'DONE' };
+        case 'CANDLE_CLOSE': {
+            const { symbol, candle, now, sentimentScore, skipTimeframes } = request;
+            return { type: 'ANALYSIS', ...engine.closeCandle(symbol, candle, { now, sentimentScore, skipTimeframes }) };
+        }
+        case 'APPEND':
+            engine.append(request.symbol, request.candles);
+            return { type: 'DONE' };
+        case 'CHART':
+            return { type: 'CANDLES', candles: engine.chart(request.symbol, request.timeframeMinutes, request.forming) };
+        case 'TRAIN': {
+            const startTime = Date.now();
+            const model = await engine.train(request.symbol, request.version, request.lstmConfig);
+            return { type: 'TRAINED', model: await serializeLSTMModel(model), durationMs: Date.now() - startTime };
+        }
+        case 'SET_MODEL':
+            engine.setModel(request.symbol, await deserializeLSTMModel(request.model));
+            return { type: 'DONE' };
+        case 'SET_CALIBRATION':
+            engine.setCalibration(request.calibration);
+            return { type: 'DONE' };
+        case 'SET_BLACKOUT':
+            engine.setBlackout(request.events, request.config);
+            return { type: 'DONE' };
+    }
+};
+
+ctx.onmessage = async (event: MessageEvent<AnalysisRequestMessage>) => {
+    const { id, request } = event.data;
+    let response: AnalysisResponse;
+    try {
+        response = await handle(request);
+    } catch (err) {
+        response = { type: 'ERROR', message: (err as any).message };
+    }
+    const message: AnalysisResponseMessage = { id, response };
+    ctx.postMessage(message);
+};
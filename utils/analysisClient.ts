@@ -0,0 +1,78 @@
+import { BlackoutConfig, Candle, EconomicEvent, LSTMConfig, StrategyConfig } from '../types';
+import { SerializedLSTMModel } from './simulation';
+import { StrategyPluginState } from './strategies';
+import { CandleCloseResult } from './analysisEngine';
+import { Calibration } from './calibration';
+import type { AnalysisRequest, AnalysisRequestMessage, AnalysisResponse, AnalysisResponseMessage } from './analysis.worker';
+
+export interface AnalysisClient {
+    reset(config: StrategyConfig, pluginState: Record<string, StrategyPluginState>, seed?: number): Promise<void>;
+    setConfig(config: StrategyConfig, pluginState: Record<string, StrategyPluginState>): Promise<void>;
+    load(symbol: string, candles: Candle[]): Promise<Candle[]>;
+    remove(symbol: string): Promise<void>;
+    closeCandle(symbol: string, candle: Candle, now: number, sentimentScore: number, skipTimeframes: string[]): Promise<CandleCloseResult>;
+    append(symbol: string, candles: Candle[]): Promise<void>;
+    chart(symbol: string, timeframeMinutes: number, forming?: Candle): Promise<Candle[]>;
+    train(symbol: string, version?: string, lstmConfig?: LSTMConfig): Promise<{ model: SerializedLSTMModel; durationMs: number }>;
+    setModel(symbol: string, model: SerializedLSTMModel): Promise<void>;
+    setCalibration(calibration: Calibration | null): Promise<void>;
+    setBlackout(events: EconomicEvent[], config: BlackoutConfig): Promise<void>;
+}
+
+type ResponseOf<T extends AnalysisResponse['type']> = Extract<AnalysisResponse, { type: T }>;
+
+// Talks to utils/analysis.worker.ts. Each call resolves with the worker's
+// response to that request, or rejects with its ERROR message.
+export const createAnalysisClient = (): AnalysisClient => {
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    const pending = new Map<number, { resolve: (r: AnalysisResponse) => void; reject: (err: Error) => void }>();
+    let nextId = 1;
+
+    worker.onmessage = (event: MessageEvent<AnalysisResponseMessage>) => {
+        const { id, response } = event.data;
+        const call = pending.get(id);
+        if (!call) return;
+        pending.delete(id);
+        if (response.type === 'ERROR') call.reject(new Error(response.message));
+        else call.resolve(response);
+    };
+    worker.onerror = (event) => {
+        const err = new Error(event.message || 'Analysis worker crashed');
+        pending.forEach(call => call.reject(err));
+        pending.clear();
+    };
+
+    const send = <T extends AnalysisResponse['type']>(request: AnalysisRequest, expected: T): Promise<ResponseOf<T>> => {
+        const id = nextId++;
+        return new Promise<ResponseOf<T>>((resolve, reject) => {
+            pending.set(id, {
+                resolve: (response) => response.type === expected
+                    ? resolve(response as ResponseOf<T>)
+                    : reject(new Error(`Unexpected ${response.type} response to ${request.type}`)),
+                reject
+            });
+            const message: AnalysisRequestMessage = { id, request };
+            worker.postMessage(message);
+        });
+    };
+
+    return {
+        reset: async (config, pluginState, seed) => { await send({ type: 'RESET', config, pluginState, seed }, 'DONE'); },
+        setConfig: async (config, pluginState) => { await send({ type: 'CONFIG', config, pluginState }, 'DONE'); },
+        load: async (symbol, candles) => (await send({ type: 'LOAD', symbol, candles }, 'CANDLES')).candles,
+        remove: async (symbol) => { await send({ type: 'REMOVE', symbol }, 'DONE'); },
+        closeCandle: async (symbol, candle, now, sentimentScore, skipTimeframes) => {
+            const { results, model } = await send({ type: 'CANDLE_CLOSE', symbol, candle, now, sentimentScore, skipTimeframes }, 'ANALYSIS');
+            return { results, model };
+        },
+        append: async (symbol, candles) => { await send({ type: 'APPEND', symbol, candles }, 'DONE'); },
+        chart: async (symbol, timeframeMinutes, forming) => (await send({ type: 'CHART', symbol, timeframeMinutes, forming }, 'CANDLES')).candles,
+        train: async (symbol, version, lstmConfig) => {
+            const { model, durationMs } = await send({ type: 'TRAIN', symbol, version, lstmConfig }, 'TRAINED');
+            return { model, durationMs };
+        },
+        setModel: async (symbol, model) => { await send({ type: 'SET_MODEL', symbol, model }, 'DONE'); },
+        setCalibration: async (calibration) => { await send({ type: 'SET_CALIBRATION', calibration }, 'DONE'); },
+        setBlackout: async (events, config) => { await send({ type: 'SET_BLACKOUT', events, config }, 'DONE'); }
+    };
+};
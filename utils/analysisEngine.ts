@@ -0,0 +1,287 @@
+import { BlackoutConfig, Candle, EconomicEvent, LSTMConfig, Signal, StrategyConfig, TimeframeBias } from '../types';
+import { TIMEFRAMES, MAX_CANDLES, MODEL_DRIFT_WINDOW, CLASSIFIER_MIN_SAMPLES } from '../constants';
+import { LSTMModelData, analyzeMarket, disposeLSTMModel, predictLSTM, trainLSTMModel } from './simulation';
+import { ReplayEnvironment, createReplayEnvironment } from './environment';
+import { StrategyPluginState, StrategyRegistry, createDefaultRegistry } from './strategies';
+import { DEFAULT_STRATEGY_CONFIG } from './strategyConfig';
+import { TimeframeSeries } from './indicatorEngine';
+import { getTimeframeBias } from './confluence';
+import { DEFAULT_LSTM_CONFIG } from './lstmConfig';
+import { DirectionClassifier, trainDirectionClassifier } from './directionClassifier';
+import { Calibration } from './calibration';
+import { BlackoutWindow, DEFAULT_BLACKOUT_CONFIG, describeBlackout, findBlackoutWindow, getBlackoutWindows, markNewsCandles } from './blackout';
+
+// --- ANALYSIS ENGINE ---
+// Owns the per-symbol candle stores, indicator pipeline and LSTM models used by
+// live analysis. Runs inside utils/analysis.worker.ts so the UI thread only
+// renders; kept free of worker APIs so it can also be driven directly.
+// Indicators are updated incrementally (utils/indicatorEngine.ts): one O(1)
+// step per timeframe per closed candle instead of a full recompute.
+
+export interface TimeframeAnalysis {
+    timeframe: string;
+    signal: Signal | null;
+    regime: string;
+    blackout?: string; // Why the signal was suppressed (signal null) or downgraded
+}
+
+// Directional accuracy of the active LSTM on closed 1m candles
+export interface ModelLiveStats {
+    version?: string;
+    predictions: number;
+    hits: number;
+    recentHitRate: number; // Over the latest MODEL_DRIFT_WINDOW predictions
+    recentCount: number;
+}
+
+export interface CandleCloseResult {
+    results: TimeframeAnalysis[];
+    model?: ModelLiveStats; // Present while a model is loaded
+}
+
+export interface CandleCloseOptions {
+    now: number; // Clock of the caller (wall clock or replay time)
+    sentimentScore: number; // Already adjusted for the symbol
+    skipTimeframes?: string[]; // e.g. timeframes with a PENDING signal
+}
+
+interface SymbolState {
+    candles: Candle[]; // Raw 1m history, replayed when indicator periods change
+    series: Record<number, TimeframeSeries>; // By timeframe minutes (1 = the 1m chart)
+    model?: LSTMModelData;
+    tracking?: ModelTracking;
+    classifiers: Record<string, DirectionClassifier>; // By timeframe id, where there is enough history
+}
+
+interface ModelTracking {
+    predictions: number;
+    hits: number;
+    recent: boolean[]; // Newest last, capped to MODEL_DRIFT_WINDOW
+    pending?: { from: number; predicted: number }; // Prediction for the next 1m close
+}
+
+export interface AnalysisEngine {
+    reset(config: StrategyConfig, pluginState: Record<string, StrategyPluginState>, seed?: number): void;
+    setConfig(config: StrategyConfig, pluginState: Record<string, StrategyPluginState>): void;
+    load(symbol: string, candles: Candle[]): Candle[];
+    remove(symbol: string): void;
+    closeCandle(symbol: string, candle: Candle, options: CandleCloseOptions): CandleCloseResult;
+    append(symbol: string, candles: Candle[]): void;
+    chart(symbol: string, timeframeMinutes: number, forming?: Candle): Candle[];
+    train(symbol: string, version?: string, lstmConfig?: LSTMConfig): Promise<LSTMModelData>;
+    setModel(symbol: string, model: LSTMModelData): void;
+    setCalibration(calibration: Calibration | null): void;
+    setBlackout(events: EconomicEvent[], config: BlackoutConfig): void;
+}
+
+export const createAnalysisEngine = (): AnalysisEngine => {
+    let symbols: Record<string, SymbolState> = {};
+    let config: StrategyConfig = DEFAULT_STRATEGY_CONFIG;
+    let registry: StrategyRegistry = createDefaultRegistry();
+    // Time is pushed in by the caller with every closed candle
+    let env: ReplayEnvironment = createReplayEnvironment();
+    // Fitted by the caller on journal signals; survives resets
+    let calibration: Calibration | null = null;
+    // News blackout windows (utils/blackout.ts); also survive resets
+    let blackoutConfig: BlackoutConfig = DEFAULT_BLACKOUT_CONFIG;
+    let blackoutWindows: BlackoutWindow[] = [];
+
+    const getSymbol = (symbol: string): SymbolState => {
+        const state = symbols[symbol];
+        if (!state) throw new Error(`No history loaded for ${symbol}`);
+        return state;
+    };
+
+    const disposeModel = (state: SymbolState | undefined) => {
+        if (state?.model) disposeLSTMModel(state.model);
+    };
+
+    const activateModel = (state: SymbolState, model: LSTMModelData) => {
+        disposeModel(state);
+        state.model = model;
+        state.tracking = { predictions: 0, hits: 0, recent: [] };
+    };
+
+    // Scores the previous next-close prediction against `candle`, then
+    // predicts the close after it. Flat moves are not counted.
+    const trackModel = (state: SymbolState, candle: Candle): ModelLiveStats | undefined => {
+        const { model, tracking } = state;
+        if (!model || !tracking) return undefined;
+        const pending = tracking.pending;
+        if (pending) {
+            const predicted = Math.sign(pending.predicted - pending.from);
+            const actual = Math.sign(candle.close - pending.from);
+            if (predicted !== 0 && actual !== 0) {
+                const hit = predicted === actual;
+                tracking.predictions++;
+                if (hit) tracking.hits++;
+                tracking.recent.push(hit);
+                if (tracking.recent.length > MODEL_DRIFT_WINDOW) tracking.recent.shift();
+            }
+        }
+        const predicted = predictLSTM(model, state.series[1].series());
+        tracking.pending = predicted === null ? undefined : { from: candle.close, predicted };
+
+        const recentHits = tracking.recent.filter(Boolean).length;
+        return {
+            version: model.version,
+            predictions: tracking.predictions,
+            hits: tracking.hits,
+            recentHitRate: tracking.recent.length > 0 ? recentHits / tracking.recent.length : 0,
+            recentCount: tracking.recent.length
+        };
+    };
+
+    const buildSeries = (candles: Candle[], timeframeMinutes: number): TimeframeSeries => {
+        const series = new TimeframeSeries(timeframeMinutes, config.indicators, Math.ceil(MAX_CANDLES / timeframeMinutes));
+        candles.forEach(c => series.push(c));
+        return series;
+    };
+
+    const buildAllSeries = (candles: Candle[]): Record<number, TimeframeSeries> => {
+        const series: Record<number, TimeframeSeries> = { 1: buildSeries(candles, 1) };
+        TIMEFRAMES.forEach(tf => { series[tf.value] = buildSeries(candles, tf.value); });
+        return series;
+    };
+
+    const fitClassifiers = (series: Record<number, TimeframeSeries>): Record<string, DirectionClassifier> => {
+        const classifiers: Record<string, DirectionClassifier> = {};
+        TIMEFRAMES.forEach(tf => {
+            const classifier = trainDirectionClassifier(series[tf.value].series(), tf.id, CLASSIFIER_MIN_SAMPLES);
+            if (classifier) classifiers[tf.id] = classifier;
+        });
+        return classifiers;
+    };
+
+    return {
+        reset(nextConfig, pluginState, seed) {
+            Object.keys(symbols).forEach(s => disposeModel(symbols[s]));
+            symbols = {};
+            env = createReplayEnvironment(seed);
+            registry = createDefaultRegistry();
+            this.setConfig(nextConfig, pluginState);
+        },
+
+        setConfig(nextConfig, pluginState) {
+            const periodsChanged = JSON.stringify(nextConfig.indicators) !== JSON.stringify(config.indicators);
+            config = nextConfig;
+            registry.applyState(pluginState);
+            if (!periodsChanged) return;
+            Object.keys(symbols).forEach(s => {
+                symbols[s].series = buildAllSeries(symbols[s].candles);
+                symbols[s].classifiers = fitClassifiers(symbols[s].series);
+            });
+        },
+
+        load(symbol, candles) {
+            disposeModel(symbols[symbol]);
+            const history = candles.slice(-MAX_CANDLES);
+            const series = buildAllSeries(history);
+            symbols[symbol] = { candles: history, series, classifiers: fitClassifiers(series) };
+            return series[1].series();
+        },
+
+        remove(symbol) {
+            disposeModel(symbols[symbol]);
+            delete symbols[symbol];
+        },
+
+        // --- PARALLEL TIMEFRAME ANALYSIS ---
+        // Analyzes ALL timeframes every minute (even on forming candles)
+        // ensuring no idle waiting time. Each timeframe is scored with the
+        // bias of every higher one (multi-timeframe confluence).
+        closeCandle(symbol, candle, options) {
+            const state = getSymbol(symbol);
+            // Sentiment at close time is an LSTM input (utils/lstmFeatures.ts)
+            candle = { ...candle, sentiment: options.sentimentScore };
+            state.candles.push(candle);
+            if (state.candles.length > MAX_CANDLES * 1.5) state.candles = state.candles.slice(-MAX_CANDLES);
+            Object.keys(state.series).forEach(tf => state.series[Number(tf)].push(candle));
+            env.setTime(options.now);
+            const model = trackModel(state, candle);
+
+            // Closed buckets + the one the latest 1m candle belongs to
+            const series = TIMEFRAMES.map(tf => state.series[tf.value].series());
+            const modelCandles = state.model ? state.series[1].series() : undefined;
+            // Skipped timeframes still provide context to the lower ones
+            const biases = TIMEFRAMES.map((tf, i) => getTimeframeBias(series[i], tf.id, config));
+            const skip = options.skipTimeframes || [];
+            const results = TIMEFRAMES.map((tf, i) => ({ tf, i })).filter(({ tf }) => !skip.includes(tf.id)).map(({ tf, i }) => {
+                const higherTimeframes = biases.filter((b, j): b is TimeframeBias => b !== null && TIMEFRAMES[j].value > tf.value);
+                // A signal taken now expires one timeframe later
+                const news = blackoutConfig.timeframes.includes(tf.id)
+                    ? findBlackoutWindow(blackoutWindows, options.now, options.now + tf.value * 60 * 1000)
+                    : undefined;
+                const { signal, regime, blackout } = analyzeMarket(series[i], tf.id, state.model, {
+                    symbol,
+                    env,
+                    sentimentScore: options.sentimentScore,
+                    config,
+                    registry,
+                    higherTimeframes,
+                    classifier: state.classifiers[tf.id],
+                    calibration,
+                    modelCandles,
+                    blackout: news ? { reason: describeBlackout(news), action: blackoutConfig.action } : undefined
+                });
+                return { timeframe: tf.id, signal, regime, blackout };
+            });
+            return { results, model };
+        },
+
+        // Backfilled / gap-filled 1m candles: stored and streamed, not analysed.
+        // Candles not newer than the latest stored one are ignored.
+        append(symbol, candles) {
+            const state = getSymbol(symbol);
+            candles.forEach(candle => {
+                const last = state.candles[state.candles.length - 1];
+                if (last && candle.timestamp <= last.timestamp) return;
+                state.candles.push(candle);
+                Object.keys(state.series).forEach(tf => state.series[Number(tf)].push(candle));
+            });
+            if (state.candles.length > MAX_CANDLES * 1.5) state.candles = state.candles.slice(-MAX_CANDLES);
+            // The pending next-close prediction was made before the gap
+            if (state.tracking) state.tracking.pending = undefined;
+        },
+
+        // Chart series for one timeframe, including the forming 1m candle.
+        // Candles are flagged here so windows added later cover past candles too.
+        chart(symbol, timeframeMinutes, forming) {
+            const state = getSymbol(symbol);
+            if (!state.series[timeframeMinutes]) state.series[timeframeMinutes] = buildSeries(state.candles, timeframeMinutes);
+            const last = state.candles[state.candles.length - 1];
+            const isNew = forming && (!last || forming.timestamp > last.timestamp);
+            return markNewsCandles(state.series[timeframeMinutes].series(isNew ? forming : undefined), blackoutWindows, timeframeMinutes);
+        },
+
+        async train(symbol, version, lstmConfig = DEFAULT_LSTM_CONFIG) {
+            const state = getSymbol(symbol);
+            // The enriched 1m series: indicators are warmed up on the full history
+            const model = await trainLSTMModel(state.series[1].series(), lstmConfig);
+            model.version = version;
+            // The symbol may have been reloaded or removed while training
+            if (symbols[symbol] !== state) {
+                disposeLSTMModel(model);
+                throw new Error(`${symbol} was reloaded during training`);
+            }
+            activateModel(state, model);
+            // The direction classifiers are refitted on the same schedule
+            state.classifiers = fitClassifiers(state.series);
+            return model;
+        },
+
+        // A model restored from storage (or trained elsewhere)
+        setModel(symbol, model) {
+            activateModel(getSymbol(symbol), model);
+        },
+
+        setCalibration(next) {
+            calibration = next;
+        },
+
+        setBlackout(events, nextConfig) {
+            blackoutConfig = nextConfig;
+            blackoutWindows = getBlackoutWindows(events, nextConfig);
+        }
+    };
+};
@@ -0,0 +1,205 @@
+import { Signal } from '../types';
+import { BREAK_EVEN_PROBABILITY } from './simulation';
+import { getActiveSessions, getSessionLabel } from './sessions';
+
+// --- PERFORMANCE ANALYTICS ---
+// Pure functions over settled signals. Shared by the live analytics panel
+// (session or journal signals) and the backtest report.
+
+export interface BreakdownRow {
+    total: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    pnl: number;
+}
+
+export interface EquityPoint {
+    timestamp: number;
+    equity: number;
+}
+
+export interface CalibrationBucket {
+    from: number; // Confidence range [from, to)
+    to: number;
+    total: number;
+    wins: number;
+    avgConfidence: number; // 0-1
+    winRate: number; // 0-100, realised
+}
+
+export interface AiAccuracy {
+    samples: number; // Settled signals that carried an LSTM prediction
+    correct: number;
+    accuracy: number; // 0-100
+}
+
+export interface PerformanceReport {
+    total: number;
+    wins: number;
+    losses: number;
+    winRate: number;
+    pnl: number;
+    maxDrawdown: number;
+    longestLosingStreak: number;
+    equityCurve: EquityPoint[];
+    byTimeframe: Record<string, BreakdownRow>;
+    byStrategy: Record<string, BreakdownRow>;
+    byStrength: Record<string, BreakdownRow>;
+    byRegime: Record<string, BreakdownRow>;
+    byHourIST: Record<string, BreakdownRow>;
+    bySession: Record<string, BreakdownRow>; // Open trading centres when the signal was taken
+    byConfig: Record<string, BreakdownRow>;
+    calibration: CalibrationBucket[];
+    byBreakEven: Record<string, BreakdownRow>; // Signals with a classifier probability, split at break-even
+    brierScore: number | null; // Mean squared error of those probabilities (0 = perfect, 0.25 = coin flip)
+    ai: AiAccuracy;
+    byModel: Record<string, AiAccuracy>; // Per ensemble member (Signal.modelVotes) plus 'ensemble'
+}
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+export const getSettledSignals = (signals: Signal[]): Signal[] => {
+    return signals
+        .filter(s => s.status !== 'PENDING')
+        .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const emptyRow = (): BreakdownRow => ({ total: 0, wins: 0, losses: 0, winRate: 0, pnl: 0 });
+
+export const breakdownBy = (signals: Signal[], key: (s: Signal) => string): Record<string, BreakdownRow> => {
+    const rows: Record<string, BreakdownRow> = {};
+    for (const s of signals) {
+        const k = key(s);
+        const row = rows[k] || (rows[k] = emptyRow());
+        row.total++;
+        if (s.status === 'WIN') row.wins++;
+        if (s.status === 'LOSS') row.losses++;
+        row.pnl += s.pnl || 0;
+    }
+    for (const row of Object.values(rows)) {
+        row.winRate = row.total > 0 ? (row.wins / row.total) * 100 : 0;
+    }
+    return rows;
+};
+
+// Equity curve & drawdown, ordered by entry time. Expects settled signals.
+export const buildEquityCurve = (settled: Signal[]): { equityCurve: EquityPoint[]; pnl: number; maxDrawdown: number } => {
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    const equityCurve: EquityPoint[] = [];
+    for (const s of settled) {
+        equity += s.pnl || 0;
+        peak = Math.max(peak, equity);
+        maxDrawdown = Math.max(maxDrawdown, peak - equity);
+        equityCurve.push({ timestamp: s.timestamp, equity });
+    }
+    return { equityCurve, pnl: equity, maxDrawdown };
+};
+
+export const getLongestLosingStreak = (settled: Signal[]): number => {
+    let longest = 0;
+    let current = 0;
+    for (const s of settled) {
+        current = s.status === 'LOSS' ? current + 1 : 0;
+        longest = Math.max(longest, current);
+    }
+    return longest;
+};
+
+// Hour of day in IST (UTC+05:30, no DST), 0-23
+export const getHourIST = (timestamp: number): number => {
+    return new Date(timestamp + IST_OFFSET_MS).getUTCHours();
+};
+
+// Confidence is bucketed into equal-width bins; a well calibrated engine has
+// winRate ~= avgConfidence * 100 in every bucket. Empty buckets are dropped.
+export const calibrateConfidence = (settled: Signal[], bucketWidth: number = 0.1): CalibrationBucket[] => {
+    const bucketCount = Math.ceil(1 / bucketWidth);
+    const buckets: CalibrationBucket[] = [];
+    for (let i = 0; i < bucketCount; i++) {
+        buckets.push({ from: i * bucketWidth, to: Math.min((i + 1) * bucketWidth, 1), total: 0, wins: 0, avgConfidence: 0, winRate: 0 });
+    }
+    for (const s of settled) {
+        const bucket = buckets[Math.min(Math.floor(s.confidence / bucketWidth), bucketCount - 1)];
+        bucket.total++;
+        if (s.status === 'WIN') bucket.wins++;
+        bucket.avgConfidence += s.confidence;
+    }
+    return buckets
+        .filter(b => b.total > 0)
+        .map(b => ({ ...b, avgConfidence: b.avgConfidence / b.total, winRate: (b.wins / b.total) * 100 }));
+};
+
+// Only signals whose confidence is a classifier probability (rawProbability set)
+const getProbabilitySignals = (settled: Signal[]): Signal[] => settled.filter(s => s.rawProbability !== undefined);
+
+export const getBrierScore = (settled: Signal[]): number | null => {
+    const scored = getProbabilitySignals(settled);
+    if (scored.length === 0) return null;
+    return scored.reduce((sum, s) => sum + (s.confidence - (s.status === 'WIN' ? 1 : 0)) ** 2, 0) / scored.length;
+};
+
+// LSTM directional accuracy: did the predicted move (aiPrediction vs entry)
+// match the realised move (exitPrice vs entry)? Independent of signal type.
+export const getAiAccuracy = (settled: Signal[]): AiAccuracy => {
+    let samples = 0;
+    let correct = 0;
+    for (const s of settled) {
+        if (!s.aiPrediction || s.exitPrice === undefined) continue;
+        const predicted = Math.sign(s.aiPrediction - s.price);
+        const realised = Math.sign(s.exitPrice - s.price);
+        if (predicted === 0 || realised === 0) continue;
+        samples++;
+        if (predicted === realised) correct++;
+    }
+    return { samples, correct, accuracy: samples > 0 ? (correct / samples) * 100 : 0 };
+};
+
+// Same comparison for every model's vote, so each learner can be held
+// against the naive baseline on the same signals
+export const getModelAccuracy = (settled: Signal[]): Record<string, AiAccuracy> => {
+    const result: Record<string, AiAccuracy> = {};
+    for (const s of settled) {
+        if (!s.modelVotes || s.exitPrice === undefined) continue;
+        const realised = Math.sign(s.exitPrice - s.price);
+        if (realised === 0) continue;
+        Object.entries(s.modelVotes).forEach(([model, vote]) => {
+            if (!result[model]) result[model] = { samples: 0, correct: 0, accuracy: 0 };
+            result[model].samples++;
+            if ((vote === 'UP' ? 1 : -1) === realised) result[model].correct++;
+        });
+    }
+    Object.values(result).forEach(r => { r.accuracy = (r.correct / r.samples) * 100; });
+    return result;
+};
+
+export const analyzePerformance = (signals: Signal[]): PerformanceReport => {
+    const settled = getSettledSignals(signals);
+    const wins = settled.filter(s => s.status === 'WIN').length;
+    const { equityCurve, pnl, maxDrawdown } = buildEquityCurve(settled);
+
+    return {
+        total: settled.length,
+        wins,
+        losses: settled.length - wins,
+        winRate: settled.length > 0 ? (wins / settled.length) * 100 : 0,
+        pnl,
+        maxDrawdown,
+        longestLosingStreak: getLongestLosingStreak(settled),
+        equityCurve,
+        byTimeframe: breakdownBy(settled, s => s.timeframe),
+        byStrategy: breakdownBy(settled, s => s.strategy || 'Hybrid'),
+        byStrength: breakdownBy(settled, s => s.signalStrength || 'WEAK'),
+        byRegime: breakdownBy(settled, s => s.regime),
+        byHourIST: breakdownBy(settled, s => `${String(getHourIST(s.timestamp)).padStart(2, '0')}:00`),
+        bySession: breakdownBy(settled, s => getSessionLabel(getActiveSessions(s.timestamp))),
+        byConfig: breakdownBy(settled, s => s.configVersion || 'unversioned'),
+        calibration: calibrateConfidence(settled),
+        byBreakEven: breakdownBy(getProbabilitySignals(settled), s => (s.confidence >= BREAK_EVEN_PROBABILITY ? 'Above break-even' : 'Below break-even')),
+        brierScore: getBrierScore(settled),
+        ai: getAiAccuracy(settled),
+        byModel: getModelAccuracy(settled)
+    };
+};
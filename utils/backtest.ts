@@ -0,0 +1,129 @@
+import { Candle, Signal, Timeframe, StrategyConfig, SessionConfig } from '../types';
+import { TIMEFRAMES, MAX_CANDLES } from '../constants';
+import { analyzeMarket, calculateIndicators, checkSignals, resampleCandles, LSTMModelData } from './simulation';
+import { createReplayEnvironment } from './environment';
+import { StrategyRegistry } from './strategies';
+import { BreakdownRow, EquityPoint, getSettledSignals, buildEquityCurve, breakdownBy } from './analytics';
+import { getActiveSessions, getMarketStatus, getSessionLabel } from './sessions';
+
+// --- HISTORICAL BACKTEST ENGINE ---
+// Replays a stored 1-minute series through the exact same pipeline the live
+// websocket loop uses: every closed 1m candle resamples + analyses each
+// timeframe, and pending signals are settled against simulated time.
+
+export interface BacktestOptions {
+    symbol?: string;
+    timeframes?: Timeframe[];
+    windowSize?: number; // Rolling 1m buffer, mirrors the live engine
+    warmup?: number; // 1m candles replayed before the first analysis
+    aiModel?: LSTMModelData;
+    config?: StrategyConfig; // Defaults to DEFAULT_STRATEGY_CONFIG
+    registry?: StrategyRegistry; // Defaults to the shared strategyRegistry
+    seed?: number; // Same seed + same candles => identical report
+    sessions?: SessionConfig; // No signals outside these sessions / market hours, as live
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface BacktestReport {
+    startTime: number;
+    endTime: number;
+    candlesReplayed: number;
+    signals: Signal[];
+    total: number;
+    wins: number;
+    losses: number;
+    unsettled: number;
+    winRate: number;
+    pnl: number; // Payout-weighted, in stake units
+    maxDrawdown: number; // Peak-to-trough of the equity curve, in stake units
+    equityCurve: EquityPoint[];
+    byStrategy: Record<string, BreakdownRow>;
+    byRegime: Record<string, BreakdownRow>;
+    byTimeframe: Record<string, BreakdownRow>;
+    bySession: Record<string, BreakdownRow>;
+}
+
+export const summarizeBacktest = (signals: Signal[], startTime: number, endTime: number, candlesReplayed: number): BacktestReport => {
+    const settled = getSettledSignals(signals);
+    const wins = settled.filter(s => s.status === 'WIN').length;
+    const losses = settled.length - wins;
+    const { equityCurve, pnl, maxDrawdown } = buildEquityCurve(settled);
+
+    return {
+        startTime,
+        endTime,
+        candlesReplayed,
+        signals,
+        total: settled.length,
+        wins,
+        losses,
+        unsettled: signals.length - settled.length,
+        winRate: settled.length > 0 ? (wins / settled.length) * 100 : 0,
+        pnl,
+        maxDrawdown,
+        equityCurve,
+        byStrategy: breakdownBy(settled, s => s.strategy || 'Hybrid'),
+        byRegime: breakdownBy(settled, s => s.regime),
+        byTimeframe: breakdownBy(settled, s => s.timeframe),
+        bySession: breakdownBy(settled, s => getSessionLabel(getActiveSessions(s.timestamp))),
+    };
+};
+
+export const runBacktest = async (candles: Candle[], options: BacktestOptions = {}): Promise<BacktestReport> => {
+    const timeframes = options.timeframes || TIMEFRAMES;
+    const windowSize = options.windowSize || MAX_CANDLES;
+    const warmup = options.warmup ?? 200;
+
+    const series = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    if (series.length <= warmup) throw new Error(`Backtest needs more than ${warmup} candles (got ${series.length})`);
+
+    const env = createReplayEnvironment(options.seed ?? 1, series[0].timestamp);
+    let signals: Signal[] = [];
+    const total = series.length - warmup;
+
+    for (let i = warmup; i < series.length; i++) {
+        const candle = series[i];
+        // The live loop reacts when the first tick of the NEXT minute arrives
+        env.setTime(candle.timestamp + 60 * 1000);
+
+        // 1. Settle pending signals at this candle's close
+        signals = checkSignals(signals, candle.close, env);
+
+        // 2. Analyse every timeframe without an open signal
+        const history = series.slice(Math.max(0, i + 1 - windowSize), i + 1);
+        const paused = options.sessions !== undefined && !getMarketStatus(env.now(), options.sessions).allowed;
+        // The model reads the 1m series, as in the live engine
+        const modelCandles = options.aiModel && !paused ? calculateIndicators(history, options.config?.indicators) : undefined;
+
+        for (const tf of timeframes) {
+            if (paused) break;
+            const hasActiveSignal = signals.some(s => s.timeframe === tf.id && s.status === 'PENDING');
+            if (hasActiveSignal) continue;
+
+            const resampled = calculateIndicators(resampleCandles(history, tf.value), options.config?.indicators);
+            const { signal } = analyzeMarket(resampled, tf.id, options.aiModel, {
+                symbol: options.symbol,
+                env,
+                config: options.config,
+                registry: options.registry,
+                sentimentScore: 0, // No news history is replayed
+                modelCandles
+            });
+
+            // Same quality filter as the live engine
+            if (signal && signal.signalStrength !== 'WEAK') {
+                signals.push(signal);
+            }
+        }
+
+        const done = i - warmup + 1;
+        if (done % 100 === 0) {
+            options.onProgress?.(done, total);
+            // Yield so the dashboard keeps rendering during long replays
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+    options.onProgress?.(total, total);
+
+    return summarizeBacktest(signals, series[warmup].timestamp, series[series.length - 1].timestamp, total);
+};
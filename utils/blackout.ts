@@ -0,0 +1,112 @@
+import { BlackoutConfig, Candle, EconomicEvent } from '../types';
+import { TIMEFRAMES } from '../constants';
+import { formatToIST } from './simulation';
+
+// --- NEWS BLACKOUT WINDOWS ---
+// Releases from the economic calendar (utils/newsData.ts) and events scheduled
+// by hand open a window of `before` / `after` minutes around their time. A
+// signal whose expiry period overlaps a window is suppressed or downgraded on
+// the configured timeframes, and candles overlapping one are flagged
+// `isNewsCandle` for the chart.
+
+const STORAGE_KEY = 'eurusd-bot.blackout';
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_BLACKOUT_CONFIG: BlackoutConfig = {
+    windows: {
+        CPI: { enabled: true, before: 15, after: 15 },
+        NFP: { enabled: true, before: 15, after: 15 },
+        FOMC: { enabled: true, before: 15, after: 30 },
+        ECB: { enabled: true, before: 15, after: 30 }
+    },
+    timeframes: TIMEFRAMES.map(tf => tf.id),
+    action: 'SUPPRESS',
+    events: []
+};
+
+export interface BlackoutWindow {
+    event: EconomicEvent;
+    start: number;
+    end: number;
+}
+
+// One window per event (calendar and manual entries may repeat an event), by start
+export const getBlackoutWindows = (events: EconomicEvent[], config: BlackoutConfig): BlackoutWindow[] => {
+    const byId = new Map<string, EconomicEvent>();
+    events.forEach(e => byId.set(e.id, e));
+    return Array.from(byId.values())
+        .filter(e => config.windows[e.kind]?.enabled)
+        .map(event => ({
+            event,
+            start: event.timestamp - config.windows[event.kind].before * MINUTE_MS,
+            end: event.timestamp + config.windows[event.kind].after * MINUTE_MS
+        }))
+        .sort((a, b) => a.start - b.start);
+};
+
+// First window overlapping [from, to)
+export const findBlackoutWindow = (windows: BlackoutWindow[], from: number, to: number): BlackoutWindow | undefined =>
+    windows.find(w => w.start < to && w.end > from);
+
+export const describeBlackout = (window: BlackoutWindow): string => {
+    const { event } = window;
+    const before = Math.round((event.timestamp - window.start) / MINUTE_MS);
+    const after = Math.round((window.end - event.timestamp) / MINUTE_MS);
+    return `${event.currency} ${event.kind} (${event.title}) at ${formatToIST(event.timestamp)}, blackout -${before}/+${after} min`;
+};
+
+// Copies of the candles overlapping a window, flagged; others are returned as is
+export const markNewsCandles = (candles: Candle[], windows: BlackoutWindow[], timeframeMinutes: number): Candle[] => {
+    if (windows.length === 0) return candles;
+    const duration = timeframeMinutes * MINUTE_MS;
+    return candles.map(c => (findBlackoutWindow(windows, c.timestamp, c.timestamp + duration) ? { ...c, isNewsCandle: true } : c));
+};
+
+// Runs of consecutive flagged candles as [first, last] timestamps (chart shading)
+export const getNewsCandleRuns = (candles: Candle[]): { from: number; to: number }[] => {
+    const runs: { from: number; to: number }[] = [];
+    candles.forEach((c, i) => {
+        if (!c.isNewsCandle) return;
+        if (i > 0 && candles[i - 1].isNewsCandle) runs[runs.length - 1].to = c.timestamp;
+        else runs.push({ from: c.timestamp, to: c.timestamp });
+    });
+    return runs;
+};
+
+// --- CONFIG ---
+
+export const validateBlackoutConfig = (config: BlackoutConfig): string[] => {
+    const errors: string[] = [];
+    Object.entries(config.windows).forEach(([kind, w]) => {
+        if (!Number.isFinite(w.before) || w.before < 0 || !Number.isFinite(w.after) || w.after < 0) {
+            errors.push(`${kind} window minutes must be >= 0`);
+        }
+    });
+    config.timeframes.forEach(tf => {
+        if (!TIMEFRAMES.some(t => t.id === tf)) errors.push(`Unknown timeframe "${tf}"`);
+    });
+    if (config.action !== 'SUPPRESS' && config.action !== 'DOWNGRADE') errors.push(`Unknown blackout action "${config.action}"`);
+    config.events.forEach(e => {
+        if (!Number.isFinite(e.timestamp)) errors.push(`Event "${e.title}" has no valid time`);
+        if (!DEFAULT_BLACKOUT_CONFIG.windows[e.kind]) errors.push(`Event "${e.title}" has an unknown type`);
+    });
+    return errors;
+};
+
+export const loadBlackoutConfig = (): BlackoutConfig => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_BLACKOUT_CONFIG;
+        const parsed = JSON.parse(raw);
+        const merged: BlackoutConfig = { ...DEFAULT_BLACKOUT_CONFIG, ...parsed, windows: { ...DEFAULT_BLACKOUT_CONFIG.windows, ...parsed.windows } };
+        return validateBlackoutConfig(merged).length === 0 ? merged : DEFAULT_BLACKOUT_CONFIG;
+    } catch (e) {
+        return DEFAULT_BLACKOUT_CONFIG;
+    }
+};
+
+export const saveBlackoutConfig = (config: BlackoutConfig) => {
+    const errors = validateBlackoutConfig(config);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { CALIBRATION_ISOTONIC_MIN_SAMPLES, CALIBRATION_MIN_SAMPLES } from '../constants';
+import { createSeededRandom } from './environment';
+import { CalibrationSample, applyCalibration, fitCalibration, fitIsotonic, fitPlatt } from './calibration';
+
+// Raw probabilities in [0.2, 0.8]; outcomes drawn with P(win) = truth(p)
+const generateSamples = (count: number, seed: number, truth: (p: number) => number = p => p): CalibrationSample[] => {
+    const random = createSeededRandom(seed);
+    return Array.from({ length: count }, () => {
+        const probability = 0.2 + random() * 0.6;
+        return { probability, win: random() < truth(probability) };
+    });
+};
+
+const GRID = Array.from({ length: 61 }, (_, i) => 0.2 + i * 0.01);
+
+describe('fitPlatt', () => {
+    it('maps calibrated probabilities to roughly themselves', () => {
+        const calibration = fitPlatt(generateSamples(5000, 1));
+        if (calibration.method !== 'PLATT') throw new Error('Expected a Platt fit');
+        expect(calibration.a).toBeCloseTo(1, 0);
+        expect(Math.abs(calibration.b)).toBeLessThan(0.1);
+        GRID.forEach(p => expect(Math.abs(applyCalibration(calibration, p) - p)).toBeLessThan(0.03));
+    });
+
+    it('shrinks overconfident probabilities towards the observed win rate', () => {
+        const calibration = fitPlatt(generateSamples(5000, 2, p => 0.5 + (p - 0.5) / 2));
+        expect(applyCalibration(calibration, 0.8)).toBeCloseTo(0.65, 1);
+        expect(applyCalibration(calibration, 0.2)).toBeCloseTo(0.35, 1);
+    });
+});
+
+describe('fitIsotonic', () => {
+    it('is monotone in the raw probability', () => {
+        const calibration = fitIsotonic(generateSamples(1000, 3));
+        if (calibration.method !== 'ISOTONIC') throw new Error('Expected an isotonic fit');
+        calibration.x.slice(1).forEach((x, i) => expect(x).toBeGreaterThan(calibration.x[i]));
+        calibration.y.slice(1).forEach((y, i) => expect(y).toBeGreaterThan(calibration.y[i]));
+        const mapped = [0, ...GRID, 1].map(p => applyCalibration(calibration, p));
+        mapped.slice(1).forEach((q, i) => expect(q).toBeGreaterThanOrEqual(mapped[i]));
+    });
+
+    it('pools samples into block means', () => {
+        const samples = [0.1, 0.2, 0.3, 0.4].map((probability, i) => ({ probability, win: i === 0 || i === 3 }));
+        const calibration = fitIsotonic(samples);
+        if (calibration.method !== 'ISOTONIC') throw new Error('Expected an isotonic fit');
+        expect(calibration.x.map(x => x.toFixed(6))).toEqual(['0.200000', '0.400000']);
+        expect(calibration.y.map(y => y.toFixed(6))).toEqual([(1 / 3).toFixed(6), '1.000000']);
+    });
+});
+
+describe('fitCalibration', () => {
+    it('switches from Platt to isotonic with the number of samples', () => {
+        expect(fitCalibration(generateSamples(CALIBRATION_MIN_SAMPLES - 1, 4))).toBeNull();
+        expect(fitCalibration(generateSamples(CALIBRATION_MIN_SAMPLES, 4))?.method).toBe('PLATT');
+        expect(fitCalibration(generateSamples(CALIBRATION_ISOTONIC_MIN_SAMPLES, 4))?.method).toBe('ISOTONIC');
+    });
+});
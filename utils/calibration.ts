@@ -0,0 +1,98 @@
+import { Signal } from '../types';
+import { CALIBRATION_ISOTONIC_MIN_SAMPLES, CALIBRATION_MIN_SAMPLES } from '../constants';
+
+// --- PROBABILITY CALIBRATION ---
+// Maps the classifier's raw P(win) (Signal.rawProbability) to the win rate
+// actually observed on settled signals. Platt scaling (a logistic curve on the
+// raw logit) while samples are scarce, isotonic regression (monotone step
+// fit, linearly interpolated) once there are enough of them.
+
+export interface CalibrationSample {
+    probability: number; // Raw P(win)
+    win: boolean;
+}
+
+export type Calibration =
+    | { method: 'PLATT'; samples: number; a: number; b: number }
+    | { method: 'ISOTONIC'; samples: number; x: number[]; y: number[] }; // Block means, x ascending
+
+const EPSILON = 1e-6;
+const clampProbability = (p: number) => Math.min(Math.max(p, EPSILON), 1 - EPSILON);
+const logit = (p: number) => Math.log(clampProbability(p) / (1 - clampProbability(p)));
+
+export const getCalibrationSamples = (signals: Signal[]): CalibrationSample[] =>
+    signals
+        .filter(s => s.status !== 'PENDING' && s.rawProbability !== undefined)
+        .map(s => ({ probability: s.rawProbability!, win: s.status === 'WIN' }));
+
+// Platt (1999) with his target smoothing, fitted by Newton's method on (a, b)
+export const fitPlatt = (samples: CalibrationSample[]): Calibration => {
+    const positives = samples.filter(s => s.win).length;
+    const negatives = samples.length - positives;
+    const hi = (positives + 1) / (positives + 2);
+    const lo = 1 / (negatives + 2);
+    const x = samples.map(s => logit(s.probability));
+    const t = samples.map(s => (s.win ? hi : lo));
+
+    let a = 1;
+    let b = 0;
+    for (let iter = 0; iter < 50; iter++) {
+        let g1 = 0, g2 = 0, h11 = 1e-9, h22 = 1e-9, h12 = 0;
+        x.forEach((xi, i) => {
+            const p = 1 / (1 + Math.exp(-(a * xi + b)));
+            const d = p - t[i];
+            const w = p * (1 - p);
+            g1 += d * xi;
+            g2 += d;
+            h11 += w * xi * xi;
+            h22 += w;
+            h12 += w * xi;
+        });
+        const det = h11 * h22 - h12 * h12;
+        if (Math.abs(det) < 1e-12) break;
+        const da = (h22 * g1 - h12 * g2) / det;
+        const db = (h11 * g2 - h12 * g1) / det;
+        a -= da;
+        b -= db;
+        if (Math.abs(da) < 1e-8 && Math.abs(db) < 1e-8) break;
+    }
+    return { method: 'PLATT', samples: samples.length, a, b };
+};
+
+// Pool-adjacent-violators over samples sorted by raw probability
+export const fitIsotonic = (samples: CalibrationSample[]): Calibration => {
+    const sorted = samples.slice().sort((p, q) => p.probability - q.probability);
+    const blocks: { x: number; y: number; n: number }[] = [];
+    sorted.forEach(s => {
+        blocks.push({ x: s.probability, y: s.win ? 1 : 0, n: 1 });
+        while (blocks.length > 1 && blocks[blocks.length - 2].y >= blocks[blocks.length - 1].y) {
+            const last = blocks.pop()!;
+            const prev = blocks[blocks.length - 1];
+            const n = prev.n + last.n;
+            blocks[blocks.length - 1] = { x: (prev.x * prev.n + last.x * last.n) / n, y: (prev.y * prev.n + last.y * last.n) / n, n };
+        }
+    });
+    return { method: 'ISOTONIC', samples: samples.length, x: blocks.map(b => b.x), y: blocks.map(b => b.y) };
+};
+
+// Null until CALIBRATION_MIN_SAMPLES signals with a raw probability have settled
+export const fitCalibration = (samples: CalibrationSample[]): Calibration | null => {
+    if (samples.length < CALIBRATION_MIN_SAMPLES) return null;
+    return samples.length >= CALIBRATION_ISOTONIC_MIN_SAMPLES ? fitIsotonic(samples) : fitPlatt(samples);
+};
+
+export const applyCalibration = (calibration: Calibration | null | undefined, probability: number): number => {
+    if (!calibration) return probability;
+    if (calibration.method === 'PLATT') {
+        return clampProbability(1 / (1 + Math.exp(-(calibration.a * logit(probability) + calibration.b))));
+    }
+    const { x, y } = calibration;
+    if (probability <= x[0]) return clampProbability(y[0]);
+    if (probability >= x[x.length - 1]) return clampProbability(y[y.length - 1]);
+    const i = x.findIndex(v => v >= probability);
+    const f = (probability - x[i - 1]) / (x[i] - x[i - 1]);
+    return clampProbability(y[i - 1] + f * (y[i] - y[i - 1]));
+};
+
+export const describeCalibration = (calibration: Calibration | null | undefined): string =>
+    calibration ? `${calibration.method === 'PLATT' ? 'Platt' : 'isotonic'} (${calibration.samples} signals)` : 'uncalibrated';
@@ -0,0 +1,59 @@
+import { Candle, ConfluenceBreakdown, ConfluenceEntry, StrategyConfig, TimeframeBias } from '../types';
+
+// --- MULTI-TIMEFRAME CONFLUENCE ---
+// Every timeframe is analysed each minute; the higher ones are summarised as a
+// TimeframeBias (regime, side of the trend EMA, MACD histogram sign) and fed
+// into the scoring of the lower ones. Per higher timeframe the three votes are
+// summed: two or more in favour of the signal add `agreePoints`, two or more
+// against deduct `conflictPoints`. A STRONG trend against the signal vetoes it
+// outright when `vetoStrongTrend` is 1.
+
+// ADX / trend-EMA regime, shared by analyzeMarket and the bias snapshot
+export const detectRegime = (last: Candle, config: StrategyConfig): string => {
+    const adx = last.adx || 0;
+    if (adx > config.regime.trendAdx) return last.close > (last.ema200 || 0) ? 'STRONG_BULL_TREND' : 'STRONG_BEAR_TREND';
+    if (adx < config.regime.chopAdx) return 'CHOPPY/SIDEWAYS';
+    return 'RANGING';
+};
+
+// Bias of the latest (possibly forming) candle, or null while indicators warm up
+export const getTimeframeBias = (candles: Candle[], timeframe: string, config: StrategyConfig): TimeframeBias | null => {
+    const last = candles[candles.length - 1];
+    if (!last || !last.macd || last.ema200 === undefined || last.adx === undefined) return null;
+    return {
+        timeframe,
+        regime: detectRegime(last, config),
+        emaSide: last.close > last.ema200 ? 'ABOVE' : 'BELOW',
+        macd: last.macd.hist >= 0 ? 'UP' : 'DOWN'
+    };
+};
+
+export interface ConfluenceResult extends ConfluenceBreakdown {
+    vetoedBy?: string; // Timeframe whose strong opposite trend blocked the signal
+}
+
+export const scoreConfluence = (type: 'CALL' | 'PUT', higher: TimeframeBias[], config: StrategyConfig): ConfluenceResult => {
+    const { agreePoints, conflictPoints, vetoStrongTrend } = config.confluence;
+    const bullish = type === 'CALL';
+    const aligned = bullish ? 'STRONG_BULL_TREND' : 'STRONG_BEAR_TREND';
+    const opposed = bullish ? 'STRONG_BEAR_TREND' : 'STRONG_BULL_TREND';
+    let vetoedBy: string | undefined;
+
+    const timeframes: ConfluenceEntry[] = higher.map(bias => {
+        const votes = ((bias.emaSide === 'ABOVE') === bullish ? 1 : -1)
+            + ((bias.macd === 'UP') === bullish ? 1 : -1)
+            + (bias.regime === aligned ? 1 : bias.regime === opposed ? -1 : 0);
+        if (bias.regime === opposed && vetoStrongTrend === 1 && !vetoedBy) vetoedBy = bias.timeframe;
+        if (votes >= 2) return { ...bias, agreement: 'AGREE', points: agreePoints };
+        if (votes <= -2) return { ...bias, agreement: 'CONFLICT', points: -conflictPoints };
+        return { ...bias, agreement: 'MIXED', points: 0 };
+    });
+
+    return { points: timeframes.reduce((sum, t) => sum + t.points, 0), timeframes, vetoedBy };
+};
+
+// "15m ✓ 30m ~ 1h ✗" for logs, alerts and CSV
+export const formatConfluence = (confluence: ConfluenceBreakdown): string =>
+    confluence.timeframes
+        .map(t => `${t.timeframe} ${t.agreement === 'AGREE' ? '✓' : t.agreement === 'CONFLICT' ? '✗' : '~'}`)
+        .join(' ');
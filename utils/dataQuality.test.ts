@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Candle } from '../types';
+import { SPIKE_CONFIRMATIONS } from '../constants';
+import { formatToIST } from './simulation';
+import { SpikeFilter, cleanCandles, findGaps } from './dataQuality';
+
+const MINUTE_MS = 60 * 1000;
+const START = Date.UTC(2024, 0, 8, 12, 0); // Monday, market open
+const FRIDAY_CLOSE = Date.UTC(2024, 0, 12, 22, 0); // 17:00 New York
+const SUNDAY_OPEN = Date.UTC(2024, 0, 14, 22, 0);
+
+const candle = (timestamp: number, close: number, wick: Partial<Pick<Candle, 'high' | 'low'>> = {}): Candle => ({
+    time: formatToIST(timestamp),
+    timestamp,
+    open: close,
+    high: wick.high ?? close + 0.0001,
+    low: wick.low ?? close - 0.0001,
+    close,
+    volume: 10
+});
+
+// One candle per minute from START
+const series = (closes: number[]): Candle[] => closes.map((close, i) => candle(START + i * MINUTE_MS, close));
+
+const flat = (count: number, price: number = 1.1) => Array<number>(count).fill(price);
+
+describe('SpikeFilter', () => {
+    it('rejects an isolated outlier tick', () => {
+        const filter = new SpikeFilter();
+        flat(5).forEach(p => expect(filter.accept(p)).toBe(true));
+        expect(filter.accept(1.12)).toBe(false);
+        expect(filter.accept(1.1001)).toBe(true);
+    });
+
+    it('accepts a jump confirmed by agreeing ticks', () => {
+        const filter = new SpikeFilter();
+        flat(5).forEach(p => filter.accept(p));
+        const accepted = flat(SPIKE_CONFIRMATIONS, 1.12).map(p => filter.accept(p));
+        expect(accepted).toEqual([...Array(SPIKE_CONFIRMATIONS - 1).fill(false), true]);
+        expect(filter.accept(1.1201)).toBe(true);
+    });
+});
+
+describe('cleanCandles', () => {
+    it('drops duplicate timestamps, keeping the later candle', () => {
+        const candles = series(flat(5));
+        const repeated = { ...candles[2], close: 1.1002 };
+        const { candles: cleaned, report } = cleanCandles([...candles, repeated]);
+        expect(report.duplicates).toBe(1);
+        expect(cleaned).toHaveLength(5);
+        expect(cleaned[2].close).toBe(1.1002);
+    });
+
+    it('drops an isolated spike', () => {
+        const { candles, report } = cleanCandles(series([...flat(10), 1.12, ...flat(10)]));
+        expect(report.spikes).toBe(1);
+        expect(candles).toHaveLength(20);
+        expect(candles.some(c => c.close === 1.12)).toBe(false);
+    });
+
+    it('keeps a level shift confirmed by consecutive candles', () => {
+        const { candles, report } = cleanCandles(series([...flat(10), ...flat(SPIKE_CONFIRMATIONS + 5, 1.12)]));
+        expect(report.spikes).toBe(0);
+        expect(candles).toHaveLength(15 + SPIKE_CONFIRMATIONS);
+        expect(candles.at(-1)?.close).toBe(1.12);
+    });
+
+    it('drops outliers that never agree on a level', () => {
+        const { candles, report } = cleanCandles(series([...flat(10), 1.12, 1.08, 1.13, ...flat(5)]));
+        expect(report.spikes).toBe(3);
+        expect(candles).toHaveLength(15);
+    });
+
+    it('clips a spiking wick to the body', () => {
+        const candles = series(flat(10));
+        candles[5] = candle(candles[5].timestamp, 1.1, { high: 1.13 });
+        const { candles: cleaned, report } = cleanCandles(candles);
+        expect(report.spikes).toBe(1);
+        expect(cleaned[5].high).toBe(1.1);
+        expect(cleaned[5].low).toBe(candles[5].low);
+    });
+});
+
+describe('findGaps', () => {
+    it('does not count the weekend as missing', () => {
+        const candles = [candle(FRIDAY_CLOSE - MINUTE_MS, 1.1), candle(SUNDAY_OPEN, 1.1)];
+        expect(findGaps(candles)).toEqual([]);
+        expect(cleanCandles(candles).report.missingMinutes).toBe(0);
+    });
+
+    it('counts the open minutes of a gap', () => {
+        const candles = [candle(START, 1.1), candle(START + 11 * MINUTE_MS, 1.1)];
+        expect(findGaps(candles)).toEqual([{ from: START + MINUTE_MS, to: START + 10 * MINUTE_MS, minutes: 10 }]);
+    });
+
+    it('counts only the open minutes of a gap spanning the close', () => {
+        const candles = [candle(FRIDAY_CLOSE - 6 * MINUTE_MS, 1.1), candle(SUNDAY_OPEN + 5 * MINUTE_MS, 1.1)];
+        expect(findGaps(candles).map(g => g.minutes)).toEqual([10]);
+    });
+});
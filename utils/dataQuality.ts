@@ -0,0 +1,173 @@
+import { Candle } from '../types';
+import { SPIKE_CONFIRMATIONS, SPIKE_MAX_DEVIATION } from '../constants';
+import { countOpenMinutes, isMarketOpen } from './sessions';
+import { formatToIST } from './simulation';
+
+// --- DATA QUALITY ---
+// Checks on the 1m candle stream before it reaches the analysis worker:
+// duplicate timestamps, outlier ticks / candles (spikes) and missing minutes.
+// Minutes the FX market is closed (utils/sessions.ts) are not missing.
+// Resampled candles built over missing minutes carry `missingMinutes` and
+// are not analysed (see resampleCandles / TimeframeSeries).
+
+const MINUTE_MS = 60 * 1000;
+
+export interface CandleGap {
+    from: number; // First missing minute
+    to: number; // Last missing minute
+    minutes: number; // Missing minutes while the market was open
+}
+
+export interface DataQualityReport {
+    duplicates: number; // Candles dropped for a repeated timestamp (the later one is kept)
+    spikes: number; // Candles dropped, or wicks clipped, as outliers
+    gaps: CandleGap[];
+    missingMinutes: number;
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const deviation = (price: number, reference: number) => Math.abs(price - reference) / reference;
+
+// Consecutive outliers within `maxDeviation` of each other confirm a genuine jump
+const confirmsMove = (outliers: number[], confirmations: number, maxDeviation: number): boolean =>
+    outliers.length === confirmations && deviation(Math.max(...outliers), Math.min(...outliers)) <= maxDeviation;
+
+// --- SPIKE FILTER (ticks) ---
+
+// Rejects ticks further than `maxDeviation` from the median of the recent
+// accepted ones. A move confirmed by consecutive ticks that agree with each
+// other is a genuine jump: it is accepted and becomes the new reference.
+export class SpikeFilter {
+    private recent: number[] = [];
+    private outliers: number[] = [];
+
+    constructor(private maxDeviation: number = SPIKE_MAX_DEVIATION, private window: number = 20, private confirmations: number = SPIKE_CONFIRMATIONS) {}
+
+    accept(price: number): boolean {
+        if (!Number.isFinite(price) || price <= 0) return false;
+        if (this.recent.length > 0 && deviation(price, median(this.recent)) > this.maxDeviation) {
+            this.outliers = [...this.outliers, price].slice(-this.confirmations);
+            if (!confirmsMove(this.outliers, this.confirmations, this.maxDeviation)) return false;
+            this.recent = this.outliers;
+            this.outliers = [];
+            return true;
+        }
+        this.outliers = [];
+        this.recent.push(price);
+        if (this.recent.length > this.window) this.recent.shift();
+        return true;
+    }
+
+    reset() {
+        this.recent = [];
+        this.outliers = [];
+    }
+}
+
+// --- GAPS ---
+
+// Missing minutes between consecutive candles (sorted, 1m)
+export const findGaps = (candles: Candle[], holidays?: string[]): CandleGap[] => {
+    const gaps: CandleGap[] = [];
+    for (let i = 1; i < candles.length; i++) {
+        const from = candles[i - 1].timestamp + MINUTE_MS;
+        const to = candles[i].timestamp - MINUTE_MS;
+        if (to < from) continue;
+        const minutes = countOpenMinutes(from, to, holidays);
+        if (minutes > 0) gaps.push({ from, to, minutes });
+    }
+    return gaps;
+};
+
+// Flat, zero-volume candles for the open minutes without trades while the
+// stream was up, between `previous` and `until` (exclusive)
+export const fillQuietMinutes = (previous: Candle, until: number, holidays?: string[]): Candle[] => {
+    const { close } = previous;
+    const filled: Candle[] = [];
+    for (let t = previous.timestamp + MINUTE_MS; t < until; t += MINUTE_MS) {
+        if (!isMarketOpen(t, holidays)) continue;
+        filled.push({ time: formatToIST(t), timestamp: t, open: close, high: close, low: close, close, volume: 0 });
+    }
+    return filled;
+};
+
+// --- HISTORY CLEANUP ---
+
+const REFERENCE_CANDLES = 10; // Accepted closes the reference median is taken over
+
+// Sorts, drops duplicate timestamps and spikes, and reports the gaps left.
+// Candles are checked against the median close of the accepted ones before
+// them, with the rule SpikeFilter applies to ticks: a candle whose open or
+// close is an outlier is held back, and kept only once `SPIKE_CONFIRMATIONS`
+// consecutive outliers agree with each other (a level shift, e.g. on news).
+// Outliers that are never confirmed are dropped; a spiking wick is clipped
+// to the body.
+export const cleanCandles = (
+    candles: Candle[],
+    options: { maxDeviation?: number; confirmations?: number; holidays?: string[] } = {}
+): { candles: Candle[]; report: DataQualityReport } => {
+    const maxDeviation = options.maxDeviation ?? SPIKE_MAX_DEVIATION;
+    const confirmations = options.confirmations ?? SPIKE_CONFIRMATIONS;
+
+    const byTimestamp = new Map<number, Candle>();
+    candles.forEach(c => byTimestamp.set(c.timestamp, c));
+    const duplicates = candles.length - byTimestamp.size;
+    const sorted = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+    let spikes = 0;
+    let recent: number[] = [];
+    let held: Candle[] = [];
+    const cleaned: Candle[] = [];
+    // A wick is a spike when it is an outlier against every reference given
+    const accept = (c: Candle, references: number[]) => {
+        const spiking = (price: number) => references.every(r => deviation(price, r) > maxDeviation);
+        const high = spiking(c.high) ? Math.max(c.open, c.close) : c.high;
+        const low = spiking(c.low) ? Math.min(c.open, c.close) : c.low;
+        if (high !== c.high || low !== c.low) spikes++;
+        cleaned.push(high !== c.high || low !== c.low ? { ...c, high, low } : c);
+        recent = [...recent, c.close].slice(-REFERENCE_CANDLES);
+    };
+
+    sorted.forEach(c => {
+        if (recent.length === 0) {
+            cleaned.push(c);
+            recent = [c.close];
+            return;
+        }
+        const reference = median(recent);
+        if (deviation(c.open, reference) <= maxDeviation && deviation(c.close, reference) <= maxDeviation) {
+            spikes += held.length;
+            held = [];
+            accept(c, [reference]);
+            return;
+        }
+        held = [...held, c];
+        if (held.length > confirmations) {
+            spikes++;
+            held = held.slice(1);
+        }
+        const closes = held.map(h => h.close);
+        if (confirmsMove(closes, confirmations, maxDeviation)) {
+            // The new level becomes the reference; wicks may span the jump
+            const level = median(closes);
+            recent = [];
+            held.forEach(h => accept(h, [reference, level]));
+            held = [];
+        }
+    });
+    spikes += held.length;
+
+    const gaps = findGaps(cleaned, options.holidays);
+    return {
+        candles: cleaned,
+        report: { duplicates, spikes, gaps, missingMinutes: gaps.reduce((sum, g) => sum + g.minutes, 0) }
+    };
+};
+
+export const describeDataQuality = (report: DataQualityReport): string =>
+    `${report.duplicates} duplicate(s), ${report.spikes} spike(s), ${report.missingMinutes} missing minute(s) in ${report.gaps.length} gap(s)`;
@@ -0,0 +1,73 @@
+import { Candle, LSTMFeature } from '../types';
+import { FeatureScaler, applyScaler, extractFeatureRows, fitScaler } from './lstmFeatures';
+
+// --- DIRECTION CLASSIFIER ---
+// Logistic regression predicting P(next candle closes higher) for one
+// timeframe, i.e. P(up at expiry) of a signal on that timeframe. Inputs are the
+// LSTM feature columns (utils/lstmFeatures.ts) of the last `lags` candles.
+// Plain TypeScript: it refits in milliseconds, so every timeframe gets its own
+// model whenever the history is (re)loaded or the LSTM is retrained.
+
+export const DIRECTION_FEATURES: LSTMFeature[] = ['returns', 'rsi', 'macdHist', 'atrRange', 'bbPercentB', 'timeOfDay'];
+const LAGS = 3;
+const ITERATIONS = 300;
+const LEARNING_RATE = 0.1;
+const L2 = 0.01;
+
+export interface DirectionClassifier {
+    timeframe: string;
+    features: LSTMFeature[];
+    lags: number;
+    scaler: FeatureScaler;
+    weights: number[];
+    bias: number;
+    samples: number; // Training rows
+}
+
+const sigmoid = (z: number) => 1 / (1 + Math.exp(-z));
+
+// Row i = scaled features of candles i-lags+1..i, newest last
+const toLaggedRows = (rows: number[][], lags: number): number[][] =>
+    rows.slice(lags - 1).map((_, i) => rows.slice(i, i + lags).flat());
+
+export const trainDirectionClassifier = (candles: Candle[], timeframe: string, minSamples: number): DirectionClassifier | null => {
+    // The first candle has no return, the last one no outcome yet
+    const usable = candles.filter(c => c.rsi !== undefined && c.macd && c.bollinger && c.atr !== undefined);
+    const raw = extractFeatureRows(usable, DIRECTION_FEATURES).slice(1);
+    if (raw.length - LAGS < minSamples) return null;
+
+    const scaler = fitScaler(raw);
+    const x = toLaggedRows(applyScaler(raw, scaler), LAGS).slice(0, -1);
+    const y = x.map((_, i) => (usable[i + LAGS + 1].close > usable[i + LAGS].close ? 1 : 0));
+    const n = x.length;
+    const width = x[0].length;
+
+    // Full-batch gradient descent with L2 on the weights
+    const weights = new Array(width).fill(0);
+    let bias = 0;
+    for (let iter = 0; iter < ITERATIONS; iter++) {
+        const grad = new Array(width).fill(0);
+        let gradBias = 0;
+        for (let i = 0; i < n; i++) {
+            const row = x[i];
+            let z = bias;
+            for (let j = 0; j < width; j++) z += weights[j] * row[j];
+            const error = sigmoid(z) - y[i];
+            for (let j = 0; j < width; j++) grad[j] += error * row[j];
+            gradBias += error;
+        }
+        for (let j = 0; j < width; j++) weights[j] -= LEARNING_RATE * (grad[j] / n + L2 * weights[j]);
+        bias -= LEARNING_RATE * gradBias / n;
+    }
+
+    return { timeframe, features: DIRECTION_FEATURES, lags: LAGS, scaler, weights, bias, samples: n };
+};
+
+// P(close of the candle after the last one > its close), or null without enough history
+export const predictDirection = (classifier: DirectionClassifier, candles: Candle[]): number | null => {
+    const { lags, features, scaler, weights, bias } = classifier;
+    if (candles.length < lags + 1) return null;
+    const rows = applyScaler(extractFeatureRows(candles.slice(-(lags + 1)), features), scaler).slice(1);
+    const row = rows.flat();
+    return sigmoid(row.reduce((z, v, j) => z + v * weights[j], bias));
+};
@@ -0,0 +1,76 @@
+import { Candle, EnsembleMemberId, Signal } from '../types';
+import { DirectionClassifier, predictDirection } from './directionClassifier';
+import type { LSTMModelData, SerializedLSTMModel } from './simulation';
+
+// --- MODEL ENSEMBLE ---
+// Learners trained on the same 1m buffer as the LSTM and stored with it
+// (LSTMModelData.members). Every learner predicts the log return of the next
+// candle; analyzeMarket turns the weighted mean (StrategyConfig.ensemble) into
+// the AI price prediction and records each model's direction on the signal,
+// so their accuracy can be compared on settled signals. The naive baseline
+// is what the others have to beat.
+
+export interface EnsembleLearner {
+    id: EnsembleMemberId;
+    name: string;
+    description: string;
+}
+
+export const ENSEMBLE_LEARNERS: EnsembleLearner[] = [
+    { id: 'lstm', name: 'LSTM', description: 'Stacked LSTM on the feature window (primary model)' },
+    { id: 'gru', name: 'GRU', description: 'Same features and sizes as the LSTM, GRU cells' },
+    { id: 'cnn', name: '1D-CNN', description: 'Convolutions over the feature window' },
+    { id: 'logistic', name: 'Logistic', description: 'Logistic regression on the last 3 indicator rows' },
+    { id: 'naive', name: 'Naive', description: 'Baseline: the last 1m move repeats' }
+];
+
+export const getLearnerName = (id: string): string => ENSEMBLE_LEARNERS.find(l => l.id === id)?.name || id;
+
+export type EnsembleMember =
+    | { id: 'gru' | 'cnn'; kind: 'SEQUENCE'; model: LSTMModelData }
+    | { id: 'logistic'; kind: 'LOGISTIC'; classifier: DirectionClassifier; meanAbsReturn: number }
+    | { id: 'naive'; kind: 'NAIVE' };
+
+// Plain-data form (postMessage / model store); sequence weights are serialized separately
+export type SerializedEnsembleMember =
+    | { id: 'gru' | 'cnn'; kind: 'SEQUENCE'; model: SerializedLSTMModel }
+    | Exclude<EnsembleMember, { kind: 'SEQUENCE' }>;
+
+export interface EnsemblePrediction {
+    price: number | null; // Combined next close, null when no weighted model could predict
+    votes: NonNullable<Signal['modelVotes']>;
+}
+
+// Predicted next-candle log return of a non-sequence member
+export const predictMemberReturn = (member: Exclude<EnsembleMember, { kind: 'SEQUENCE' }>, candles: Candle[]): number | null => {
+    if (member.kind === 'NAIVE') {
+        const [prev, last] = candles.slice(-2);
+        return prev && last && prev.close > 0 ? Math.log(last.close / prev.close) : null;
+    }
+    const pUp = predictDirection(member.classifier, candles);
+    // Expected move ~ edge x typical move size
+    return pUp === null ? null : (2 * pUp - 1) * member.meanAbsReturn;
+};
+
+// Weighted mean of the members' returns -> next close, plus each member's vote
+export const combinePredictions = (
+    close: number,
+    returns: Partial<Record<EnsembleMemberId, number | null>>,
+    weights: Record<EnsembleMemberId, number>
+): EnsemblePrediction => {
+    const votes: EnsemblePrediction['votes'] = {};
+    let sum = 0;
+    let totalWeight = 0;
+    (Object.keys(returns) as EnsembleMemberId[]).forEach(id => {
+        const r = returns[id];
+        if (r === null || r === undefined) return;
+        if (r !== 0) votes[id] = r > 0 ? 'UP' : 'DOWN';
+        const weight = weights[id] ?? 0;
+        sum += weight * r;
+        totalWeight += weight;
+    });
+    if (totalWeight <= 0) return { price: null, votes };
+    const combined = sum / totalWeight;
+    if (combined !== 0) votes.ensemble = combined > 0 ? 'UP' : 'DOWN';
+    return { price: close * Math.exp(combined), votes };
+};
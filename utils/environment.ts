@@ -0,0 +1,59 @@
+// --- CLOCK & RANDOM SOURCE ---
+// Everything in the simulation that depends on wall-clock time or randomness
+// goes through a SimEnvironment, so runs can be replayed deterministically.
+
+export interface SimEnvironment {
+    now(): number; // Unix ms
+    random(): number; // Uniform in [0, 1)
+}
+
+export const systemEnvironment: SimEnvironment = {
+    now: () => Date.now(),
+    random: () => Math.random()
+};
+
+// Mulberry32: tiny, fast 32-bit PRNG. Same seed => same sequence on every engine.
+export const createSeededRandom = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const createSeededEnvironment = (seed: number, now: () => number = () => Date.now()): SimEnvironment => {
+    const random = createSeededRandom(seed);
+    return { now, random };
+};
+
+// Clock that only moves when told to. Used when replaying candles, where
+// "now" is the close time of the candle being processed.
+export interface ReplayEnvironment extends SimEnvironment {
+    setTime(timestamp: number): void;
+}
+
+export const createReplayEnvironment = (seed?: number, startTime: number = 0): ReplayEnvironment => {
+    let time = startTime;
+    const random = seed !== undefined ? createSeededRandom(seed) : Math.random;
+    return {
+        now: () => time,
+        random,
+        setTime: (timestamp: number) => { time = timestamp; }
+    };
+};
+
+// Reads ?seed=<int> from the page URL. Returns undefined when absent/invalid.
+export const getSeedFromUrl = (): number | undefined => {
+    if (typeof window === 'undefined') return undefined;
+    const raw = new URLSearchParams(window.location.search).get('seed');
+    if (raw === null) return undefined;
+    const seed = parseInt(raw, 10);
+    return Number.isFinite(seed) ? seed : undefined;
+};
+
+export const createRandomId = (env: SimEnvironment, length: number = 5): string => {
+    return env.random().toString(36).substr(2, length);
+};
@@ -0,0 +1,258 @@
+import { Band, Candle, IndicatorParams } from '../types';
+import { calcEMA, calcRMA } from './indicatorMath';
+
+// --- EXTENDED INDICATORS ---
+// Stochastic, Stochastic RSI, CCI, Williams %R, Ichimoku, Parabolic SAR,
+// Keltner / Donchian channels, VWAP, SuperTrend and floor pivots.
+// Like IndicatorEngine, push() commits a closed candle and peek() enriches a
+// forming one without touching state. Window-based indicators look at the
+// last N candles only, so each step is O(longest period), independent of
+// the series length. Expects candles already enriched with `rsi` and `atr`
+// (Stoch RSI and Keltner build on them); calculateIndicators runs this after
+// the core set, so batch and streaming share the exact same code path.
+
+type Trend = 'UP' | 'DOWN';
+
+interface DayRange { key: number; high: number; low: number; close: number }
+
+interface ExtendedState {
+    count: number;
+    recent: Candle[]; // Previous candles, newest last, capped to the longest window
+    rawK: number[]; // Stochastic raw %K, for the slow %K
+    slowK: number[]; // Slow %K, for %D
+    rsis: number[];
+    rawStochRsi: number[];
+    stochRsiK: number[];
+    spans: { a?: number; b?: number }[]; // Undisplaced Ichimoku spans, newest last
+    psar?: { trend: Trend; sar: number; ep: number; af: number };
+    keltnerEma?: number;
+    vwap?: { day: number; pv: number; volume: number };
+    superTrend?: { tr?: number; upper: number; lower: number; direction: Trend };
+    day?: DayRange;
+    prevDay?: DayRange;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps the last `n` items of `list` + `value` (new array, `list` is untouched)
+const pushCapped = <T>(list: T[], value: T, n: number): T[] => {
+    const next = list.length >= n ? list.slice(list.length - n + 1) : list.slice();
+    next.push(value);
+    return next;
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const highLow = (window: Candle[]) => {
+    let high = -Infinity;
+    let low = Infinity;
+    window.forEach(c => {
+        if (c.high > high) high = c.high;
+        if (c.low < low) low = c.low;
+    });
+    return { high, low };
+};
+
+const midpoint = (window: Candle[] | null) => {
+    if (!window) return undefined;
+    const { high, low } = highLow(window);
+    return (high + low) / 2;
+};
+
+export class ExtendedIndicatorEngine {
+    private state: ExtendedState = { count: 0, recent: [], rawK: [], slowK: [], rsis: [], rawStochRsi: [], stochRsiK: [], spans: [] };
+    private windowSize: number;
+
+    constructor(private params: IndicatorParams) {
+        this.windowSize = Math.max(
+            params.stochK, params.cciPeriod, params.williamsPeriod, params.ichimokuTenkan,
+            params.ichimokuKijun, params.ichimokuSenkouB, params.donchianPeriod, 2
+        );
+    }
+
+    push(candle: Candle): Candle {
+        const { enriched, next } = this.step(candle);
+        this.state = next;
+        return enriched;
+    }
+
+    peek(candle: Candle): Candle {
+        return this.step(candle).enriched;
+    }
+
+    private step(candle: Candle): { enriched: Candle; next: ExtendedState } {
+        const p = this.params;
+        const s = this.state;
+        const prev = s.recent[s.recent.length - 1];
+        const next: ExtendedState = { ...s, count: s.count + 1, recent: pushCapped(s.recent, candle, this.windowSize - 1) };
+
+        // Last `n` candles including this one, or null while warming up
+        const lastN = (n: number): Candle[] | null => {
+            if (s.recent.length + 1 < n) return null;
+            return [...s.recent.slice(s.recent.length - n + 1), candle];
+        };
+
+        // 1. Stochastic (slow): raw %K -> SMA(stochSmooth) -> %D = SMA(stochD)
+        let stoch: Candle['stoch'] = undefined;
+        const kWindow = lastN(p.stochK);
+        if (kWindow) {
+            const { high, low } = highLow(kWindow);
+            const rawK = high > low ? 100 * (candle.close - low) / (high - low) : 50;
+            next.rawK = pushCapped(s.rawK, rawK, p.stochSmooth);
+            if (next.rawK.length === p.stochSmooth) {
+                const k = mean(next.rawK);
+                next.slowK = pushCapped(s.slowK, k, p.stochD);
+                stoch = { k, d: next.slowK.length === p.stochD ? mean(next.slowK) : undefined };
+            }
+        }
+
+        // 2. Stochastic RSI, same smoothing as the stochastic
+        let stochRsi: Candle['stochRsi'] = undefined;
+        if (candle.rsi !== undefined) {
+            next.rsis = pushCapped(s.rsis, candle.rsi, p.stochRsiPeriod);
+            if (next.rsis.length === p.stochRsiPeriod) {
+                const high = Math.max(...next.rsis);
+                const low = Math.min(...next.rsis);
+                const raw = high > low ? 100 * (candle.rsi - low) / (high - low) : 50;
+                next.rawStochRsi = pushCapped(s.rawStochRsi, raw, p.stochSmooth);
+                if (next.rawStochRsi.length === p.stochSmooth) {
+                    const k = mean(next.rawStochRsi);
+                    next.stochRsiK = pushCapped(s.stochRsiK, k, p.stochD);
+                    stochRsi = { k, d: next.stochRsiK.length === p.stochD ? mean(next.stochRsiK) : undefined };
+                }
+            }
+        }
+
+        // 3. CCI on the typical price
+        let cci: number | undefined = undefined;
+        const cciWindow = lastN(p.cciPeriod);
+        if (cciWindow) {
+            const tps = cciWindow.map(c => (c.high + c.low + c.close) / 3);
+            const sma = mean(tps);
+            const meanDev = mean(tps.map(tp => Math.abs(tp - sma)));
+            cci = meanDev > 0 ? (tps[tps.length - 1] - sma) / (0.015 * meanDev) : 0;
+        }
+
+        // 4. Williams %R
+        let williamsR: number | undefined = undefined;
+        const wWindow = lastN(p.williamsPeriod);
+        if (wWindow) {
+            const { high, low } = highLow(wWindow);
+            williamsR = high > low ? -100 * (high - candle.close) / (high - low) : -50;
+        }
+
+        // 5. Ichimoku: spans computed now are shown `kijun` candles later
+        const tenkan = midpoint(lastN(p.ichimokuTenkan));
+        const kijun = midpoint(lastN(p.ichimokuKijun));
+        const spanA = tenkan !== undefined && kijun !== undefined ? (tenkan + kijun) / 2 : undefined;
+        next.spans = pushCapped(s.spans, { a: spanA, b: midpoint(lastN(p.ichimokuSenkouB)) }, p.ichimokuKijun + 1);
+        const displaced = next.spans.length > p.ichimokuKijun ? next.spans[0] : undefined;
+        const ichimoku = { tenkan, kijun, senkouA: displaced?.a, senkouB: displaced?.b };
+
+        // 6. Parabolic SAR (Wilder)
+        let psar: Candle['psar'] = undefined;
+        if (prev) {
+            if (!s.psar) {
+                const trend: Trend = candle.close >= prev.close ? 'UP' : 'DOWN';
+                next.psar = trend === 'UP'
+                    ? { trend, sar: prev.low, ep: candle.high, af: p.psarStep }
+                    : { trend, sar: prev.high, ep: candle.low, af: p.psarStep };
+            } else {
+                let { trend, sar, ep, af } = s.psar;
+                sar = sar + af * (ep - sar);
+                const prev2 = s.recent[s.recent.length - 2] || prev;
+                if (trend === 'UP') {
+                    sar = Math.min(sar, prev.low, prev2.low);
+                    if (candle.low < sar) {
+                        trend = 'DOWN';
+                        sar = ep;
+                        ep = candle.low;
+                        af = p.psarStep;
+                    } else if (candle.high > ep) {
+                        ep = candle.high;
+                        af = Math.min(af + p.psarStep, p.psarMax);
+                    }
+                } else {
+                    sar = Math.max(sar, prev.high, prev2.high);
+                    if (candle.high > sar) {
+                        trend = 'UP';
+                        sar = ep;
+                        ep = candle.high;
+                        af = p.psarStep;
+                    } else if (candle.low < ep) {
+                        ep = candle.low;
+                        af = Math.min(af + p.psarStep, p.psarMax);
+                    }
+                }
+                next.psar = { trend, sar, ep, af };
+            }
+            psar = { value: next.psar.sar, trend: next.psar.trend };
+        }
+
+        // 7. Keltner (EMA +- mult x core ATR) & Donchian channels
+        next.keltnerEma = calcEMA(candle.close, s.keltnerEma, p.keltnerPeriod);
+        let keltner: Band | undefined = undefined;
+        if (s.count >= p.keltnerPeriod && candle.atr !== undefined) {
+            const middle = next.keltnerEma;
+            keltner = { middle, upper: middle + p.keltnerMult * candle.atr, lower: middle - p.keltnerMult * candle.atr };
+        }
+        let donchian: Band | undefined = undefined;
+        const dWindow = lastN(p.donchianPeriod);
+        if (dWindow) {
+            const { high, low } = highLow(dWindow);
+            donchian = { upper: high, lower: low, middle: (high + low) / 2 };
+        }
+
+        // 8. VWAP (tick volume; candles without volume weigh 1)
+        const day = Math.floor(candle.timestamp / DAY_MS);
+        const typical = (candle.high + candle.low + candle.close) / 3;
+        const weight = candle.volume > 0 ? candle.volume : 1;
+        const sameDay = s.vwap && s.vwap.day === day;
+        next.vwap = {
+            day,
+            pv: (sameDay ? s.vwap!.pv : 0) + typical * weight,
+            volume: (sameDay ? s.vwap!.volume : 0) + weight
+        };
+        const vwap = next.vwap.pv / next.vwap.volume;
+
+        // 9. SuperTrend (own ATR over superTrendPeriod)
+        let superTrend: Candle['superTrend'] = undefined;
+        if (prev) {
+            const tr = Math.max(candle.high - candle.low, Math.abs(candle.high - prev.close), Math.abs(candle.low - prev.close));
+            const atr = calcRMA(tr, s.superTrend?.tr, p.superTrendPeriod);
+            const hl2 = (candle.high + candle.low) / 2;
+            let upper = hl2 + p.superTrendMult * atr;
+            let lower = hl2 - p.superTrendMult * atr;
+            let direction: Trend = candle.close >= hl2 ? 'UP' : 'DOWN';
+            const st = s.superTrend;
+            if (st) {
+                if (!(upper < st.upper || prev.close > st.upper)) upper = st.upper;
+                if (!(lower > st.lower || prev.close < st.lower)) lower = st.lower;
+                direction = st.direction === 'UP'
+                    ? (candle.close < lower ? 'DOWN' : 'UP')
+                    : (candle.close > upper ? 'UP' : 'DOWN');
+            }
+            next.superTrend = { tr: atr, upper, lower, direction };
+            if (s.count >= p.superTrendPeriod) superTrend = { value: direction === 'UP' ? lower : upper, direction };
+        }
+
+        // 10. Floor pivots from the previous UTC day
+        if (!s.day || s.day.key !== day) {
+            next.prevDay = s.day;
+            next.day = { key: day, high: candle.high, low: candle.low, close: candle.close };
+        } else {
+            next.day = { key: day, high: Math.max(s.day.high, candle.high), low: Math.min(s.day.low, candle.low), close: candle.close };
+        }
+        let pivots: Candle['pivots'] = undefined;
+        if (next.prevDay) {
+            const { high, low, close } = next.prevDay;
+            const pivot = (high + low + close) / 3;
+            pivots = { pivot, r1: 2 * pivot - low, s1: 2 * pivot - high, r2: pivot + (high - low), s2: pivot - (high - low) };
+        }
+
+        return {
+            enriched: { ...candle, stoch, stochRsi, cci, williamsR, ichimoku, psar, keltner, donchian, vwap, superTrend, pivots },
+            next
+        };
+    }
+}
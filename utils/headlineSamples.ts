@@ -0,0 +1,123 @@
+import { NewsItem } from '../types';
+
+// --- LABELLED FX HEADLINES ---
+// Reference sets for utils/headlineSentiment.ts. Sentiment is for EUR/USD:
+// USD-bullish news (hot US data, hawkish Fed, risk-off) is NEGATIVE,
+// EUR-bullish news (strong euro-area data, hawkish ECB) and USD-bearish news
+// (cooling US inflation, weak US jobs, risk-on) are POSITIVE. Rate holds are
+// NEUTRAL.
+
+export interface LabelledHeadline {
+    headline: string;
+    sentiment: NewsItem['sentiment'];
+    impact: NewsItem['impact'];
+}
+
+// Headlines the lexicon was tuned on, including the simulated news templates
+export const LABELLED_HEADLINES: LabelledHeadline[] = [
+    // US inflation
+    { headline: 'US CPI inflation data shows cooling trend', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'US consumer prices rise more than expected in March', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Core PCE inflation eases to lowest level in three years', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'Hotter-than-expected US inflation lifts Treasury yields', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'US producer prices unexpectedly fall in June', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    // US labour market
+    { headline: 'US nonfarm payrolls beat forecasts as hiring accelerates', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Non-farm payrolls miss expectations, unemployment rate climbs to 4.1%', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'US jobless claims higher than expected', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'Initial jobless claims fall to eight-month low', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'US wage growth slows sharply in latest jobs report', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'U.S. economy adds 300,000 jobs', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    // Fed
+    { headline: 'Federal Reserve hints at interest rate hold', sentiment: 'NEUTRAL', impact: 'HIGH' },
+    { headline: 'Fed raises rates by 25 basis points, signals more hikes ahead', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Powell strikes hawkish tone at Jackson Hole', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'FOMC minutes show officials leaning toward rate cuts', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'Fed officials signal dovish pivot as economy slows', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'Fed cuts interest rates for the first time since 2020', sentiment: 'POSITIVE', impact: 'HIGH' },
+    // US activity
+    { headline: 'US GDP growth beats expectations in second quarter', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Retail sales data disappoints analysts', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'ISM manufacturing index contracts for fifth month', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'US services PMI surges to one-year high', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'US durable goods orders slump in May', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    // Dollar / pair
+    { headline: 'Dollar slips as traders pare Fed bets', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'Greenback strengthens on safe-haven demand', sentiment: 'NEGATIVE', impact: 'LOW' },
+    { headline: 'USD weakens', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'EUR/USD climbs above 1.10 for the first time since August', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'Euro slides to two-month low against the dollar', sentiment: 'NEGATIVE', impact: 'LOW' },
+    // Euro area
+    { headline: 'German manufacturing PMI beats expectations', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'ECB President Lagarde warns on eurozone growth', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'ECB raises rates to record high to fight inflation', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'ECB cuts deposit rate as eurozone inflation cools', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Eurozone inflation unexpectedly accelerates in May', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'German Ifo business climate falls more than forecast', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'Eurozone GDP contracts, raising recession fears', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'ZEW economic sentiment improves sharply in Germany', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'ECB policymakers push back against early rate cuts', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'French industrial production drops in April', sentiment: 'NEGATIVE', impact: 'LOW' },
+    { headline: 'Eurozone unemployment falls to record low', sentiment: 'POSITIVE', impact: 'HIGH' },
+    // Risk sentiment
+    { headline: 'Geopolitical tensions easing in key regions', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'Tech sector rally boosting market confidence', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'Stocks tumble as Middle East conflict escalates', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'Investors flee to safe havens amid banking crisis fears', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'Global equities gain as trade deal optimism builds', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'US stocks fall', sentiment: 'NEGATIVE', impact: 'LOW' },
+    // No clear EUR/USD direction
+    { headline: 'Market consolidation ahead of FOMC minutes', sentiment: 'NEUTRAL', impact: 'HIGH' },
+    { headline: 'Crude oil inventory surplus reported', sentiment: 'NEUTRAL', impact: 'LOW' },
+    { headline: 'Oil prices rise', sentiment: 'NEUTRAL', impact: 'LOW' },
+    { headline: 'Traders await US CPI release on Wednesday', sentiment: 'NEUTRAL', impact: 'HIGH' },
+    { headline: 'ECB to publish account of June policy meeting', sentiment: 'NEUTRAL', impact: 'MEDIUM' },
+    { headline: 'Japanese yen steady ahead of BoJ decision', sentiment: 'NEUTRAL', impact: 'LOW' },
+    { headline: 'Gold holds near record as markets turn quiet', sentiment: 'NEUTRAL', impact: 'LOW' }
+];
+
+// Held out: not used to tune the lexicon and sharing no headline with the
+// set above or the simulated news templates. Accuracy is reported on these.
+export const HELD_OUT_HEADLINES: LabelledHeadline[] = [
+    // US inflation
+    { headline: 'US inflation slows for a third straight month', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'American consumer prices jump on higher rents', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'PCE price index comes in hotter than forecast', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'U.S. producer prices climb at fastest pace this year', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    // US labour market
+    { headline: 'Employers in the U.S. added 250,000 jobs last month', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Payrolls growth weakens sharply in August', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'US unemployment rate falls to 3.7%', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Weekly jobless claims jump to highest since 2021', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    // Fed
+    { headline: 'Fed holds rates steady, signals patience', sentiment: 'NEUTRAL', impact: 'HIGH' },
+    { headline: 'Powell says further tightening may be needed', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'Fed lowers rates by half a point in surprise move', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'Fed officials rule out rate cuts this year', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    // US activity
+    { headline: 'US retail sales surge in December', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'US economy contracts in first quarter', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'ISM services index drops below 50', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    // Dollar / pair
+    { headline: 'Greenback loses ground after soft data', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'Dollar rallies to six-month high', sentiment: 'NEGATIVE', impact: 'LOW' },
+    { headline: 'EUR/USD falls below 1.05', sentiment: 'NEGATIVE', impact: 'LOW' },
+    { headline: 'Euro gains against the greenback', sentiment: 'POSITIVE', impact: 'LOW' },
+    // Euro area
+    { headline: 'Eurozone inflation cools more than expected', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'ECB hikes rates again to tame prices', sentiment: 'POSITIVE', impact: 'HIGH' },
+    { headline: 'German GDP shrinks in second quarter', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Eurozone PMI rises to nine-month high', sentiment: 'POSITIVE', impact: 'MEDIUM' },
+    { headline: 'ECB signals rate cut in June', sentiment: 'NEGATIVE', impact: 'HIGH' },
+    { headline: 'Italian bond yields climb as budget worries grow', sentiment: 'NEGATIVE', impact: 'LOW' },
+    // Risk sentiment
+    { headline: 'Nasdaq slumps as tech selloff deepens', sentiment: 'NEGATIVE', impact: 'LOW' },
+    { headline: 'Wall Street rallies to record close', sentiment: 'POSITIVE', impact: 'LOW' },
+    { headline: 'European shares slide on trade war fears', sentiment: 'NEGATIVE', impact: 'MEDIUM' },
+    { headline: 'Global stocks rise as ceasefire holds', sentiment: 'POSITIVE', impact: 'LOW' },
+    // No clear EUR/USD direction
+    { headline: 'Brent crude slides on demand worries', sentiment: 'NEUTRAL', impact: 'LOW' },
+    { headline: 'Gold climbs to record high', sentiment: 'NEUTRAL', impact: 'LOW' },
+    { headline: 'Investors await Fed decision next week', sentiment: 'NEUTRAL', impact: 'MEDIUM' },
+    { headline: 'Bank of England leaves rates unchanged', sentiment: 'NEUTRAL', impact: 'MEDIUM' }
+];
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { HELD_OUT_HEADLINES, LABELLED_HEADLINES } from './headlineSamples';
+import { NEWS_TEMPLATES } from './newsData';
+import { NewsItem } from '../types';
+import { classifyHeadline, evaluateHeadlineClassifier } from './headlineSentiment';
+
+const MIN_ACCURACY = 0.9;
+
+// Rate decisions by verb: a cut is bearish for the currency, a hike bullish, a hold neither
+const RATE_DECISIONS: [string, NewsItem['sentiment']][] = [
+    ['Fed cuts rates', 'POSITIVE'],
+    ['Fed lowers rates', 'POSITIVE'],
+    ['Fed lowered rates by half a point', 'POSITIVE'],
+    ['Fed raises rates', 'NEGATIVE'],
+    ['Fed hikes rates', 'NEGATIVE'],
+    ['Fed holds rates', 'NEUTRAL'],
+    ['ECB cuts rates', 'NEGATIVE'],
+    ['ECB lowers rates', 'NEGATIVE'],
+    ['ECB raises rates', 'POSITIVE'],
+    ['ECB hikes rates', 'POSITIVE'],
+    ['ECB holds rates', 'NEUTRAL']
+];
+
+describe('classifyHeadline', () => {
+    it('reads cooling US inflation as EUR/USD-bullish', () => {
+        expect(classifyHeadline('US CPI cooling').sentiment).toBe('POSITIVE');
+    });
+
+    it.each(RATE_DECISIONS)('classifies "%s" as %s', (headline, sentiment) => {
+        expect(classifyHeadline(headline)).toEqual({ sentiment, impact: 'HIGH' });
+    });
+
+    it('classifies every headline it was tuned on as labelled', () => {
+        expect(evaluateHeadlineClassifier(classifyHeadline, LABELLED_HEADLINES).misses).toEqual([]);
+    });
+});
+
+describe('evaluateHeadlineClassifier', () => {
+    it('holds out headlines shared with neither the tuning set nor the templates', () => {
+        const seen = new Set([...NEWS_TEMPLATES, ...LABELLED_HEADLINES.map(h => h.headline)].map(h => h.toLowerCase()));
+        expect(HELD_OUT_HEADLINES.filter(h => seen.has(h.headline.toLowerCase()))).toEqual([]);
+    });
+
+    it('classifies the held-out headlines above the accuracy threshold', () => {
+        const evaluation = evaluateHeadlineClassifier();
+        expect(evaluation.samples).toBe(HELD_OUT_HEADLINES.length);
+        expect(evaluation.sentimentAccuracy).toBeGreaterThanOrEqual(MIN_ACCURACY);
+        expect(evaluation.impactAccuracy).toBeGreaterThanOrEqual(MIN_ACCURACY);
+    });
+});
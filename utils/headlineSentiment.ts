@@ -0,0 +1,179 @@
+import { NewsItem } from '../types';
+import { HELD_OUT_HEADLINES, LabelledHeadline } from './headlineSamples';
+
+// --- HEADLINE SENTIMENT ---
+// Lexicon scorer turning a raw headline into EUR/USD sentiment and impact.
+// Each clause is read as <currency> <variable> <direction>: the currency is
+// the first USD / EUR entity named (or the EUR/USD pair), the direction is the
+// balance of up / down words, inverted for unemployment-type variables and
+// after a negation. A rate hold has no direction of its own. Anything that's up for a currency is bullish for it (hot
+// inflation and hawkish policy included), so "US CPI cooling" is USD-bearish,
+// i.e. EUR/USD-bullish. Equities are a subject of their own, scored as risk
+// appetite whatever their country ("US stocks fall" is risk-off, so
+// USD-bullish), as are clauses without a currency: risk-on weakens the
+// dollar, risk-off strengthens it. Commodity moves are not mapped to a
+// currency.
+
+// Sentiment / impact of a headline (feeds carry no sentiment of their own)
+export type HeadlineClassifier = (headline: string) => Pick<NewsItem, 'sentiment' | 'impact'>;
+
+export interface HeadlineScore extends Pick<NewsItem, 'sentiment' | 'impact'> {
+    score: number; // > 0 EUR/USD-bullish, < 0 bearish
+}
+
+const words = (list: string) => new RegExp(`\\b(?:${list})\\b`, 'g');
+
+const PAIR = /\beur ?\/? ?usd\b/;
+const USD_ENTITIES = words(
+    'usd|us|usa|united states|america|american|fed|federal reserve|fomc|powell|treasury|treasuries|dollar|greenback|buck|dxy|'
+    + 'nfp|nonfarm|non farm|payrolls|ism|pce'
+);
+const EUR_ENTITIES = words(
+    'ecb|eurozone|euro area|euro zone|euro bloc|single currency|euro|eur|lagarde|bundesbank|germany|german|france|french|'
+    + 'italy|italian|spain|spanish|bund|bunds|eu|european|ifo|zew|hicp'
+);
+// Risk assets; a country in front ("US stocks", "European shares") doesn't make them a currency
+const EQUITIES = words('stocks|equities|shares|wall street|s p 500|nasdaq|dow|dax|stoxx|cac|ftse|nikkei|stock markets?|risk assets');
+const EQUITY_COUNTRY = /\b(?:us|usa|american|united states|eurozone|euro area|euro zone|european|germany|german|france|french|italy|italian|spain|spanish|eu|global|world|asian|japanese|chinese|uk|british) (?=(?:stocks|equities|shares|stock markets?)\b)/g;
+const COMMODITIES = words('oil|crude|brent|wti|gold|silver|copper|natural gas|commodit\\w*|metals?|wheat|opec');
+
+// Data releases without a country are taken as US data
+const MACRO = words('cpi|inflation|prices|pce|ppi|gdp|payrolls|nonfarm|non farm|jobless|unemployment|retail sales|pmi|ism|durable goods|housing|wages?|jobs|industrial production|economy');
+// Up is bad for the currency: unemployment, and euro-area periphery yields
+// or spreads (widening against Bunds is stress for the euro)
+const INVERSE = words('jobless|unemployment|claims|layoffs|spreads?');
+const PERIPHERY_YIELDS = /\b(?:italian|italy|spanish|spain|greek|greece|portuguese|portugal|periphery|peripheral) (?:government )?(?:bond )?yields?\b|\bbtps?\b/;
+
+const UP = words(
+    'rise|rises|rising|rose|jumps?|jumped|surges?|surged|climbs?|climbed|higher|high|hot|hotter|accelerat\\w*|increase[sd]?|above|beats?|'
+    + 'strong|stronger|strengthen\\w*|robust|soar\\w*|gains?|gained|rall(?:y|ies|ied)|upbeat|improv\\w*|expand\\w*|boost\\w*|tops|topped|'
+    + 'exceed\\w*|lifts?|lifted|rais(?:e|es|ed|ing)|hawkish|hikes?|hiked|tighten\\w*|escalat\\w*|deepen\\w*|builds?|adds?|added'
+);
+const DOWN = words(
+    'falls?|falling|fell|drops?|dropped|slump\\w*|declin\\w*|lower|low|lowest|cool\\w*|eas(?:e|es|ed|ing)|slow\\w*|weak\\w*|miss(?:es|ed)?|'
+    + 'below|disappoint\\w*|contract(?:s|ed|ion)?|shrink\\w*|plung\\w*|tumbl\\w*|slides?|slid|slips?|slipped|dovish|cuts?|warn\\w*|'
+    + 'recession|downgrad\\w*|pause[sd]?|pare[sd]?|sinks?|sank|retreat\\w*|soft\\w*|los(?:e|es|ing|t)|shed\\w*|lowers?|lowered|lowering'
+);
+const NEGATION = words('not|no|fails? to|failed to|push(?:es)? back against|rules? out|ruled out|reject\\w*');
+
+const RISK_ON = words('confidence|optimism|risk appetite|ceasefire|truce|deal|rally|rallies|risk on');
+const RISK_OFF = words('tensions?|conflict|war|fears?|worr(?:y|ies|ied)|crisis|sell ?off|turmoil|uncertainty|safe havens?|risk aversion|risk off|panic');
+
+const HIGH_IMPACT = words(
+    'cpi|consumer prices|inflation|pce|hicp|payrolls|nonfarm|non farm|nfp|gdp|unemployment|fomc|interest rates?|deposit rate|'
+    + 'rate (?:decision|hikes?|cuts?)|(?:rais(?:e|es|ed|ing)|hik(?:e|es|ed|ing)|cuts?|cutting|lower(?:s|ed|ing)?|holds?|held|holding) rates|wage growth|jobs report|[\\d,.]+k? jobs'
+);
+const MEDIUM_IMPACT = words(
+    'pmi|ism|retail sales|jobless|claims|ifo|zew|sentiment|business climate|trade balance|durable goods|housing|ppi|producer prices|'
+    + 'fed|federal reserve|ecb|powell|lagarde|bank of england|boe|rates unchanged|minutes|economy|'
+    + 'geopolitical|tensions?|conflict|war|crisis|banking'
+);
+
+// match / search ignore lastIndex, so the shared global patterns stay stateless
+const count = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+const has = (text: string, pattern: RegExp) => text.search(pattern) >= 0;
+
+// Index of the first match, Infinity without one
+const firstIndex = (text: string, pattern: RegExp) => {
+    const index = text.search(pattern);
+    return index >= 0 ? index : Infinity;
+};
+
+const normalise = (headline: string) =>
+    headline
+        .toLowerCase()
+        .replace(/\bu\.s\.(?:a\.)?|\bu\.s\b/g, 'us')
+        .replace(/-/g, ' ')
+        .replace(/[^a-z0-9%./,;: ]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+type Subject = 'USD' | 'EUR' | 'PAIR' | 'EQUITIES' | 'COMMODITY';
+
+// The first one named wins
+const findSubject = (clause: string): Subject | null => {
+    if (PAIR.test(clause)) return 'PAIR';
+    const candidates: [Subject, number][] = [
+        ['USD', firstIndex(clause, USD_ENTITIES)],
+        ['EUR', firstIndex(clause, EUR_ENTITIES)],
+        ['EQUITIES', firstIndex(clause, EQUITIES)],
+        ['COMMODITY', firstIndex(clause, COMMODITIES)]
+    ];
+    const [subject, index] = candidates.reduce((best, c) => (c[1] < best[1] ? c : best));
+    return index === Infinity ? null : subject;
+};
+
+// Risk appetite from risk-on / risk-off terms; falling risk-off terms ("tensions easing") are risk-on
+const scoreRiskTerms = (clause: string, direction: number): number => {
+    const risk = count(clause, RISK_ON) - count(clause, RISK_OFF);
+    return direction < 0 ? -risk : risk;
+};
+
+export const scoreHeadline = (headline: string): HeadlineScore => {
+    const text = normalise(headline).replace(EQUITY_COUNTRY, '');
+    const clauses = text.split(/,|;|:| as | while | after | amid | but /);
+
+    let score = 0;
+    let subject: Subject | null = null;
+    clauses.forEach(clause => {
+        // A clause without its own subject continues the previous currency
+        const carried = subject === 'USD' || subject === 'EUR' || subject === 'PAIR' ? subject : null;
+        subject = findSubject(clause) || carried || (has(clause, MACRO) ? 'USD' : null);
+        const negation = has(clause, NEGATION) ? -1 : 1;
+        const direction = count(clause, UP) - count(clause, DOWN);
+
+        if (subject === 'COMMODITY') return;
+        if (subject === 'EQUITIES') {
+            // Rising stocks are risk-on
+            score += direction * negation;
+        } else if (subject) {
+            const inverse = has(clause, INVERSE) || has(clause, PERIPHERY_YIELDS);
+            const bullish = direction * (inverse ? -1 : 1) * negation;
+            score += subject === 'USD' ? -bullish : bullish;
+        } else {
+            score += scoreRiskTerms(clause, direction) * negation;
+        }
+    });
+
+    return {
+        score,
+        sentiment: score > 0 ? 'POSITIVE' : score < 0 ? 'NEGATIVE' : 'NEUTRAL',
+        impact: has(text, HIGH_IMPACT) ? 'HIGH' : has(text, MEDIUM_IMPACT) ? 'MEDIUM' : 'LOW'
+    };
+};
+
+export const classifyHeadline: HeadlineClassifier = headline => {
+    const { sentiment, impact } = scoreHeadline(headline);
+    return { sentiment, impact };
+};
+
+// --- EVALUATION ---
+
+export interface ClassifierEvaluation {
+    samples: number;
+    sentimentAccuracy: number; // 0..1
+    impactAccuracy: number;
+    misses: { headline: string; expected: Pick<NewsItem, 'sentiment' | 'impact'>; predicted: Pick<NewsItem, 'sentiment' | 'impact'> }[];
+}
+
+// Accuracy on labelled headlines (the held-out set in utils/headlineSamples.ts by default)
+export const evaluateHeadlineClassifier = (
+    classifier: HeadlineClassifier = classifyHeadline,
+    samples: LabelledHeadline[] = HELD_OUT_HEADLINES
+): ClassifierEvaluation => {
+    let sentimentHits = 0;
+    let impactHits = 0;
+    const misses: ClassifierEvaluation['misses'] = [];
+    samples.forEach(({ headline, sentiment, impact }) => {
+        const predicted = classifier(headline);
+        if (predicted.sentiment === sentiment) sentimentHits++;
+        if (predicted.impact === impact) impactHits++;
+        if (predicted.sentiment !== sentiment || predicted.impact !== impact) misses.push({ headline, expected: { sentiment, impact }, predicted });
+    });
+    return {
+        samples: samples.length,
+        sentimentAccuracy: samples.length > 0 ? sentimentHits / samples.length : 0,
+        impactAccuracy: samples.length > 0 ? impactHits / samples.length : 0,
+        misses
+    };
+};
@@ -0,0 +1,51 @@
+// --- INDEXEDDB ---
+// One object store per database, keyed by `id`: the signal journal
+// (utils/journal.ts) and the LSTM version records (utils/modelStore.ts).
+
+export interface ObjectStoreOptions {
+    database: string;
+    version: number;
+    store: string;
+    indexes: string[]; // Created on upgrade, each on the field of the same name
+}
+
+export type RunTransaction = <T>(
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => IDBRequest<T> | void
+) => Promise<T | undefined>;
+
+// The database is opened on the first transaction and kept open. A failed
+// open is retried on the next call.
+export const createObjectStore = (options: ObjectStoreOptions): RunTransaction => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const open = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(options.database, options.version);
+                request.onupgradeneeded = () => {
+                    const store = request.result.createObjectStore(options.store, { keyPath: 'id' });
+                    options.indexes.forEach(index => store.createIndex(index, index));
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return dbPromise;
+    };
+
+    // Resolves with the result of the request `work` returns, once the transaction commits
+    return async (mode, work) => {
+        const db = await open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(options.store, mode);
+            const request = work(tx.objectStore(options.store));
+            tx.oncomplete = () => resolve(request ? request.result : undefined);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    };
+};
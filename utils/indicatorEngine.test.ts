@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { Candle } from '../types';
+import { TIMEFRAMES } from '../constants';
+import { createSeededRandom } from './environment';
+import { DEFAULT_STRATEGY_CONFIG } from './strategyConfig';
+import { formatToIST, resampleCandles } from './simulation';
+import { checkIndicatorParity } from './indicatorEngine';
+import { isMarketOpen } from './sessions';
+
+const MINUTE_MS = 60 * 1000;
+const START = Date.UTC(2024, 0, 8, 0, 0); // Monday, aligned to every timeframe
+const FRIDAY = Date.UTC(2024, 0, 12, 20, 0); // Two hours before the 17:00 New York close
+const TIMEFRAME_MINUTES = [1, ...TIMEFRAMES.map(tf => tf.value)];
+
+// Seeded random walk of 1m candles, without the minutes in `skip`
+const generateCandles = (count: number, seed: number, skip: (minute: number) => boolean = () => false, start: number = START): Candle[] => {
+    const random = createSeededRandom(seed);
+    const candles: Candle[] = [];
+    let price = 1.085;
+    for (let minute = 0; minute < count; minute++) {
+        const open = price;
+        const close = open + (random() - 0.5) * 0.0006;
+        price = close;
+        if (skip(minute)) continue;
+        const timestamp = start + minute * MINUTE_MS;
+        candles.push({
+            time: formatToIST(timestamp),
+            timestamp,
+            open,
+            high: Math.max(open, close) + random() * 0.0002,
+            low: Math.min(open, close) - random() * 0.0002,
+            close,
+            volume: Math.round(random() * 100)
+        });
+    }
+    return candles;
+};
+
+const expectParity = (candles: Candle[]) => {
+    expect(checkIndicatorParity(candles, DEFAULT_STRATEGY_CONFIG.indicators, TIMEFRAME_MINUTES)).toEqual([]);
+};
+
+describe('checkIndicatorParity', () => {
+    it('streams a continuous series identically to the batch pipeline', () => {
+        expectParity(generateCandles(1500, 1));
+    });
+
+    it('matches on series with gaps and incomplete buckets', () => {
+        // A whole missing hour, single missing minutes and a run inside a 45m bucket
+        const candles = generateCandles(2000, 2, m => (m >= 300 && m < 360) || m % 97 === 0 || (m >= 1000 && m < 1010));
+        const incomplete = TIMEFRAMES.flatMap(tf => resampleCandles(candles, tf.value)).filter(c => c.missingMinutes);
+        expect(incomplete.length).toBeGreaterThan(0);
+        expectParity(candles);
+    });
+
+    it('matches when the series ends in a gap inside the forming bucket', () => {
+        const candles = generateCandles(1200, 3, m => m >= 1190 && m < 1199);
+        expect(resampleCandles(candles, 60).at(-1)?.missingMinutes).toBeGreaterThan(0);
+        expectParity(candles);
+    });
+
+    it('does not count the weekend close as missing minutes', () => {
+        // Friday 20:00 UTC to Sunday 23:00 UTC, without the closed minutes
+        const count = 51 * 60;
+        const candles = generateCandles(count, 5, m => !isMarketOpen(FRIDAY + m * MINUTE_MS), FRIDAY);
+        // The first 45m bucket starts before the series
+        const flagged = TIMEFRAMES.flatMap(tf => resampleCandles(candles, tf.value)).filter(c => c.missingMinutes && c.timestamp >= FRIDAY);
+        expect(flagged).toEqual([]);
+        expectParity(candles);
+    });
+
+    it('matches for every bucket phase of the forming candle', () => {
+        const candles = generateCandles(700, 4);
+        for (let end = 640; end <= 700; end += 7) expectParity(candles.slice(0, end));
+    });
+});
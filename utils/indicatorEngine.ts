@@ -0,0 +1,330 @@
+import { Candle, IndicatorParams } from '../types';
+import { alignToBucket, calculateIndicators, formatToIST, getMissingMinutes, resampleCandles } from './simulation';
+import { calcEMA, calcRMA } from './indicatorMath';
+import { ExtendedIndicatorEngine } from './extendedIndicators';
+
+// --- INCREMENTAL INDICATORS ---
+// Streaming counterpart of calculateIndicators: keeps the running EMA / RMA /
+// rolling-sum state and enriches one candle per call in O(1). push() commits
+// a closed candle, peek() enriches a forming candle without touching state.
+// Output matches the batch function on the same series (see
+// checkIndicatorParity); Bollinger bands use rolling sums and agree to
+// floating-point tolerance, everything else is bit-identical. The extended
+// set (utils/extendedIndicators.ts) runs on top of the core output here and
+// in calculateIndicators alike.
+
+interface IndicatorState {
+    count: number; // Candles committed so far == index of the next candle
+    emaFast?: number;
+    emaSlow?: number;
+    macdSignal?: number;
+    emaTrend?: number;
+    prev?: { close: number; high: number; low: number };
+    smoothTR?: number;
+    smoothPlusDM?: number;
+    smoothMinusDM?: number;
+    adx?: number;
+    avgGain?: number;
+    avgLoss?: number;
+    gainSum: number; // RSI seed sums over the first rsiPeriod changes
+    lossSum: number;
+    smaFastSum: number;
+    smaSlowSum: number;
+    // Bollinger: sums of (close - bbRef) over the last bbPeriod closes
+    bbRef: number;
+    bbSum: number;
+    bbSumSq: number;
+    bbSinceResync: number;
+}
+
+export class IndicatorEngine {
+    private state: IndicatorState = {
+        count: 0, gainSum: 0, lossSum: 0, smaFastSum: 0, smaSlowSum: 0, bbRef: 0, bbSum: 0, bbSumSq: 0, bbSinceResync: 0
+    };
+    private closes: number[]; // Ring buffer: close of candle i is at i % capacity
+    private capacity: number;
+    private extended: ExtendedIndicatorEngine;
+
+    constructor(private params: IndicatorParams) {
+        this.capacity = Math.max(params.bbPeriod, params.smaFast, params.smaSlow);
+        this.closes = new Array(this.capacity).fill(0);
+        this.extended = new ExtendedIndicatorEngine(params);
+    }
+
+    get count(): number {
+        return this.state.count;
+    }
+
+    push(candle: Candle): Candle {
+        const { enriched, next } = this.step(candle);
+        this.closes[this.state.count % this.capacity] = candle.close;
+        this.state = next;
+        // Rolling sums drift; rebuild them from the window once per period (amortised O(1))
+        if (next.bbSinceResync >= this.params.bbPeriod) this.resyncBollinger();
+        return this.extended.push(enriched);
+    }
+
+    peek(candle: Candle): Candle {
+        return this.extended.peek(this.step(candle).enriched);
+    }
+
+    // Close `k` candles before candle `index` (k <= capacity)
+    private closeAgo(index: number, k: number): number {
+        return this.closes[(index - k) % this.capacity];
+    }
+
+    private resyncBollinger() {
+        const { bbPeriod } = this.params;
+        const s = this.state;
+        const last = s.count - 1;
+        s.bbRef = this.closeAgo(s.count, 1);
+        s.bbSum = 0;
+        s.bbSumSq = 0;
+        for (let i = Math.max(0, last - bbPeriod + 1); i <= last; i++) {
+            const d = this.closes[i % this.capacity] - s.bbRef;
+            s.bbSum += d;
+            s.bbSumSq += d * d;
+        }
+        s.bbSinceResync = 0;
+    }
+
+    // Mirrors calculateIndicators step by step, including its warm-up rules
+    private step(candle: Candle): { enriched: Candle; next: IndicatorState } {
+        const { macdFast, macdSlow, macdSignal, bbPeriod, bbMult, adxPeriod, rsiPeriod, emaTrendPeriod, smaFast: smaFastPeriod, smaSlow: smaSlowPeriod } = this.params;
+        const s = this.state;
+        const index = s.count;
+        const close = candle.close;
+        const next: IndicatorState = { ...s, count: index + 1, prev: { close, high: candle.high, low: candle.low } };
+
+        // 1. MACD
+        next.emaFast = calcEMA(close, s.emaFast, macdFast);
+        next.emaSlow = calcEMA(close, s.emaSlow, macdSlow);
+        let macd = undefined;
+        if (index >= macdSlow) {
+            const line = (next.emaFast || 0) - (next.emaSlow || 0);
+            next.macdSignal = calcEMA(line, s.macdSignal, macdSignal);
+            macd = { line, signal: next.macdSignal || 0, hist: line - (next.macdSignal || 0) };
+        }
+
+        // 2. Trend EMA
+        next.emaTrend = calcEMA(close, s.emaTrend, emaTrendPeriod);
+
+        // 3. Bollinger Bands (rolling sums, shifted by bbRef for precision)
+        const d = close - s.bbRef;
+        const dropped = index >= bbPeriod ? this.closeAgo(index, bbPeriod) - s.bbRef : 0;
+        next.bbSum = s.bbSum + d - dropped;
+        next.bbSumSq = s.bbSumSq + d * d - dropped * dropped;
+        next.bbSinceResync = s.bbSinceResync + 1;
+        let bollinger = undefined;
+        if (index >= bbPeriod) {
+            const mean = s.bbRef + next.bbSum / bbPeriod;
+            const variance = Math.max((next.bbSumSq - (next.bbSum * next.bbSum) / bbPeriod) / bbPeriod, 0);
+            const stdDev = Math.sqrt(variance);
+            bollinger = { middle: mean, upper: mean + (stdDev * bbMult), lower: mean - (stdDev * bbMult) };
+        }
+
+        // 4. ADX & ATR / 5. RSI
+        let adxVal = undefined;
+        let atrVal = undefined;
+        let rsiVal = undefined;
+        const prev = s.prev;
+        if (prev) {
+            const tr = Math.max(candle.high - candle.low, Math.abs(candle.high - prev.close), Math.abs(candle.low - prev.close));
+            const upMove = candle.high - prev.high;
+            const downMove = prev.low - candle.low;
+            const plusDM = (upMove > downMove && upMove > 0) ? upMove : 0;
+            const minusDM = (downMove > upMove && downMove > 0) ? downMove : 0;
+
+            next.smoothTR = calcRMA(tr, s.smoothTR, adxPeriod);
+            next.smoothPlusDM = calcRMA(plusDM, s.smoothPlusDM, adxPeriod);
+            next.smoothMinusDM = calcRMA(minusDM, s.smoothMinusDM, adxPeriod);
+            atrVal = next.smoothTR;
+
+            if (index > adxPeriod * 2) {
+                const plusDI = 100 * (next.smoothPlusDM || 0) / (next.smoothTR || 1);
+                const minusDI = 100 * (next.smoothMinusDM || 0) / (next.smoothTR || 1);
+                const dx = 100 * Math.abs(plusDI - minusDI) / ((plusDI + minusDI) || 1);
+                next.adx = calcRMA(dx, s.adx, adxPeriod);
+                adxVal = next.adx;
+            }
+
+            const change = close - prev.close;
+            const gain = change > 0 ? change : 0;
+            const loss = change < 0 ? Math.abs(change) : 0;
+            if (s.avgGain === undefined || s.avgLoss === undefined) {
+                next.gainSum = s.gainSum + gain;
+                next.lossSum = s.lossSum + loss;
+                if (index === rsiPeriod) {
+                    next.avgGain = next.gainSum / rsiPeriod;
+                    next.avgLoss = next.lossSum / rsiPeriod;
+                }
+            } else {
+                next.avgGain = ((s.avgGain * (rsiPeriod - 1)) + gain) / rsiPeriod;
+                next.avgLoss = ((s.avgLoss * (rsiPeriod - 1)) + loss) / rsiPeriod;
+            }
+            if (next.avgGain !== undefined && next.avgLoss !== undefined) {
+                const rs = next.avgGain / (next.avgLoss || 0.0000001);
+                rsiVal = 100 - (100 / (1 + rs));
+            }
+        }
+
+        // 6. SMA fast / slow
+        next.smaFastSum = s.smaFastSum + (close - (index >= smaFastPeriod ? this.closeAgo(index, smaFastPeriod) : 0));
+        next.smaSlowSum = s.smaSlowSum + (close - (index >= smaSlowPeriod ? this.closeAgo(index, smaSlowPeriod) : 0));
+        const smaFast = index >= smaFastPeriod - 1 ? next.smaFastSum / smaFastPeriod : undefined;
+        const smaSlow = index >= smaSlowPeriod - 1 ? next.smaSlowSum / smaSlowPeriod : undefined;
+
+        return {
+            enriched: { ...candle, macd, bollinger, ema200: next.emaTrend, adx: adxVal, atr: atrVal, rsi: rsiVal, smaFast, smaSlow },
+            next
+        };
+    }
+}
+
+// --- PER-TIMEFRAME SERIES ---
+// Resamples closed 1m candles into `timeframeMinutes` buckets on the fly and
+// keeps the enriched closed buckets. A bucket is committed once its last
+// minute has closed; the bucket still filling up is enriched with peek().
+
+const mergeInto = (bucket: Candle, candle: Candle): Candle => ({
+    ...bucket,
+    high: Math.max(bucket.high, candle.high),
+    low: Math.min(bucket.low, candle.low),
+    close: candle.close,
+    volume: bucket.volume + candle.volume
+});
+
+export class TimeframeSeries {
+    private engine: IndicatorEngine;
+    private closed: Candle[] = []; // Enriched, oldest first
+    private bucket: Candle | null = null; // Closed 1m candles of the unfinished bucket
+    private count = 0; // 1m candles merged into `bucket`
+    private latest = 0; // Timestamp of the latest 1m candle pushed
+
+    constructor(readonly timeframeMinutes: number, params: IndicatorParams, private maxLength: number = Infinity) {
+        this.engine = new IndicatorEngine(params);
+    }
+
+    // Feed the next closed 1m candle (timestamps must increase)
+    push(candle: Candle) {
+        const start = alignToBucket(candle.timestamp, this.timeframeMinutes);
+        if (this.bucket && start !== this.bucket.timestamp) this.commit();
+
+        if (this.timeframeMinutes === 1) {
+            this.bucket = candle; // resampleCandles passes 1m candles through untouched
+        } else {
+            this.bucket = this.bucket ? mergeInto(this.bucket, candle) : this.toBucket(start, candle);
+            this.count++;
+        }
+        this.latest = candle.timestamp;
+        if (candle.timestamp + 60000 >= start + this.timeframeMinutes * 60000) this.commit();
+    }
+
+    // Closed buckets plus the unfinished one (with the forming 1m candle, if
+    // given): what resampleCandles + calculateIndicators return for the same 1m series.
+    series(forming?: Candle): Candle[] {
+        let current = this.bucket;
+        if (forming) {
+            const start = alignToBucket(forming.timestamp, this.timeframeMinutes);
+            if (current && start !== current.timestamp) {
+                // A gap left the previous bucket open; no later candle can join it
+                this.commit();
+                current = null;
+            }
+            if (this.timeframeMinutes === 1) {
+                current = forming;
+            } else {
+                const count = current ? this.count + 1 : 1;
+                current = this.withMissing(current ? mergeInto(current, forming) : this.toBucket(start, forming), count, forming.timestamp);
+            }
+        } else if (current && this.timeframeMinutes > 1) {
+            current = this.withMissing(current, this.count, this.latest);
+        }
+        return current ? [...this.closed, this.engine.peek(current)] : [...this.closed];
+    }
+
+    // Flags minutes missing from a bucket (see getMissingMinutes)
+    private withMissing(bucket: Candle, count: number, latest: number): Candle {
+        const missingMinutes = getMissingMinutes(bucket.timestamp, this.timeframeMinutes, count, latest);
+        return missingMinutes > 0 ? { ...bucket, missingMinutes } : bucket;
+    }
+
+    private toBucket(start: number, candle: Candle): Candle {
+        const { open, high, low, close, volume } = candle;
+        return { time: formatToIST(start), open, high, low, close, volume, timestamp: start };
+    }
+
+    private commit() {
+        if (!this.bucket) return;
+        // Closed buckets are expected to be full
+        const bucket = this.timeframeMinutes > 1 ? this.withMissing(this.bucket, this.count, Infinity) : this.bucket;
+        this.closed.push(this.engine.push(bucket));
+        this.bucket = null;
+        this.count = 0;
+        // Trim in batches so the array copy stays amortised O(1)
+        if (this.closed.length > this.maxLength * 1.5) this.closed = this.closed.slice(-this.maxLength);
+    }
+}
+
+// --- PARITY CHECK ---
+
+export interface ParityMismatch {
+    timeframeMinutes: number;
+    index: number;
+    field: string;
+    batch: number | undefined;
+    incremental: number | undefined;
+}
+
+const PARITY_FIELDS: [string, (c: Candle) => number | undefined][] = [
+    ['macd.line', c => c.macd?.line], ['macd.signal', c => c.macd?.signal], ['macd.hist', c => c.macd?.hist],
+    ['bollinger.upper', c => c.bollinger?.upper], ['bollinger.middle', c => c.bollinger?.middle], ['bollinger.lower', c => c.bollinger?.lower],
+    ['ema200', c => c.ema200], ['adx', c => c.adx], ['atr', c => c.atr], ['rsi', c => c.rsi],
+    ['smaFast', c => c.smaFast], ['smaSlow', c => c.smaSlow],
+    ['stoch.k', c => c.stoch?.k], ['stoch.d', c => c.stoch?.d], ['stochRsi.k', c => c.stochRsi?.k], ['stochRsi.d', c => c.stochRsi?.d],
+    ['cci', c => c.cci], ['williamsR', c => c.williamsR],
+    ['ichimoku.tenkan', c => c.ichimoku?.tenkan], ['ichimoku.kijun', c => c.ichimoku?.kijun],
+    ['ichimoku.senkouA', c => c.ichimoku?.senkouA], ['ichimoku.senkouB', c => c.ichimoku?.senkouB],
+    ['psar', c => c.psar?.value], ['keltner.upper', c => c.keltner?.upper], ['keltner.lower', c => c.keltner?.lower],
+    ['donchian.upper', c => c.donchian?.upper], ['donchian.lower', c => c.donchian?.lower], ['vwap', c => c.vwap],
+    ['superTrend', c => c.superTrend?.value], ['pivots.pivot', c => c.pivots?.pivot],
+    ['open', c => c.open], ['high', c => c.high], ['low', c => c.low], ['close', c => c.close], ['timestamp', c => c.timestamp],
+    ['missingMinutes', c => c.missingMinutes]
+];
+
+// Streams `candles` (1m, oldest first) through TimeframeSeries for each
+// timeframe and compares every field with the batch pipeline. The last
+// candle is fed as the forming candle so peek() is covered too. Returns an
+// empty list when both agree within `tolerance` (relative; absolute below 1).
+export const checkIndicatorParity = (
+    candles: Candle[],
+    params: IndicatorParams,
+    timeframes: number[] = [1],
+    tolerance: number = 1e-9
+): ParityMismatch[] => {
+    const mismatches: ParityMismatch[] = [];
+    if (candles.length === 0) return mismatches;
+
+    timeframes.forEach(tf => {
+        const batch = calculateIndicators(resampleCandles(candles, tf), params);
+        const stream = new TimeframeSeries(tf, params);
+        candles.slice(0, -1).forEach(c => stream.push(c));
+        const incremental = stream.series(candles[candles.length - 1]);
+
+        if (incremental.length !== batch.length) {
+            mismatches.push({ timeframeMinutes: tf, index: -1, field: 'length', batch: batch.length, incremental: incremental.length });
+            return;
+        }
+        batch.forEach((b, index) => {
+            PARITY_FIELDS.forEach(([field, get]) => {
+                const x = get(b);
+                const y = get(incremental[index]);
+                const equal = x === undefined || y === undefined
+                    ? x === y
+                    : Math.abs(x - y) <= tolerance * Math.max(1, Math.abs(x));
+                if (!equal) mismatches.push({ timeframeMinutes: tf, index, field, batch: x, incremental: y });
+            });
+        });
+    });
+    return mismatches;
+};
@@ -0,0 +1,14 @@
+// --- MATH HELPERS ---
+// Shared by the batch (calculateIndicators) and streaming indicator code so
+// both produce bit-identical results.
+
+export const calcEMA = (val: number, prevEMA: number | undefined, period: number) => {
+  if (prevEMA === undefined) return val;
+  const k = 2 / (period + 1);
+  return val * k + prevEMA * (1 - k);
+};
+
+export const calcRMA = (val: number, prevRMA: number | undefined, period: number) => {
+    if (prevRMA === undefined) return val;
+    return (prevRMA * (period - 1) + val) / period;
+};
@@ -0,0 +1,106 @@
+import { Signal } from '../types';
+import { formatConfluence } from './confluence';
+import { createObjectStore } from './indexedDb';
+
+// --- SIGNAL JOURNAL (IndexedDB) ---
+// Every signal is written here when it's generated and again when it settles,
+// so the bot's output survives page reloads and can be audited later.
+
+const DB_NAME = 'eurusd-bot';
+const DB_VERSION = 1;
+const STORE = 'signals';
+
+export interface JournalFilter {
+    symbol?: string;
+    timeframe?: string;
+    strategy?: string;
+    strength?: Signal['signalStrength'];
+    outcome?: Signal['status'];
+    from?: number; // Unix ms, inclusive
+    to?: number; // Unix ms, inclusive
+}
+
+const runTransaction = createObjectStore({ database: DB_NAME, version: DB_VERSION, store: STORE, indexes: ['timestamp'] });
+
+// Upserts by id: a settled signal replaces its PENDING record
+export const saveSignals = async (signals: Signal[]): Promise<void> => {
+    if (signals.length === 0) return;
+    await runTransaction('readwrite', store => {
+        signals.forEach(sig => store.put(sig));
+    });
+};
+
+// Date range is resolved on the timestamp index, remaining fields in memory.
+// Newest first.
+export const querySignals = async (filter: JournalFilter = {}): Promise<Signal[]> => {
+    const range = filter.from !== undefined && filter.to !== undefined ? IDBKeyRange.bound(filter.from, filter.to)
+        : filter.from !== undefined ? IDBKeyRange.lowerBound(filter.from)
+        : filter.to !== undefined ? IDBKeyRange.upperBound(filter.to)
+        : undefined;
+
+    const rows = await runTransaction<Signal[]>('readonly', store => store.index('timestamp').getAll(range));
+    return (rows || [])
+        .filter(sig =>
+            (!filter.symbol || sig.symbol === filter.symbol) &&
+            (!filter.timeframe || sig.timeframe === filter.timeframe) &&
+            (!filter.strategy || sig.strategy === filter.strategy) &&
+            (!filter.strength || sig.signalStrength === filter.strength) &&
+            (!filter.outcome || sig.status === filter.outcome)
+        )
+        .reverse();
+};
+
+export const clearJournal = async (): Promise<void> => {
+    await runTransaction('readwrite', store => store.clear());
+};
+
+// --- EXPORT ---
+
+const CSV_COLUMNS: [string, (sig: Signal) => unknown][] = [
+    ['id', s => s.id],
+    ['symbol', s => s.symbol],
+    ['time', s => new Date(s.timestamp).toISOString()],
+    ['timeframe', s => s.timeframe],
+    ['type', s => s.type],
+    ['status', s => s.status],
+    ['price', s => s.price],
+    ['exitPrice', s => s.exitPrice],
+    ['pnl', s => s.pnl],
+    ['confidence', s => s.confidence],
+    ['rawProbability', s => s.rawProbability],
+    ['strength', s => s.signalStrength],
+    ['strategy', s => s.strategy],
+    ['regime', s => s.regime],
+    ['aiPrediction', s => s.aiPrediction],
+    ['aiConfidenceScore', s => s.aiConfidenceScore],
+    ['modelVersion', s => s.modelVersion],
+    ['modelVotes', s => s.modelVotes && Object.entries(s.modelVotes).map(([model, vote]) => `${model}:${vote}`).join(' ')],
+    ['newsContext', s => s.newsContext],
+    ['configVersion', s => s.configVersion],
+    ['confluencePoints', s => s.confluence?.points],
+    ['confluence', s => s.confluence && formatConfluence(s.confluence)],
+    ['rsi', s => s.indicators?.rsi],
+    ['adx', s => s.indicators?.adx],
+    ['atr', s => s.indicators?.atr],
+    ['ema200', s => s.indicators?.ema200],
+    ['macdLine', s => s.indicators?.macd?.line],
+    ['macdSignal', s => s.indicators?.macd?.signal],
+    ['macdHist', s => s.indicators?.macd?.hist],
+    ['bbUpper', s => s.indicators?.bollinger?.upper],
+    ['bbMiddle', s => s.indicators?.bollinger?.middle],
+    ['bbLower', s => s.indicators?.bollinger?.lower]
+];
+
+const escapeCsv = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    const str = String(value);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const signalsToCSV = (signals: Signal[]): string => {
+    const header = CSV_COLUMNS.map(([name]) => name).join(',');
+    const lines = signals.map(sig => CSV_COLUMNS.map(([, get]) => escapeCsv(get(sig))).join(','));
+    return [header, ...lines].join('\n');
+};
+
+export const signalsToJSON = (signals: Signal[]): string => JSON.stringify(signals, null, 2);
@@ -0,0 +1,82 @@
+import { LSTMConfig, LSTMFeature } from '../types';
+import { ENSEMBLE_LEARNERS } from './ensemble';
+
+// --- LSTM CONFIG ---
+// Feature set and architecture used for every new training. Stored models
+// keep the config they were trained with, so changing it never breaks them.
+
+const STORAGE_KEY = 'eurusd-bot.lstm';
+
+export const LSTM_FEATURES: { key: LSTMFeature; label: string }[] = [
+    { key: 'close', label: 'Close (standardised)' },
+    { key: 'returns', label: 'Log returns' },
+    { key: 'rsi', label: 'RSI' },
+    { key: 'macdHist', label: 'MACD histogram' },
+    { key: 'atrRange', label: 'Range / ATR' },
+    { key: 'bbPercentB', label: 'Bollinger %B' },
+    { key: 'timeOfDay', label: 'Time of day' },
+    { key: 'sentiment', label: 'News sentiment' }
+];
+
+export const DEFAULT_LSTM_CONFIG: LSTMConfig = {
+    features: ['returns', 'rsi', 'macdHist', 'atrRange', 'bbPercentB', 'timeOfDay'],
+    windowSize: 30,
+    layers: 1,
+    units: 32,
+    denseUnits: 16,
+    epochs: 20,
+    patience: 3,
+    batchSize: 32,
+    learningRate: 0.005,
+    validationSplit: 0.2,
+    trainingCandles: 1000,
+    ensemble: ['gru', 'cnn', 'logistic', 'naive']
+};
+
+export const validateLSTMConfig = (config: LSTMConfig): string[] => {
+    const errors: string[] = [];
+    const known = LSTM_FEATURES.map(f => f.key);
+    if (config.features.length === 0) errors.push('Select at least one feature');
+    config.features.forEach(f => {
+        if (!known.includes(f)) errors.push(`Unknown feature "${f}"`);
+    });
+    config.ensemble.forEach(id => {
+        if (id === 'lstm' || !ENSEMBLE_LEARNERS.some(l => l.id === id)) errors.push(`Unknown ensemble learner "${id}"`);
+    });
+    const integers: [string, number, number][] = [
+        ['Window size', config.windowSize, 2], ['Layers', config.layers, 1], ['Units', config.units, 1],
+        ['Dense units', config.denseUnits, 0], ['Epochs', config.epochs, 1], ['Patience', config.patience, 1],
+        ['Batch size', config.batchSize, 1], ['Training candles', config.trainingCandles, 100]
+    ];
+    integers.forEach(([label, value, min]) => {
+        if (!Number.isInteger(value) || value < min) errors.push(`${label} must be an integer >= ${min}`);
+    });
+    if (!(config.learningRate > 0 && config.learningRate < 1)) errors.push('Learning rate must be in (0, 1)');
+    if (!(config.validationSplit > 0 && config.validationSplit < 0.5)) errors.push('Validation split must be in (0, 0.5)');
+    // Enough sequences left on both sides of the split
+    const sequences = config.trainingCandles - config.windowSize - 1;
+    if (Number.isInteger(config.windowSize) && sequences * config.validationSplit < 20) {
+        errors.push('Training candles too few for this window size and validation split');
+    }
+    return errors;
+};
+
+// --- PERSISTENCE ---
+
+export const loadLSTMConfig = (): LSTMConfig => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_LSTM_CONFIG;
+        // Fill fields added after the config was saved
+        const merged: LSTMConfig = { ...DEFAULT_LSTM_CONFIG, ...JSON.parse(raw) };
+        return validateLSTMConfig(merged).length === 0 ? merged : DEFAULT_LSTM_CONFIG;
+    } catch (e) {
+        return DEFAULT_LSTM_CONFIG;
+    }
+};
+
+export const saveLSTMConfig = (config: LSTMConfig) => {
+    const errors = validateLSTMConfig(config);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,58 @@
+import { Candle, LSTMFeature } from '../types';
+
+// --- LSTM FEATURES ---
+// Turns enriched candles into the input matrix of the LSTM: one row per
+// candle, one or more columns per feature (time of day is encoded as
+// sin/cos so 23:59 sits next to 00:00). Every column is then standardised
+// with the mean / std of the training rows, stored with the model.
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface FeatureScaler {
+    mean: number[];
+    std: number[];
+}
+
+// Columns of one feature for `candle`; `prev` is the candle before it
+const featureColumns = (feature: LSTMFeature, candle: Candle, prev: Candle | undefined): number[] => {
+    switch (feature) {
+        case 'close':
+            return [candle.close];
+        case 'returns':
+            return [prev && prev.close > 0 ? Math.log(candle.close / prev.close) : 0];
+        case 'rsi':
+            return [candle.rsi !== undefined ? candle.rsi / 100 - 0.5 : 0];
+        case 'macdHist':
+            return [candle.macd ? candle.macd.hist / candle.close : 0];
+        case 'atrRange':
+            return [candle.atr ? (candle.high - candle.low) / candle.atr : 1];
+        case 'bbPercentB': {
+            const bb = candle.bollinger;
+            return [bb && bb.upper > bb.lower ? (candle.close - bb.lower) / (bb.upper - bb.lower) : 0.5];
+        }
+        case 'timeOfDay': {
+            const date = new Date(candle.timestamp);
+            const angle = 2 * Math.PI * (date.getUTCHours() * 60 + date.getUTCMinutes()) / MINUTES_PER_DAY;
+            return [Math.sin(angle), Math.cos(angle)];
+        }
+        case 'sentiment':
+            return [(candle.sentiment || 0) / 100];
+    }
+};
+
+// Unscaled feature rows, aligned with `candles`
+export const extractFeatureRows = (candles: Candle[], features: LSTMFeature[]): number[][] =>
+    candles.map((candle, i) => features.flatMap(f => featureColumns(f, candle, candles[i - 1])));
+
+export const fitScaler = (rows: number[][]): FeatureScaler => {
+    const width = rows[0]?.length || 0;
+    const mean = new Array(width).fill(0);
+    const std = new Array(width).fill(0);
+    rows.forEach(row => row.forEach((v, j) => { mean[j] += v / rows.length; }));
+    rows.forEach(row => row.forEach((v, j) => { std[j] += (v - mean[j]) ** 2 / rows.length; }));
+    // Constant columns (e.g. sentiment without news) pass through centred
+    return { mean, std: std.map(v => (v > 0 ? Math.sqrt(v) : 1)) };
+};
+
+export const applyScaler = (rows: number[][], scaler: FeatureScaler): number[][] =>
+    rows.map(row => row.map((v, j) => (v - scaler.mean[j]) / scaler.std[j]));
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { TickAggregator, parseCandleFile } from './marketData';
+
+const T0 = Date.UTC(2024, 0, 8, 10, 15); // 2024-01-08 10:15 UTC
+const MINUTE_MS = 60 * 1000;
+
+const ohlc = (candle: { open: number; high: number; low: number; close: number; volume: number }) =>
+    [candle.open, candle.high, candle.low, candle.close, candle.volume];
+
+describe('parseCandleFile', () => {
+    it.each(['time', 'Timestamp', 'DATETIME', 'date'])('reads the "%s" column of a CSV header', column => {
+        const csv = `${column},open,high,low,close,volume\n2024-01-08 10:15:00,1.1,1.2,1.0,1.15,7`;
+        const [candle] = parseCandleFile(csv, 'candles.csv');
+        expect(candle.timestamp).toBe(T0);
+        expect(ohlc(candle)).toEqual([1.1, 1.2, 1.0, 1.15, 7]);
+    });
+
+    it('maps CSV columns by name, in any order, without a volume', () => {
+        const csv = 'close,low,high,open,time\n1.15,1.0,1.2,1.1,2024-01-08T10:15:00Z\n';
+        expect(ohlc(parseCandleFile(csv)[0])).toEqual([1.1, 1.2, 1.0, 1.15, 0]);
+    });
+
+    it('reads Unix seconds and milliseconds alike', () => {
+        const csv = `timestamp,open,high,low,close\n${T0 / 1000},1,1,1,1\n${T0 + MINUTE_MS},1,1,1,1`;
+        expect(parseCandleFile(csv).map(c => c.timestamp)).toEqual([T0, T0 + MINUTE_MS]);
+    });
+
+    it('reads JSON arrays and TwelveData values, sorted by time', () => {
+        const rows = [
+            { datetime: '2024-01-08 10:16:00', open: '1.2', high: '1.3', low: '1.1', close: '1.25' },
+            { datetime: '2024-01-08 10:15:00', open: '1.1', high: '1.2', low: '1.0', close: '1.15' }
+        ];
+        expect(parseCandleFile(JSON.stringify(rows)).map(c => c.timestamp)).toEqual([T0, T0 + MINUTE_MS]);
+        expect(parseCandleFile(JSON.stringify({ values: rows }), 'eurusd.json')).toHaveLength(2);
+        const seconds = [{ timestamp: T0 / 1000, open: 1, high: 1, low: 1, close: 1 }];
+        expect(parseCandleFile(JSON.stringify(seconds))[0].timestamp).toBe(T0);
+    });
+
+    it('rejects rows with a missing price or time', () => {
+        expect(() => parseCandleFile('time,open,high,low,close\n2024-01-08 10:15:00,1.1,,1.0,1.15')).toThrow('Invalid candle at row 1');
+        expect(() => parseCandleFile('[{"open":1,"high":1,"low":1,"close":1}]')).toThrow('Invalid candle at row 1');
+        expect(() => parseCandleFile('{"data":[]}')).toThrow('Expected a JSON array of candles');
+    });
+});
+
+describe('TickAggregator', () => {
+    it('builds a 1m candle from the ticks of a minute', () => {
+        const aggregator = new TickAggregator();
+        expect(aggregator.push({ price: 1.1, timestamp: T0 + 5000 }).type).toBe('OPEN');
+        aggregator.push({ price: 1.12, timestamp: T0 + 20000 });
+        const event = aggregator.push({ price: 1.09, timestamp: T0 + 59999 });
+        expect(event.type).toBe('UPDATE');
+        expect(event.candle.timestamp).toBe(T0);
+        expect(ohlc(event.candle)).toEqual([1.1, 1.12, 1.09, 1.09, 3]);
+    });
+
+    it('closes the candle on the first tick of the next minute', () => {
+        const aggregator = new TickAggregator();
+        aggregator.push({ price: 1.1, timestamp: T0 });
+        aggregator.push({ price: 1.11, timestamp: T0 + 30000 });
+        const event = aggregator.push({ price: 1.12, timestamp: T0 + MINUTE_MS });
+        if (event.type !== 'CLOSE') throw new Error(`Expected CLOSE, got ${event.type}`);
+        expect(ohlc(event.closed)).toEqual([1.1, 1.11, 1.1, 1.11, 2]);
+        expect(event.candle.timestamp).toBe(T0 + MINUTE_MS);
+        expect(ohlc(event.candle)).toEqual([1.12, 1.12, 1.12, 1.12, 1]);
+    });
+
+    it('opens the candle of the tick minute after a gap, and flushes the forming one', () => {
+        const aggregator = new TickAggregator();
+        aggregator.push({ price: 1.1, timestamp: T0 });
+        const event = aggregator.push({ price: 1.2, timestamp: T0 + 5 * MINUTE_MS + 1000 });
+        expect(event.type).toBe('CLOSE');
+        expect(event.candle.timestamp).toBe(T0 + 5 * MINUTE_MS);
+        expect(aggregator.flush()?.timestamp).toBe(T0 + 5 * MINUTE_MS);
+        expect(aggregator.currentCandle).toBeNull();
+    });
+});
@@ -0,0 +1,511 @@
+import { Candle, LogEntry } from '../types';
+import { formatToIST, timeframeToMinutes } from './simulation';
+import { SimEnvironment, systemEnvironment } from './environment';
+
+// --- MARKET DATA PROVIDERS ---
+// Every price source (REST history, websocket stream, local file, synthetic)
+// sits behind the same interface, so the bot can run live, offline or
+// against a local mock server without touching the analysis loop.
+
+export interface Tick {
+    price: number;
+    timestamp: number; // Unix ms of the trade/quote
+    volume?: number;
+}
+
+export type ConnectionStatus = 'CONNECTING' | 'CONNECTED' | 'DISCONNECTED';
+
+export interface TickSubscriptionHandlers {
+    onStatus?: (status: ConnectionStatus) => void;
+}
+
+export type Unsubscribe = () => void;
+
+export interface MarketDataProvider {
+    readonly name: string;
+    // False when ticks carry simulated (replayed) time instead of wall-clock time
+    readonly isRealtime: boolean;
+    fetchHistory(symbol: string, interval: string, count: number): Promise<Candle[]>;
+    subscribeTicks(symbol: string, onTick: (tick: Tick) => void, handlers?: TickSubscriptionHandlers): Unsubscribe;
+}
+
+export type ProviderLogger = (level: LogEntry['level'], message: string) => void;
+
+const noopLog: ProviderLogger = () => {};
+
+const toCandle = (timestamp: number, open: number, high: number, low: number, close: number, volume: number): Candle => ({
+    time: formatToIST(timestamp),
+    open,
+    high,
+    low,
+    close,
+    volume,
+    timestamp
+});
+
+// "2024-01-02 10:15:00" style strings are treated as UTC (TwelveData with timezone=UTC)
+const parseUtcDateTime = (value: string): number => {
+    const iso = value.includes('T') ? value : value.replace(' ', 'T');
+    return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(iso) ? iso : iso + 'Z').getTime();
+};
+
+// --- TICK -> 1M CANDLE AGGREGATION ---
+
+export type AggregatorEvent =
+    | { type: 'OPEN'; candle: Candle }
+    | { type: 'UPDATE'; candle: Candle }
+    | { type: 'CLOSE'; closed: Candle; candle: Candle };
+
+export class TickAggregator {
+    private current: Candle | null = null;
+
+    get currentCandle(): Candle | null {
+        return this.current;
+    }
+
+    push(tick: Tick): AggregatorEvent {
+        const bucket = Math.floor(tick.timestamp / 60000) * 60000;
+        const price = tick.price;
+
+        if (!this.current) {
+            this.current = toCandle(bucket, price, price, price, price, 1);
+            return { type: 'OPEN', candle: this.current };
+        }
+
+        if (bucket !== this.current.timestamp) {
+            const closed = { ...this.current };
+            this.current = toCandle(bucket, price, price, price, price, 1);
+            return { type: 'CLOSE', closed, candle: this.current };
+        }
+
+        const c = this.current;
+        c.high = Math.max(c.high, price);
+        c.low = Math.min(c.low, price);
+        c.close = price;
+        c.volume += 1; // Tick volume
+        return { type: 'UPDATE', candle: c };
+    }
+
+    // Closes the forming candle without opening a new one (market close)
+    flush(): Candle | null {
+        const closed = this.current;
+        this.current = null;
+        return closed;
+    }
+
+    reset() {
+        this.current = null;
+    }
+}
+
+// --- TWELVEDATA (REST) ---
+
+export interface TwelveDataOptions {
+    apiKeys: string[];
+    baseUrl?: string;
+    pollIntervalMs?: number; // /price polling when used as a tick source
+    onLog?: ProviderLogger;
+}
+
+export const createTwelveDataProvider = (options: TwelveDataOptions): MarketDataProvider => {
+    const baseUrl = options.baseUrl || 'https://api.twelvedata.com';
+    const log = options.onLog || noopLog;
+
+    const toInterval = (interval: string): string => {
+        const minutes = timeframeToMinutes(interval);
+        return minutes >= 60 ? `${minutes / 60}h` : `${minutes}min`;
+    };
+
+    return {
+        name: 'TwelveData',
+        isRealtime: true,
+
+        async fetchHistory(symbol, interval, count) {
+            for (const apiKey of options.apiKeys) {
+                try {
+                    const url = `${baseUrl}/time_series?symbol=${symbol}&interval=${toInterval(interval)}&outputsize=${count}&apikey=${apiKey}&order=ASC&timezone=UTC`;
+                    const response = await fetch(url);
+                    const data = await response.json();
+
+                    if (data.status === 'ok' && data.values) {
+                        return data.values.map((v: any) => toCandle(
+                            parseUtcDateTime(v.datetime),
+                            parseFloat(v.open),
+                            parseFloat(v.high),
+                            parseFloat(v.low),
+                            parseFloat(v.close),
+                            parseInt(v.volume || '0')
+                        ));
+                    }
+                    log('WARNING', `TwelveData API limit: ${data.message}`);
+                } catch (e) {
+                    log('ERROR', 'Connection error to TwelveData.');
+                }
+            }
+            throw new Error('TwelveData: all API keys failed');
+        },
+
+        subscribeTicks(symbol, onTick, handlers) {
+            let keyIndex = 0;
+            let stopped = false;
+
+            const poll = async () => {
+                const apiKey = options.apiKeys[keyIndex % options.apiKeys.length];
+                try {
+                    const response = await fetch(`${baseUrl}/price?symbol=${symbol}&apikey=${apiKey}`);
+                    const data = await response.json();
+                    if (stopped) return;
+                    if (data.price) {
+                        handlers?.onStatus?.('CONNECTED');
+                        onTick({ price: parseFloat(data.price), timestamp: Date.now() });
+                    } else {
+                        log('WARNING', `TwelveData API limit: ${data.message}`);
+                        keyIndex++;
+                    }
+                } catch (e) {
+                    handlers?.onStatus?.('DISCONNECTED');
+                    keyIndex++;
+                }
+            };
+
+            handlers?.onStatus?.('CONNECTING');
+            poll();
+            const interval = setInterval(poll, options.pollIntervalMs || 15000);
+            return () => {
+                stopped = true;
+                clearInterval(interval);
+            };
+        }
+    };
+};
+
+// --- FINNHUB (WEBSOCKET) ---
+
+export interface FinnhubOptions {
+    apiKeys: string[];
+    wsUrl?: string;
+    restUrl?: string;
+    reconnectDelayMs?: number;
+    onLog?: ProviderLogger;
+}
+
+// EUR/USD -> OANDA:EUR_USD
+export const toFinnhubSymbol = (symbol: string): string => {
+    return symbol.includes(':') ? symbol : `OANDA:${symbol.replace('/', '_')}`;
+};
+
+export const createFinnhubProvider = (options: FinnhubOptions): MarketDataProvider => {
+    const wsUrl = options.wsUrl || 'wss://ws.finnhub.io';
+    const restUrl = options.restUrl || 'https://finnhub.io/api/v1';
+    const reconnectDelay = options.reconnectDelayMs ?? 2000;
+    const log = options.onLog || noopLog;
+
+    interface Subscription {
+        finnhubSymbol: string;
+        onTick: (tick: Tick) => void;
+        handlers?: TickSubscriptionHandlers;
+    }
+    const subscriptions = new Set<Subscription>();
+    let socket: WebSocket | null = null;
+    let keyIndex = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const broadcastStatus = (status: ConnectionStatus) => {
+        subscriptions.forEach(s => s.handlers?.onStatus?.(status));
+    };
+
+    const connect = (index: number) => {
+        keyIndex = index;
+        const apiKey = options.apiKeys[index % options.apiKeys.length];
+        log('DEBUG', `Connecting to Finnhub Stream...`);
+        broadcastStatus('CONNECTING');
+
+        const ws = new WebSocket(`${wsUrl}?token=${apiKey}`);
+        socket = ws;
+
+        ws.onopen = () => {
+            log('INFO', `🔌 Connected to Live Stream (Finnhub)`);
+            const symbols = new Set(Array.from(subscriptions).map(s => s.finnhubSymbol));
+            symbols.forEach(symbol => ws.send(JSON.stringify({ type: 'subscribe', symbol })));
+            broadcastStatus('CONNECTED');
+        };
+
+        ws.onmessage = (event) => {
+            try {
+                const message = JSON.parse(event.data);
+                if (message.type === 'trade' && message.data) {
+                    message.data.forEach((trade: any) => {
+                        const tick: Tick = { price: trade.p, timestamp: trade.t || Date.now(), volume: trade.v };
+                        subscriptions.forEach(s => {
+                            if (s.finnhubSymbol === trade.s) s.onTick(tick);
+                        });
+                    });
+                }
+            } catch (e) {
+                console.error("Error parsing WS message", e);
+            }
+        };
+
+        ws.onclose = () => {
+            // Closed on purpose (last subscriber left, or replaced by a reconnect)
+            if (socket !== ws) return;
+            broadcastStatus('DISCONNECTED');
+            socket = null;
+            if (subscriptions.size === 0) return;
+            log('WARNING', `Stream disconnected. Switching key & reconnecting in ${reconnectDelay / 1000}s...`);
+            reconnectTimer = setTimeout(() => {
+                if (subscriptions.size > 0 && !socket) connect(index + 1);
+            }, reconnectDelay);
+        };
+
+        ws.onerror = (e) => {
+            console.error("WebSocket Error", e);
+        };
+    };
+
+    return {
+        name: 'Finnhub',
+        isRealtime: true,
+
+        async fetchHistory(symbol, interval, count) {
+            const minutes = timeframeToMinutes(interval);
+            const to = Math.floor(Date.now() / 1000);
+            const from = to - count * minutes * 60;
+            for (const apiKey of options.apiKeys) {
+                try {
+                    const url = `${restUrl}/forex/candle?symbol=${toFinnhubSymbol(symbol)}&resolution=${minutes}&from=${from}&to=${to}&token=${apiKey}`;
+                    const data = await (await fetch(url)).json();
+                    if (data.s === 'ok' && data.t) {
+                        return data.t.map((t: number, i: number) => toCandle(
+                            t * 1000, data.o[i], data.h[i], data.l[i], data.c[i], data.v?.[i] || 0
+                        )).slice(-count);
+                    }
+                    log('WARNING', `Finnhub history unavailable: ${data.error || data.s}`);
+                } catch (e) {
+                    log('ERROR', 'Connection error to Finnhub REST.');
+                }
+            }
+            throw new Error('Finnhub: all API keys failed');
+        },
+
+        // One shared socket per provider: Finnhub free keys allow a single
+        // connection, so every watched symbol is multiplexed over it.
+        subscribeTicks(symbol, onTick, handlers) {
+            const finnhubSymbol = toFinnhubSymbol(symbol);
+            const subscription = { finnhubSymbol, onTick, handlers };
+            subscriptions.add(subscription);
+
+            if (socket?.readyState === WebSocket.OPEN) {
+                socket.send(JSON.stringify({ type: 'subscribe', symbol: finnhubSymbol }));
+                handlers?.onStatus?.('CONNECTED');
+            } else if (!socket) {
+                connect(keyIndex);
+            }
+
+            return () => {
+                subscriptions.delete(subscription);
+                const stillWatched = Array.from(subscriptions).some(s => s.finnhubSymbol === finnhubSymbol);
+                if (!stillWatched && socket?.readyState === WebSocket.OPEN) {
+                    socket.send(JSON.stringify({ type: 'unsubscribe', symbol: finnhubSymbol }));
+                }
+                if (subscriptions.size === 0) {
+                    clearTimeout(reconnectTimer);
+                    const closing = socket;
+                    socket = null;
+                    closing?.close();
+                }
+            };
+        }
+    };
+};
+
+// --- LOCAL FILE REPLAY ---
+
+export interface ReplayOptions {
+    name?: string;
+    historyCount?: number; // Candles served as history; the rest is streamed as ticks
+    tickIntervalMs?: number; // Wall-clock delay between replayed ticks
+}
+
+export const createReplayProvider = (source: Candle[], options: ReplayOptions = {}): MarketDataProvider => {
+    const candles = [...source].sort((a, b) => a.timestamp - b.timestamp);
+    const split = Math.min(candles.length, options.historyCount ?? Math.floor(candles.length * 0.7));
+    const tickInterval = options.tickIntervalMs ?? 250;
+
+    // Four ticks per candle, visiting the wick nearest the open first
+    const toTicks = (c: Candle): Tick[] => {
+        const [first, second] = c.close >= c.open ? [c.low, c.high] : [c.high, c.low];
+        return [
+            { price: c.open, timestamp: c.timestamp },
+            { price: first, timestamp: c.timestamp + 15000 },
+            { price: second, timestamp: c.timestamp + 30000 },
+            { price: c.close, timestamp: c.timestamp + 59000 }
+        ];
+    };
+
+    return {
+        name: options.name || 'File Replay',
+        isRealtime: false,
+
+        async fetchHistory(_symbol, interval, count) {
+            if (timeframeToMinutes(interval) !== 1) throw new Error('Replay provider only serves 1m history');
+            return candles.slice(Math.max(0, split - count), split);
+        },
+
+        subscribeTicks(_symbol, onTick, handlers) {
+            const ticks = candles.slice(split).flatMap(toTicks);
+            // One extra tick in the following minute closes the final candle
+            if (ticks.length > 0) {
+                const last = ticks[ticks.length - 1];
+                ticks.push({ price: last.price, timestamp: Math.floor(last.timestamp / 60000) * 60000 + 60000 });
+            }
+
+            let cursor = 0;
+            handlers?.onStatus?.('CONNECTED');
+            const interval = setInterval(() => {
+                if (cursor >= ticks.length) {
+                    clearInterval(interval);
+                    handlers?.onStatus?.('DISCONNECTED');
+                    return;
+                }
+                onTick(ticks[cursor++]);
+            }, tickInterval);
+
+            return () => clearInterval(interval);
+        }
+    };
+};
+
+// Accepts a JSON array of candles (or TwelveData-style { values: [...] }) or a
+// CSV with a header row: time|timestamp|datetime|date, open, high, low, close[, volume]
+export const parseCandleFile = (text: string, fileName: string = ''): Candle[] => {
+    const trimmed = text.trim();
+    const isJson = fileName.toLowerCase().endsWith('.json') || trimmed.startsWith('[') || trimmed.startsWith('{');
+
+    const toTimestamp = (value: unknown): number => {
+        if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+        const str = String(value).trim();
+        if (/^\d+(\.\d+)?$/.test(str)) return toTimestamp(parseFloat(str));
+        return parseUtcDateTime(str);
+    };
+    // Number('') is 0: an empty cell must not pass as a price
+    const toPrice = (value: unknown): number => (value === undefined || value === null || value === '' ? NaN : Number(value));
+
+    let rows: Record<string, unknown>[];
+    if (isJson) {
+        const parsed = JSON.parse(trimmed);
+        rows = Array.isArray(parsed) ? parsed : parsed.values;
+        if (!Array.isArray(rows)) throw new Error('Expected a JSON array of candles');
+    } else {
+        const lines = trimmed.split(/\r?\n/).filter(l => l.trim() !== '');
+        const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+        rows = lines.slice(1).map(line => {
+            const cells = line.split(',');
+            const row: Record<string, unknown> = {};
+            header.forEach((h, i) => { row[h] = cells[i]?.trim(); });
+            return row;
+        });
+    }
+
+    const candles = rows.map((row, i) => {
+        const rawTime = row.timestamp ?? row.datetime ?? row.date ?? row.time;
+        const timestamp = toTimestamp(rawTime);
+        if (!Number.isFinite(timestamp)) throw new Error(`Invalid candle at row ${i + 1}`);
+        const candle = toCandle(
+            timestamp,
+            toPrice(row.open),
+            toPrice(row.high),
+            toPrice(row.low),
+            toPrice(row.close),
+            Number(row.volume || 0)
+        );
+        if ([candle.open, candle.high, candle.low, candle.close].some(v => !Number.isFinite(v))) {
+            throw new Error(`Invalid candle at row ${i + 1}`);
+        }
+        return candle;
+    });
+
+    return candles.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// --- SYNTHETIC RANDOM WALK ---
+
+// Rough starting levels so every watched symbol walks around a realistic price
+const SYNTHETIC_START_PRICES: Record<string, number> = {
+    'EUR/USD': 1.0850,
+    'GBP/USD': 1.2700,
+    'USD/JPY': 150.00,
+    'XAU/USD': 2350.0
+};
+
+export interface SyntheticOptions {
+    startPrices?: Record<string, number>;
+    volatility?: number; // Std-dev of a single tick move, relative to price
+    ticksPerMinute?: number;
+    tickIntervalMs?: number;
+    env?: SimEnvironment;
+}
+
+export const createSyntheticProvider = (options: SyntheticOptions = {}): MarketDataProvider => {
+    const env = options.env || systemEnvironment;
+    const volatility = options.volatility ?? 0.000037;
+    const ticksPerMinute = options.ticksPerMinute ?? 20;
+    const startPrices = { ...SYNTHETIC_START_PRICES, ...options.startPrices };
+    const prices: Record<string, number> = {};
+
+    // Box-Muller on the injected random source, so seeded runs are reproducible
+    const gaussian = () => {
+        const u = Math.max(env.random(), 1e-12);
+        const v = env.random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    };
+    const step = (symbol: string) => {
+        const price = prices[symbol] ?? startPrices[symbol] ?? 1;
+        prices[symbol] = Math.max(price * 0.5, price * (1 + gaussian() * volatility));
+        return prices[symbol];
+    };
+
+    return {
+        name: 'Synthetic Random Walk',
+        isRealtime: true,
+
+        async fetchHistory(symbol, interval, count) {
+            const minutes = timeframeToMinutes(interval);
+            const intervalMs = minutes * 60000;
+            const end = Math.floor(env.now() / intervalMs) * intervalMs;
+            const candles: Candle[] = [];
+            for (let i = count; i > 0; i--) {
+                const open = step(symbol);
+                let high = open, low = open, close = open;
+                for (let t = 1; t < ticksPerMinute * minutes; t++) {
+                    close = step(symbol);
+                    high = Math.max(high, close);
+                    low = Math.min(low, close);
+                }
+                candles.push(toCandle(end - i * intervalMs, open, high, low, close, ticksPerMinute * minutes));
+            }
+            return candles;
+        },
+
+        subscribeTicks(symbol, onTick, handlers) {
+            handlers?.onStatus?.('CONNECTED');
+            const interval = setInterval(() => {
+                onTick({ price: step(symbol), timestamp: env.now() });
+            }, options.tickIntervalMs ?? Math.floor(60000 / ticksPerMinute));
+            return () => {
+                clearInterval(interval);
+                handlers?.onStatus?.('DISCONNECTED');
+            };
+        }
+    };
+};
+
+// --- COMPOSITION ---
+
+// History from one provider, live ticks from another (e.g. TwelveData + Finnhub)
+export const combineProviders = (history: MarketDataProvider, ticks: MarketDataProvider): MarketDataProvider => ({
+    name: `${history.name} + ${ticks.name}`,
+    isRealtime: ticks.isRealtime,
+    fetchHistory: (symbol, interval, count) => history.fetchHistory(symbol, interval, count),
+    subscribeTicks: (symbol, onTick, handlers) => ticks.subscribeTicks(symbol, onTick, handlers)
+});
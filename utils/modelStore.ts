@@ -0,0 +1,107 @@
+import * as tf from '@tensorflow/tfjs';
+import { ModelVersion } from '../types';
+import { LSTMModelData, LSTMModelMeta, getLSTMModelMeta } from './simulation';
+import { EnsembleMember } from './ensemble';
+import { createObjectStore } from './indexedDb';
+
+// --- LSTM MODEL STORE (IndexedDB) ---
+// Weights go through tfjs `model.save('indexeddb://...')` with the feature
+// list, window size and scalers attached as user-defined metadata; the version
+// records (trigger, training range, validation metrics, live hit rate) live in
+// their own store. Ensemble GRU / CNN members are saved next to the LSTM as
+// `<id>-<member>`; the other members are small enough to ride in its metadata.
+
+const DB_NAME = 'eurusd-bot-models';
+const DB_VERSION = 1;
+const STORE = 'versions';
+
+const modelUrl = (id: string) => `indexeddb://eurusd-bot-lstm/${id}`;
+const memberUrl = (id: string, member: string) => `${modelUrl(id)}-${member}`;
+
+// Sequence members are listed by id only, their weights live at memberUrl()
+type StoredMember = Exclude<EnsembleMember, { kind: 'SEQUENCE' }> | { id: 'gru' | 'cnn'; kind: 'SEQUENCE' };
+
+interface StoredModelMetadata extends LSTMModelMeta {
+    members?: StoredMember[];
+}
+
+const runTransaction = createObjectStore({ database: DB_NAME, version: DB_VERSION, store: STORE, indexes: ['symbol'] });
+
+export const createModelVersionId = (symbol: string, now: number): string =>
+    `lstm_${symbol.replace(/[^A-Za-z0-9]/g, '')}_${now}`;
+
+// Newest first; all symbols when `symbol` is omitted
+export const listModelVersions = async (symbol?: string): Promise<ModelVersion[]> => {
+    const rows = await runTransaction<ModelVersion[]>('readonly', store =>
+        symbol ? store.index('symbol').getAll(symbol) : store.getAll()
+    );
+    return (rows || []).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveModelVersion = async (version: ModelVersion, modelData: LSTMModelData): Promise<void> => {
+    const members = modelData.members || [];
+    for (const m of members) {
+        if (m.kind !== 'SEQUENCE') continue;
+        m.model.model.setUserDefinedMetadata(getLSTMModelMeta(m.model));
+        await m.model.model.save(memberUrl(version.id, m.id));
+    }
+    const metadata: StoredModelMetadata = {
+        ...getLSTMModelMeta(modelData),
+        version: version.id,
+        members: members.map(m => (m.kind === 'SEQUENCE' ? { id: m.id, kind: m.kind } : m))
+    };
+    modelData.model.setUserDefinedMetadata(metadata);
+    await modelData.model.save(modelUrl(version.id));
+    await runTransaction('readwrite', store => { store.put(version); });
+};
+
+// Live hit counters change every candle; the weights don't
+export const updateModelLiveStats = async (id: string, live: ModelVersion['live']): Promise<void> => {
+    await runTransaction('readwrite', store => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+            if (request.result) store.put({ ...request.result, live });
+        };
+    });
+};
+
+export const loadModel = async (id: string): Promise<LSTMModelData> => {
+    const model = await tf.loadLayersModel(modelUrl(id));
+    const metadata = model.getUserDefinedMetadata() as StoredModelMetadata | undefined;
+    if (!metadata) throw new Error(`Model ${id} has no normalisation metadata`);
+    // Single-feature models saved before the multivariate LSTM
+    if (!metadata.features) {
+        model.dispose();
+        throw new Error(`Model ${id} uses an outdated format, retraining`);
+    }
+    const { members: stored, ...meta } = metadata;
+    const members: EnsembleMember[] = [];
+    try {
+        for (const m of stored || []) {
+            if (m.kind !== 'SEQUENCE') {
+                members.push(m);
+                continue;
+            }
+            const memberModel = await tf.loadLayersModel(memberUrl(id, m.id));
+            members.push({ id: m.id, kind: m.kind, model: { model: memberModel, ...(memberModel.getUserDefinedMetadata() as LSTMModelMeta) } });
+        }
+    } catch (err) {
+        model.dispose();
+        members.forEach(m => { if (m.kind === 'SEQUENCE') m.model.model.dispose(); });
+        throw err;
+    }
+    return { model, ...meta, members };
+};
+
+export const deleteModelVersion = async (id: string): Promise<void> => {
+    const urls = Object.keys(await tf.io.listModels().catch(() => ({})))
+        .filter(url => url === modelUrl(id) || url.startsWith(`${modelUrl(id)}-`));
+    for (const url of urls) await tf.io.removeModel(url).catch(() => undefined);
+    await runTransaction('readwrite', store => { store.delete(id); });
+};
+
+// Drops all but the newest `keep` versions of a symbol
+export const pruneModelVersions = async (symbol: string, keep: number): Promise<void> => {
+    const versions = await listModelVersions(symbol);
+    for (const version of versions.slice(keep)) await deleteModelVersion(version.id);
+};
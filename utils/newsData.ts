@@ -0,0 +1,432 @@
+import { EconomicEvent, NewsItem, NewsSettings } from '../types';
+import { SimEnvironment, systemEnvironment } from './environment';
+import type { ConnectionStatus, ProviderLogger, Unsubscribe } from './marketData';
+import { HeadlineClassifier, classifyHeadline } from './headlineSentiment';
+
+// --- NEWS SOURCES ---
+// Headlines reach MarketSentiment through one interface, like prices do
+// through MarketDataProvider: RSS / Atom / JSON headline feeds, a JSON economic
+// calendar (CPI, NFP, FOMC, ECB releases scored by their surprise) and the
+// random headline generator, kept as an explicitly simulated source.
+
+export interface NewsSubscriptionHandlers {
+    onStatus?: (status: ConnectionStatus) => void;
+    onCalendar?: (events: EconomicEvent[]) => void; // Tracked events after every calendar poll
+}
+
+export interface NewsSource {
+    readonly name: string; // Shown in the news ticker
+    readonly isSimulated: boolean;
+    subscribe(onNews: (item: NewsItem) => void, handlers?: NewsSubscriptionHandlers): Unsubscribe;
+    advance?(): void; // Emits what is due on the source's clock; called whenever a data clock moves
+}
+
+const noopLog: ProviderLogger = () => {};
+
+const FEED_POLL_MS = 5 * 60 * 1000;
+const CALENDAR_POLL_MS = 5 * 60 * 1000;
+const MAX_NEWS_AGE_MS = 60 * 60 * 1000; // Older headlines / releases are not fed into sentiment
+const MAX_ITEMS_PER_POLL = 5;
+const SEEN_LIMIT = 500;
+
+// Numbers are Unix seconds or ms; strings without a zone are read as UTC
+const parseTime = (value: unknown): number | null => {
+    if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+    if (typeof value !== 'string' || !value.trim()) return null;
+    const text = value.trim();
+    const iso = /^\d{4}-\d\d-\d\d \d/.test(text) ? text.replace(' ', 'T') : text;
+    const zoned = !/^\d{4}-\d\d-\d\dT[\d:.]+$/.test(iso);
+    const time = new Date(zoned ? iso : iso + 'Z').getTime();
+    return Number.isFinite(time) ? time : null;
+};
+
+// Remembers the latest SEEN_LIMIT keys, oldest dropped first
+const createSeenSet = () => {
+    const seen = new Set<string>();
+    return (key: string): boolean => {
+        if (seen.has(key)) return true;
+        seen.add(key);
+        if (seen.size > SEEN_LIMIT) seen.delete(seen.values().next().value as string);
+        return false;
+    };
+};
+
+// Runs `poll` now and every `intervalMs`, reporting the connection status
+const startPolling = (poll: () => Promise<void>, intervalMs: number, handlers?: NewsSubscriptionHandlers): Unsubscribe => {
+    let stopped = false;
+    const run = async () => {
+        try {
+            await poll();
+            if (!stopped) handlers?.onStatus?.('CONNECTED');
+        } catch (e) {
+            if (!stopped) handlers?.onStatus?.('DISCONNECTED');
+        }
+    };
+    handlers?.onStatus?.('CONNECTING');
+    run();
+    const interval = setInterval(run, intervalMs);
+    return () => {
+        stopped = true;
+        clearInterval(interval);
+    };
+};
+
+// --- SIMULATED HEADLINES ---
+
+// Unlabelled, they go through the same classifier as feed headlines
+export const NEWS_TEMPLATES = [
+    "US CPI Inflation data shows cooling trend",
+    "Federal Reserve hints at interest rate hold",
+    "ECB President Lagarde warning on Eurozone growth",
+    "US Jobless claims higher than expected",
+    "Geopolitical tensions easing in key regions",
+    "Tech sector rally boosting market confidence",
+    "Crude Oil inventory surplus reported",
+    "Market consolidation ahead of FOMC minutes",
+    "Retail Sales data disappoints analysts",
+    "German Manufacturing PMI beats expectations"
+];
+
+export const SIMULATED_NEWS_SOURCE = 'Simulation';
+
+export const generateMarketNews = (env: SimEnvironment = systemEnvironment, classify: HeadlineClassifier = classifyHeadline): NewsItem => {
+    const headline = NEWS_TEMPLATES[Math.floor(env.random() * NEWS_TEMPLATES.length)];
+    return { headline, ...classify(headline), timestamp: env.now(), source: SIMULATED_NEWS_SOURCE };
+};
+
+export interface SimulatedNewsOptions {
+    env?: SimEnvironment;
+    classify?: HeadlineClassifier;
+    minIntervalMs?: number;
+    maxIntervalMs?: number;
+}
+
+const SIMULATED_CHECK_MS = 1000;
+
+// One headline right away, then one every 3-5 minutes (interval drawn once) of
+// env time, so replayed feeds get their headlines by data time. advance() emits
+// the ones due; a wall-clock check covers clocks nobody advances (live).
+export const createSimulatedNewsSource = (options: SimulatedNewsOptions = {}): NewsSource => {
+    const env = options.env || systemEnvironment;
+    const min = options.minIntervalMs ?? 180000;
+    const max = options.maxIntervalMs ?? 300000;
+    let emit: ((item: NewsItem) => void) | null = null;
+    let intervalTime = 0;
+    let nextAt = 0;
+
+    const advance = () => {
+        if (!emit) return;
+        const now = env.now();
+        if (now - nextAt > intervalTime) nextAt = now; // The clock jumped (history loaded): resume from now
+        while (nextAt <= now) {
+            emit({ ...generateMarketNews(env, options.classify), timestamp: nextAt });
+            nextAt += intervalTime;
+        }
+    };
+
+    return {
+        name: SIMULATED_NEWS_SOURCE,
+        isSimulated: true,
+        advance,
+
+        subscribe(onNews, handlers) {
+            handlers?.onStatus?.('CONNECTED');
+            emit = onNews;
+            onNews(generateMarketNews(env, options.classify));
+            intervalTime = Math.floor(env.random() * (max - min + 1) + min);
+            nextAt = env.now() + intervalTime;
+            const interval = setInterval(advance, SIMULATED_CHECK_MS);
+            return () => {
+                clearInterval(interval);
+                emit = null;
+            };
+        }
+    };
+};
+
+// --- RSS / ATOM / JSON HEADLINE FEEDS ---
+
+export interface FeedHeadline {
+    headline: string;
+    timestamp: number | null;
+    source?: string;
+}
+
+const decodeXml = (text: string): string =>
+    text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const readTag = (xml: string, tags: string[]): string | undefined => {
+    for (const tag of tags) {
+        const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+        if (match) return decodeXml(match[1]);
+    }
+    return undefined;
+};
+
+// RSS <item> and Atom <entry> elements; enough for headline feeds, not a full XML parser
+export const parseRssFeed = (xml: string): FeedHeadline[] => {
+    const blocks = xml.match(/<(item|entry)[\s>][\s\S]*?<\/\1>/gi) || [];
+    return blocks
+        .map(block => ({
+            headline: readTag(block, ['title']) || '',
+            timestamp: parseTime(readTag(block, ['pubDate', 'published', 'updated', 'dc:date'])),
+            source: readTag(block, ['source'])
+        }))
+        .filter(h => h.headline);
+};
+
+// Arrays of articles, bare or under items / articles / data / results
+// (Finnhub /news, NewsAPI, JSON Feed and most custom proxies)
+export const parseJsonFeed = (data: any): FeedHeadline[] => {
+    const list = Array.isArray(data) ? data : data?.items || data?.articles || data?.data || data?.results || [];
+    if (!Array.isArray(list)) return [];
+    return list
+        .map((item: any) => ({
+            headline: String(item?.headline ?? item?.title ?? '').trim(),
+            timestamp: parseTime(item?.datetime ?? item?.publishedAt ?? item?.pubDate ?? item?.date_published ?? item?.published ?? item?.date ?? item?.time),
+            source: typeof item?.source === 'string' ? item.source : item?.source?.name
+        }))
+        .filter((h: FeedHeadline) => h.headline);
+};
+
+export interface FeedNewsOptions {
+    url: string;
+    name?: string; // Defaults to the feed's host
+    pollIntervalMs?: number;
+    classify?: HeadlineClassifier; // Defaults to the lexicon classifier
+    env?: SimEnvironment;
+    onLog?: ProviderLogger;
+}
+
+// Polls one feed; the format is detected from the body (XML vs JSON)
+export const createFeedNewsSource = (options: FeedNewsOptions): NewsSource => {
+    const env = options.env || systemEnvironment;
+    const log = options.onLog || noopLog;
+    const classify = options.classify || classifyHeadline;
+    let name = options.name || options.url;
+    try {
+        name = options.name || new URL(options.url).host;
+    } catch (e) {
+        // Keep the raw URL as the name
+    }
+
+    return {
+        name,
+        isSimulated: false,
+
+        subscribe(onNews, handlers) {
+            const isSeen = createSeenSet();
+            return startPolling(async () => {
+                let headlines: FeedHeadline[];
+                try {
+                    const response = await fetch(options.url);
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    const body = await response.text();
+                    headlines = body.trimStart().startsWith('<') ? parseRssFeed(body) : parseJsonFeed(JSON.parse(body));
+                } catch (e) {
+                    log('WARNING', `News feed ${name} failed: ${(e as any).message}`);
+                    throw e;
+                }
+
+                const now = env.now();
+                headlines
+                    .filter(h => !isSeen(h.headline.toLowerCase()))
+                    .map(h => ({ ...h, timestamp: h.timestamp ?? now }))
+                    .filter(h => now - h.timestamp <= MAX_NEWS_AGE_MS)
+                    .sort((a, b) => a.timestamp - b.timestamp)
+                    .slice(-MAX_ITEMS_PER_POLL)
+                    .forEach(h => onNews({ headline: h.headline, ...classify(h.headline), timestamp: h.timestamp, source: h.source || name }));
+            }, options.pollIntervalMs ?? FEED_POLL_MS, handlers);
+        }
+    };
+};
+
+// --- ECONOMIC CALENDAR ---
+
+const EVENT_KINDS: { kind: EconomicEvent['kind']; pattern: RegExp; currencies: EconomicEvent['currency'][] }[] = [
+    { kind: 'NFP', pattern: /non-?farm|\bNFP\b/i, currencies: ['USD'] },
+    { kind: 'FOMC', pattern: /\bFOMC\b|federal funds|fed interest rate/i, currencies: ['USD'] },
+    { kind: 'ECB', pattern: /\bECB\b|main refinancing|deposit facility rate/i, currencies: ['EUR'] },
+    { kind: 'CPI', pattern: /\bCPI\b|consumer price/i, currencies: ['USD', 'EUR'] }
+];
+
+const toCurrency = (value: unknown): EconomicEvent['currency'] | null => {
+    const code = String(value ?? '').trim().toUpperCase();
+    if (['USD', 'US', 'UNITED STATES'].includes(code)) return 'USD';
+    if (['EUR', 'EU', 'EMU', 'EZ', 'EA', 'EURO AREA', 'EUROZONE'].includes(code)) return 'EUR';
+    return null;
+};
+
+const toImpact = (value: unknown): NewsItem['impact'] => {
+    const impact = String(value ?? '').toLowerCase();
+    if (impact === 'high' || impact === '3') return 'HIGH';
+    if (impact === 'medium' || impact === '2') return 'MEDIUM';
+    return 'LOW';
+};
+
+// "3.2%", "216K", -0.1 -> number + unit
+const parseValue = (value: unknown): { value?: number; unit?: string } => {
+    if (typeof value === 'number') return Number.isFinite(value) ? { value } : {};
+    const match = String(value ?? '').trim().match(/^([<>]?)(-?[\d.,]+)\s*([%A-Za-z]*)$/);
+    if (!match) return {};
+    const number = parseFloat(match[2].replace(/,/g, ''));
+    return Number.isFinite(number) ? { value: number, unit: match[3] || undefined } : {};
+};
+
+// ForexFactory-style arrays ({title, country, date, impact, forecast, previous, actual})
+// or Finnhub's {economicCalendar: [{event, country, time, impact, estimate, prev, actual, unit}]}.
+// Only CPI, NFP, FOMC and ECB releases for USD / EUR are kept.
+export const parseEconomicCalendar = (data: any): EconomicEvent[] => {
+    const list = Array.isArray(data) ? data : data?.economicCalendar || data?.events || data?.data || [];
+    if (!Array.isArray(list)) return [];
+    const events: EconomicEvent[] = [];
+    list.forEach((raw: any) => {
+        const title = String(raw?.event ?? raw?.title ?? raw?.name ?? '').trim();
+        const currency = toCurrency(raw?.currency ?? raw?.country);
+        const timestamp = parseTime(raw?.time ?? raw?.date ?? raw?.datetime);
+        if (!title || !currency || timestamp === null) return;
+        const match = EVENT_KINDS.find(k => k.pattern.test(title) && k.currencies.includes(currency));
+        if (!match) return;
+        const actual = parseValue(raw?.actual);
+        const forecast = parseValue(raw?.forecast ?? raw?.estimate);
+        const previous = parseValue(raw?.previous ?? raw?.prev);
+        events.push({
+            id: `${match.kind}-${currency}-${timestamp}-${title}`,
+            kind: match.kind,
+            title,
+            currency,
+            timestamp,
+            impact: toImpact(raw?.impact),
+            actual: actual.value,
+            forecast: forecast.value,
+            previous: previous.value,
+            unit: raw?.unit || actual.unit || forecast.unit || previous.unit
+        });
+    });
+    return events.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Above forecast (or the previous value without one) is bullish for the
+// releasing currency: hotter inflation, stronger payrolls, higher rates.
+// Returned as EUR/USD sentiment.
+export const getReleaseSentiment = (event: EconomicEvent): NewsItem['sentiment'] => {
+    const expected = event.forecast ?? event.previous;
+    if (event.actual === undefined || expected === undefined || event.actual === expected) return 'NEUTRAL';
+    const currencyBullish = event.actual > expected;
+    return currencyBullish === (event.currency === 'EUR') ? 'POSITIVE' : 'NEGATIVE';
+};
+
+const formatEventValue = (value: number | undefined, unit?: string) => (value === undefined ? '—' : `${value}${unit || ''}`);
+
+export const formatEventRelease = (event: EconomicEvent): string =>
+    `${event.currency} ${event.title}: ${formatEventValue(event.actual, event.unit)} vs ${formatEventValue(event.forecast, event.unit)} forecast`
+    + ` (prev ${formatEventValue(event.previous, event.unit)})`;
+
+export interface EconomicCalendarOptions {
+    url: string;
+    name?: string;
+    pollIntervalMs?: number;
+    env?: SimEnvironment;
+    onLog?: ProviderLogger;
+}
+
+// Reports the tracked schedule after every poll and turns each new release
+// (actual published) into a headline scored by its surprise
+export const createEconomicCalendarSource = (options: EconomicCalendarOptions): NewsSource => {
+    const env = options.env || systemEnvironment;
+    const log = options.onLog || noopLog;
+    const name = options.name || 'Economic Calendar';
+
+    return {
+        name,
+        isSimulated: false,
+
+        subscribe(onNews, handlers) {
+            const isReleased = createSeenSet();
+            return startPolling(async () => {
+                let events: EconomicEvent[];
+                try {
+                    const response = await fetch(options.url);
+                    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                    events = parseEconomicCalendar(await response.json());
+                } catch (e) {
+                    log('WARNING', `${name} failed: ${(e as any).message}`);
+                    throw e;
+                }
+
+                handlers?.onCalendar?.(events);
+                const now = env.now();
+                events
+                    .filter(e => e.actual !== undefined && !isReleased(e.id))
+                    .filter(e => now - e.timestamp <= MAX_NEWS_AGE_MS)
+                    .forEach(e => onNews({
+                        headline: formatEventRelease(e),
+                        sentiment: getReleaseSentiment(e),
+                        impact: e.impact,
+                        timestamp: e.timestamp,
+                        source: name,
+                        event: e
+                    }));
+            }, options.pollIntervalMs ?? CALENDAR_POLL_MS, handlers);
+        }
+    };
+};
+
+// --- COMPOSITION ---
+
+export const combineNewsSources = (sources: NewsSource[]): NewsSource => ({
+    name: sources.map(s => s.name).join(' + '),
+    isSimulated: sources.every(s => s.isSimulated),
+
+    subscribe(onNews, handlers) {
+        // Connected once every source is; disconnected as soon as one is
+        const statuses: ConnectionStatus[] = sources.map(() => 'CONNECTING');
+        const report = () => handlers?.onStatus?.(
+            statuses.includes('DISCONNECTED') ? 'DISCONNECTED' : statuses.every(s => s === 'CONNECTED') ? 'CONNECTED' : 'CONNECTING'
+        );
+        const unsubscribes = sources.map((source, i) => source.subscribe(onNews, {
+            onCalendar: handlers?.onCalendar,
+            onStatus: status => {
+                statuses[i] = status;
+                report();
+            }
+        }));
+        return () => unsubscribes.forEach(u => u());
+    },
+
+    advance() {
+        sources.forEach(s => s.advance?.());
+    }
+});
+
+export interface NewsSourceOptions {
+    env?: SimEnvironment;
+    classify?: HeadlineClassifier;
+    onLog?: ProviderLogger;
+}
+
+// Source for the news settings; FEEDS without any URL falls back to the simulation
+export const createNewsSource = (settings: NewsSettings, options: NewsSourceOptions = {}): NewsSource => {
+    const simulated = createSimulatedNewsSource({ env: options.env, classify: options.classify });
+    if (settings.source === 'SIMULATED') return simulated;
+
+    const sources: NewsSource[] = settings.feedUrls.map(url => createFeedNewsSource({ url, ...options }));
+    if (settings.calendarUrl) {
+        sources.push(createEconomicCalendarSource({ url: settings.calendarUrl, env: options.env, onLog: options.onLog }));
+    }
+    if (sources.length === 0) {
+        options.onLog?.('WARNING', 'No news feed or calendar URL configured. Using simulated headlines.');
+        return simulated;
+    }
+    return sources.length === 1 ? sources[0] : combineNewsSources(sources);
+};
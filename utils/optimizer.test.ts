@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ParameterRange, countGridCandidates, generateCandidates, splitFolds } from './optimizer';
+
+const SPACE: ParameterRange[] = [
+    { path: 'signal.threshold', min: 40, max: 80, step: 5 }, // 9 values
+    { path: 'indicators.rsiPeriod', min: 7, max: 21, step: 1 }, // 15 values
+    { path: 'indicators.macdFast', min: 6, max: 15, step: 1 } // 10 values
+];
+
+describe('splitFolds', () => {
+    it('keeps train and test windows apart and covers the data in order', () => {
+        const length = 3001;
+        const warmup = 200;
+        const windows = splitFolds(length, 3, 0.7, warmup);
+        expect(windows).toHaveLength(3);
+
+        const segments = windows.flatMap(w => [w.inSample, w.outOfSample]);
+        expect(segments[0].start).toBe(warmup);
+        segments.forEach((segment, i) => {
+            expect(segment.end).toBeGreaterThan(segment.start);
+            if (i > 0) expect(segment.start).toBe(segments[i - 1].end);
+        });
+        // Only the remainder of the division into folds is left out
+        expect(length - segments[segments.length - 1].end).toBeLessThan(3);
+        windows.forEach(w => expect(w.outOfSample.end - w.outOfSample.start).toBe(300));
+    });
+
+    it('rejects series too short to warm up every segment', () => {
+        expect(() => splitFolds(1000, 3, 0.7, 200)).toThrow('Not enough candles for 3 folds with 200 warmup (got 1000)');
+    });
+});
+
+describe('generateCandidates', () => {
+    const values = (candidates: Record<string, number>[], path: string) => new Set(candidates.map(c => c[path]));
+
+    it('enumerates a grid that fits within the cap', () => {
+        const small = SPACE.slice(0, 2);
+        const candidates = generateCandidates(small, 'GRID', 200, 1);
+        expect(candidates).toHaveLength(countGridCandidates(small));
+        expect(new Set(candidates.map(c => JSON.stringify(c))).size).toBe(135);
+    });
+
+    it('samples a capped grid without duplicates, covering every axis', () => {
+        const candidates = generateCandidates(SPACE, 'GRID', 60, 1);
+        expect(countGridCandidates(SPACE)).toBe(1350);
+        expect(candidates).toHaveLength(60);
+        expect(new Set(candidates.map(c => JSON.stringify(c))).size).toBe(60);
+        expect(values(candidates, 'signal.threshold').size).toBe(9);
+        expect(values(candidates, 'indicators.rsiPeriod').size).toBe(15);
+        expect(values(candidates, 'indicators.macdFast').size).toBe(10);
+    });
+
+    it('spreads capped grid samples evenly along each axis', () => {
+        const samples = 90;
+        const candidates = generateCandidates(SPACE, 'GRID', samples, 1);
+        SPACE.forEach(range => {
+            const counts = new Map<number, number>();
+            candidates.forEach(c => counts.set(c[range.path], (counts.get(c[range.path]) || 0) + 1));
+            const share = samples / counts.size;
+            counts.forEach(n => {
+                expect(n).toBeGreaterThanOrEqual(share * 0.6);
+                expect(n).toBeLessThanOrEqual(share * 1.4);
+            });
+        });
+    });
+
+    it('draws the same random candidates for the same seed', () => {
+        expect(generateCandidates(SPACE, 'RANDOM', 20, 7)).toEqual(generateCandidates(SPACE, 'RANDOM', 20, 7));
+        expect(generateCandidates(SPACE, 'RANDOM', 20, 7)).not.toEqual(generateCandidates(SPACE, 'RANDOM', 20, 8));
+    });
+});
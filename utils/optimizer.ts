@@ -0,0 +1,289 @@
+import { Candle, StrategyConfig } from '../types';
+import { runBacktest } from './backtest';
+import { createSeededRandom } from './environment';
+import { getConfigVersion, setConfigParam, validateStrategyConfig } from './strategyConfig';
+import { StrategyPluginState, createDefaultRegistry } from './strategies';
+
+// --- PARAMETER OPTIMISER (walk-forward) ---
+// The 1m series is cut into consecutive folds; each fold is split into an
+// in-sample (IS) and out-of-sample (OOS) part. Every candidate StrategyConfig
+// is backtested on both, and candidates are ranked by OOS results only.
+// Runs inside utils/optimizer.worker.ts, see utils/optimizerClient.ts.
+
+export interface ParameterRange {
+    path: string; // Dotted StrategyConfig path, e.g. 'signal.threshold'
+    min: number;
+    max: number;
+    step: number;
+}
+
+export interface OptimizerOptions {
+    baseConfig: StrategyConfig;
+    space: ParameterRange[];
+    method: 'GRID' | 'RANDOM';
+    samples?: number; // RANDOM: candidates drawn (default 30). GRID: hard cap, spread evenly over the grid.
+    folds?: number; // Walk-forward windows (default 3)
+    inSampleRatio?: number; // IS share of each fold (default 0.7)
+    warmup?: number; // 1m candles replayed before each segment is scored (default 200)
+    minTrades?: number; // OOS trades needed to rank normally (default 10)
+    overfitGap?: number; // IS - OOS win-rate points that flag overfitting (default 10)
+    seed?: number;
+    symbol?: string;
+    pluginState?: Record<string, StrategyPluginState>;
+}
+
+export interface SegmentResult {
+    trades: number;
+    wins: number;
+    pnl: number;
+    winRate: number; // 0-100
+    expectancy: number; // Mean pnl per trade, stake units
+}
+
+export interface CandidateResult {
+    params: Record<string, number>; // path -> value
+    configVersion: string;
+    inSample: SegmentResult;
+    outOfSample: SegmentResult;
+    folds: { inSample: SegmentResult; outOfSample: SegmentResult }[];
+    overfit: boolean;
+    insufficientTrades: boolean;
+}
+
+export interface FoldWindow {
+    inSample: { start: number; end: number }; // Candle indices, end exclusive
+    outOfSample: { start: number; end: number };
+}
+
+export interface FoldSelection {
+    fold: number;
+    bestParams: Record<string, number>; // Best IS candidate for this fold
+    inSample: SegmentResult;
+    outOfSample: SegmentResult; // How that choice did on unseen data
+}
+
+export interface OptimizerReport {
+    ranked: CandidateResult[]; // Best OOS first; insufficient-trade candidates last
+    walkForward: FoldSelection[];
+    walkForwardEfficiency: number; // OOS expectancy / IS expectancy of the per-fold IS winners
+    candlesUsed: number;
+    evaluated: number;
+}
+
+const DEFAULT_SAMPLES = 30;
+
+// --- CANDIDATE GENERATION ---
+
+const rangeValues = (range: ParameterRange): number[] => {
+    const values: number[] = [];
+    if (!(range.step > 0) || range.max < range.min) return [range.min];
+    for (let v = range.min; v <= range.max + range.step / 1e6; v += range.step) {
+        values.push(Number(v.toFixed(10)));
+    }
+    return values;
+};
+
+// Radical inverse of `index` in `base`: a low-discrepancy sequence in [0, 1)
+const halton = (index: number, base: number): number => {
+    let result = 0;
+    for (let f = 1 / base, i = index; i > 0; i = Math.floor(i / base), f /= base) result += f * (i % base);
+    return result;
+};
+
+const firstPrimes = (count: number): number[] => {
+    const primes: number[] = [];
+    for (let n = 2; primes.length < count; n++) {
+        if (primes.every(p => n % p !== 0)) primes.push(n);
+    }
+    return primes;
+};
+
+export const countGridCandidates = (space: ParameterRange[]): number => {
+    return space.reduce((n, r) => n * rangeValues(r).length, 1);
+};
+
+export const generateCandidates = (space: ParameterRange[], method: OptimizerOptions['method'], samples: number, seed: number): Record<string, number>[] => {
+    const axes = space.map(r => ({ path: r.path, values: rangeValues(r) }));
+    if (method === 'RANDOM') {
+        const random = createSeededRandom(seed);
+        const seen = new Set<string>();
+        const out: Record<string, number>[] = [];
+        // Stop after enough misses when the space is smaller than `samples`
+        for (let attempts = 0; out.length < samples && attempts < samples * 20; attempts++) {
+            const params: Record<string, number> = {};
+            axes.forEach(a => { params[a.path] = a.values[Math.floor(random() * a.values.length)]; });
+            const key = JSON.stringify(params);
+            if (!seen.has(key)) {
+                seen.add(key);
+                out.push(params);
+            }
+        }
+        return out;
+    }
+
+    const total = countGridCandidates(space);
+    if (total <= samples) {
+        let grid: Record<string, number>[] = [{}];
+        axes.forEach(a => {
+            grid = grid.flatMap(params => a.values.map(v => ({ ...params, [a.path]: v })));
+        });
+        return grid;
+    }
+
+    // Larger grids: Halton points (one prime base per axis) snapped to the grid,
+    // so every axis is covered evenly without building the cross product
+    const bases = firstPrimes(axes.length);
+    const seen = new Set<string>();
+    const out: Record<string, number>[] = [];
+    for (let i = 1; out.length < samples && i <= samples * 20; i++) {
+        const params: Record<string, number> = {};
+        axes.forEach((a, k) => { params[a.path] = a.values[Math.floor(halton(i, bases[k]) * a.values.length)]; });
+        const key = JSON.stringify(params);
+        if (!seen.has(key)) {
+            seen.add(key);
+            out.push(params);
+        }
+    }
+    return out;
+};
+
+export const applyParams = (base: StrategyConfig, params: Record<string, number>): StrategyConfig =>
+    Object.keys(params).reduce((config, path) => setConfigParam(config, path, params[path]), base);
+
+// --- SCORING ---
+
+const toSegment = (trades: number, wins: number, pnl: number): SegmentResult => ({
+    trades,
+    wins,
+    pnl,
+    winRate: trades > 0 ? (wins / trades) * 100 : 0,
+    expectancy: trades > 0 ? pnl / trades : 0
+});
+
+const sumSegments = (segments: SegmentResult[]): SegmentResult => {
+    const trades = segments.reduce((n, s) => n + s.trades, 0);
+    const wins = segments.reduce((n, s) => n + s.wins, 0);
+    const pnl = segments.reduce((n, s) => n + s.pnl, 0);
+    return toSegment(trades, wins, pnl);
+};
+
+// OOS win rate first, expectancy breaks ties
+const compareResults = (a: SegmentResult, b: SegmentResult) => (b.winRate - a.winRate) || (b.expectancy - a.expectancy);
+
+// --- WALK-FORWARD ---
+
+// Consecutive folds of equal size, each IS part followed by its OOS part. The
+// first `warmup` candles only prime the indicators; the remainder after the
+// last whole fold is left out.
+export const splitFolds = (length: number, folds: number, inSampleRatio: number, warmup: number): FoldWindow[] => {
+    const foldSize = Math.floor(length / folds);
+    const oosSize = Math.floor(foldSize * (1 - inSampleRatio));
+    if (oosSize <= warmup / 2 || foldSize - oosSize <= warmup) {
+        throw new Error(`Not enough candles for ${folds} folds with ${warmup} warmup (got ${length})`);
+    }
+    return Array.from({ length: folds }, (_, f) => {
+        const foldStart = f * foldSize;
+        const oosStart = foldStart + foldSize - oosSize;
+        return {
+            inSample: { start: Math.max(foldStart, warmup), end: oosStart },
+            outOfSample: { start: oosStart, end: foldStart + foldSize }
+        };
+    });
+};
+
+export const runOptimizer = async (
+    candles: Candle[],
+    options: OptimizerOptions,
+    onProgress?: (done: number, total: number) => void
+): Promise<OptimizerReport> => {
+    const folds = options.folds ?? 3;
+    const inSampleRatio = options.inSampleRatio ?? 0.7;
+    const warmup = options.warmup ?? 200;
+    const minTrades = options.minTrades ?? 10;
+    const overfitGap = options.overfitGap ?? 10;
+    const seed = options.seed ?? 1;
+
+    const series = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    const windows = splitFolds(series.length, folds, inSampleRatio, warmup);
+
+    const candidates = generateCandidates(options.space, options.method, options.samples ?? DEFAULT_SAMPLES, seed);
+    if (candidates.length === 0) throw new Error('Parameter space is empty');
+
+    const registry = createDefaultRegistry();
+    if (options.pluginState) registry.applyState(options.pluginState);
+
+    const total = candidates.length * folds * 2;
+    let done = 0;
+
+    // Each segment starts `warmup` candles early so indicators are primed;
+    // those candles are replayed but never scored.
+    const scoreSegment = async (config: StrategyConfig, start: number, end: number): Promise<SegmentResult> => {
+        const from = Math.max(0, start - warmup);
+        const report = await runBacktest(series.slice(from, end), {
+            symbol: options.symbol,
+            config,
+            registry,
+            warmup: start - from,
+            seed
+        });
+        done++;
+        onProgress?.(done, total);
+        return toSegment(report.total, report.wins, report.pnl);
+    };
+
+    const results: CandidateResult[] = [];
+    for (const params of candidates) {
+        const config = applyParams(options.baseConfig, params);
+        const errors = validateStrategyConfig(config);
+        if (errors.length > 0) {
+            done += folds * 2;
+            continue; // e.g. macdFast >= macdSlow from independent ranges
+        }
+
+        const foldResults: CandidateResult['folds'] = [];
+        for (const { inSample, outOfSample } of windows) {
+            foldResults.push({
+                inSample: await scoreSegment(config, inSample.start, inSample.end),
+                outOfSample: await scoreSegment(config, outOfSample.start, outOfSample.end)
+            });
+        }
+
+        const inSample = sumSegments(foldResults.map(r => r.inSample));
+        const outOfSample = sumSegments(foldResults.map(r => r.outOfSample));
+        results.push({
+            params,
+            configVersion: getConfigVersion(config, registry.getState()),
+            inSample,
+            outOfSample,
+            folds: foldResults,
+            overfit: inSample.trades > 0 && (
+                inSample.winRate - outOfSample.winRate > overfitGap ||
+                (inSample.expectancy > 0 && outOfSample.expectancy < 0)
+            ),
+            insufficientTrades: outOfSample.trades < minTrades
+        });
+    }
+    onProgress?.(total, total);
+
+    const ranked = [...results].sort((a, b) =>
+        Number(a.insufficientTrades) - Number(b.insufficientTrades) || compareResults(a.outOfSample, b.outOfSample)
+    );
+
+    // Classic walk-forward: pick the best IS candidate per fold, report its OOS
+    const walkForward: FoldSelection[] = [];
+    for (let f = 0; f < folds && results.length > 0; f++) {
+        const best = [...results].sort((a, b) => compareResults(a.folds[f].inSample, b.folds[f].inSample))[0];
+        walkForward.push({ fold: f, bestParams: best.params, inSample: best.folds[f].inSample, outOfSample: best.folds[f].outOfSample });
+    }
+    const wfIn = sumSegments(walkForward.map(w => w.inSample));
+    const wfOut = sumSegments(walkForward.map(w => w.outOfSample));
+
+    return {
+        ranked,
+        walkForward,
+        // Undefined (0) when the IS winners weren't profitable in the first place
+        walkForwardEfficiency: wfIn.expectancy > 0 ? wfOut.expectancy / wfIn.expectancy : 0,
+        candlesUsed: series.length,
+        evaluated: results.length
+    };
+};
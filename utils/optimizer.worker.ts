@@ -0,0 +1,26 @@
+import { Candle } from '../types';
+import { OptimizerOptions, OptimizerReport, runOptimizer } from './optimizer';
+
+// --- OPTIMISER WORKER ---
+// Runs the walk-forward search off the main thread. One RUN per worker;
+// the client terminates the worker to cancel.
+
+export type OptimizerRequest = { type: 'RUN'; candles: Candle[]; options: OptimizerOptions };
+
+export type OptimizerResponse =
+    | { type: 'PROGRESS'; done: number; total: number }
+    | { type: 'RESULT'; report: OptimizerReport }
+    | { type: 'ERROR'; message: string };
+
+const ctx = self as unknown as Worker;
+const reply = (message: OptimizerResponse) => ctx.postMessage(message);
+
+ctx.onmessage = async (event: MessageEvent<OptimizerRequest>) => {
+    const { candles, options } = event.data;
+    try {
+        const report = await runOptimizer(candles, options, (done, total) => reply({ type: 'PROGRESS', done, total }));
+        reply({ type: 'RESULT', report });
+    } catch (err) {
+        reply({ type: 'ERROR', message: (err as any).message });
+    }
+};
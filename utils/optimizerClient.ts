@@ -0,0 +1,48 @@
+import { Candle } from '../types';
+import { OptimizerOptions, OptimizerReport } from './optimizer';
+import type { OptimizerRequest, OptimizerResponse } from './optimizer.worker';
+
+export interface OptimizerJob {
+    result: Promise<OptimizerReport>;
+    cancel: () => void;
+}
+
+// Starts the optimiser in a dedicated Web Worker. cancel() terminates it and
+// rejects `result`.
+export const startOptimizer = (
+    candles: Candle[],
+    options: OptimizerOptions,
+    onProgress?: (done: number, total: number) => void
+): OptimizerJob => {
+    const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+    let rejectJob: (err: Error) => void = () => {};
+
+    const result = new Promise<OptimizerReport>((resolve, reject) => {
+        rejectJob = reject;
+        worker.onmessage = (event: MessageEvent<OptimizerResponse>) => {
+            const msg = event.data;
+            if (msg.type === 'PROGRESS') {
+                onProgress?.(msg.done, msg.total);
+                return;
+            }
+            worker.terminate();
+            if (msg.type === 'RESULT') resolve(msg.report);
+            else reject(new Error(msg.message));
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'Optimizer worker crashed'));
+        };
+    });
+
+    const request: OptimizerRequest = { type: 'RUN', candles, options };
+    worker.postMessage(request);
+
+    return {
+        result,
+        cancel: () => {
+            worker.terminate();
+            rejectJob(new Error('Optimisation cancelled'));
+        }
+    };
+};
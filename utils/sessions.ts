@@ -0,0 +1,132 @@
+import { SessionConfig, TradingSession } from '../types';
+
+// --- TRADING SESSIONS ---
+// FX trades from Sunday 17:00 to Friday 17:00 New York time; the trading day
+// rolls over at 17:00 New York, which is also how holidays are dated. Session
+// hours are local to each centre, so daylight saving is followed per centre.
+
+const STORAGE_KEY = 'eurusd-bot.sessions';
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const MARKET_TIME_ZONE = 'America/New_York';
+const ROLLOVER_HOUR = 17; // New York
+
+export const TRADING_SESSIONS: { id: TradingSession; name: string; timeZone: string; open: number; close: number }[] = [
+    { id: 'SYDNEY', name: 'Sydney', timeZone: 'Australia/Sydney', open: 7, close: 16 },
+    { id: 'TOKYO', name: 'Tokyo', timeZone: 'Asia/Tokyo', open: 9, close: 18 },
+    { id: 'LONDON', name: 'London', timeZone: 'Europe/London', open: 8, close: 17 },
+    { id: 'NEW_YORK', name: 'New York', timeZone: 'America/New_York', open: 8, close: 17 }
+];
+
+export const DEFAULT_SESSION_CONFIG: SessionConfig = {
+    allowed: TRADING_SESSIONS.map(s => s.id),
+    holidays: ['01-01', '12-25']
+};
+
+export interface MarketStatus {
+    open: boolean;
+    closure?: 'WEEKEND' | 'HOLIDAY';
+    sessions: TradingSession[]; // Open centres, none while the market is closed
+    allowed: boolean; // Open, and inside one of the allowed sessions
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+// Weekday (0 = Sunday), fractional hour and YYYY-MM-DD date in a time zone
+const getZonedTime = (timestamp: number, timeZone: string) => {
+    if (!formatters[timeZone]) {
+        formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+            timeZone, hourCycle: 'h23', weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+        });
+    }
+    const parts: Record<string, string> = {};
+    formatters[timeZone].formatToParts(new Date(timestamp)).forEach(p => { parts[p.type] = p.value; });
+    return {
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+        hours: Number(parts.hour) + Number(parts.minute) / 60,
+        date: `${parts.year}-${parts.month}-${parts.day}`
+    };
+};
+
+// Why the market is closed at `timestamp`, null while it trades
+export const getMarketClosure = (timestamp: number, holidays: string[] = DEFAULT_SESSION_CONFIG.holidays): MarketStatus['closure'] | null => {
+    // Shifted so the trading day starting at 17:00 New York carries the next date
+    const day = getZonedTime(timestamp + (24 - ROLLOVER_HOUR) * HOUR_MS, MARKET_TIME_ZONE);
+    if (day.weekday === 0 || day.weekday === 6) return 'WEEKEND';
+    if (holidays.some(h => h === day.date || h === day.date.slice(5))) return 'HOLIDAY';
+    return null;
+};
+
+export const isMarketOpen = (timestamp: number, holidays?: string[]): boolean => getMarketClosure(timestamp, holidays) === null;
+
+// Minutes in [from, to] the market was open. Market hours change on the hour,
+// so the status is looked up once per clock hour.
+export const countOpenMinutes = (from: number, to: number, holidays?: string[]): number => {
+    let minutes = 0;
+    let hour = -1;
+    let open = false;
+    for (let t = from; t <= to; t += MINUTE_MS) {
+        const h = Math.floor(t / HOUR_MS);
+        if (h !== hour) {
+            hour = h;
+            open = isMarketOpen(t, holidays);
+        }
+        if (open) minutes++;
+    }
+    return minutes;
+};
+
+// Centres inside their local business hours, Monday to Friday local time
+export const getActiveSessions = (timestamp: number): TradingSession[] =>
+    TRADING_SESSIONS.filter(s => {
+        const { weekday, hours } = getZonedTime(timestamp, s.timeZone);
+        return weekday >= 1 && weekday <= 5 && hours >= s.open && hours < s.close;
+    }).map(s => s.id);
+
+export const getMarketStatus = (timestamp: number, config: SessionConfig = DEFAULT_SESSION_CONFIG): MarketStatus => {
+    const closure = getMarketClosure(timestamp, config.holidays);
+    if (closure) return { open: false, closure, sessions: [], allowed: false };
+    const sessions = getActiveSessions(timestamp);
+    return { open: true, sessions, allowed: sessions.some(s => config.allowed.includes(s)) };
+};
+
+// 'London / New York' during the overlap; also the per-session analytics key
+export const getSessionLabel = (sessions: TradingSession[]): string =>
+    sessions.length > 0 ? TRADING_SESSIONS.filter(s => sessions.includes(s.id)).map(s => s.name).join(' / ') : 'Off-session';
+
+export const describeMarketStatus = (status: MarketStatus): string => {
+    if (!status.open) return `Market closed (${status.closure === 'HOLIDAY' ? 'holiday' : 'weekend'})`;
+    return getSessionLabel(status.sessions) + (status.allowed ? '' : ' (paused)');
+};
+
+// --- CONFIG ---
+
+export const validateSessionConfig = (config: SessionConfig): string[] => {
+    const errors: string[] = [];
+    if (config.allowed.length === 0) errors.push('Allow at least one session');
+    config.allowed.forEach(s => {
+        if (!TRADING_SESSIONS.some(t => t.id === s)) errors.push(`Unknown session "${s}"`);
+    });
+    config.holidays.forEach(h => {
+        if (!/^(\d{4}-)?(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/.test(h)) errors.push(`Holiday "${h}" must be MM-DD or YYYY-MM-DD`);
+    });
+    return errors;
+};
+
+export const loadSessionConfig = (): SessionConfig => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_SESSION_CONFIG;
+        const merged: SessionConfig = { ...DEFAULT_SESSION_CONFIG, ...JSON.parse(raw) };
+        return validateSessionConfig(merged).length === 0 ? merged : DEFAULT_SESSION_CONFIG;
+    } catch (e) {
+        return DEFAULT_SESSION_CONFIG;
+    }
+};
+
+export const saveSessionConfig = (config: SessionConfig) => {
+    const errors = validateSessionConfig(config);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
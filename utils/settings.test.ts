@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppSettings } from '../types';
+import { getEnvSettings, loadSettings, saveSettings, validateSettings } from './settings';
+
+const ENV_KEY = 'envkey0123456789abcd';
+const OWN_KEY = 'ownkey0123456789abcd';
+const ENV_TOKEN = '123456:' + 'a'.repeat(35);
+
+// Minimal localStorage for the node test environment
+const createStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => { items.set(key, value); },
+        removeItem: (key: string) => { items.delete(key); }
+    };
+};
+
+const load = async (): Promise<AppSettings> => {
+    const result = await loadSettings();
+    if (result.status !== 'OK') throw new Error('Settings are locked');
+    return result.settings;
+};
+
+describe('settings', () => {
+    beforeEach(() => {
+        vi.stubGlobal('localStorage', createStorage());
+        vi.stubEnv('VITE_TWELVEDATA_API_KEYS', ENV_KEY);
+        vi.stubEnv('VITE_TELEGRAM_BOT_TOKEN', ENV_TOKEN);
+        vi.stubEnv('VITE_TELEGRAM_CHAT_ID', '42');
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    it('never stores env values and merges them back after the own ones', async () => {
+        await saveSettings({ ...getEnvSettings(), twelveDataKeys: [OWN_KEY, ENV_KEY] });
+        const stored = localStorage.getItem('eurusd-bot.settings') || '';
+        expect(stored).not.toContain(ENV_KEY);
+        expect(stored).not.toContain(ENV_TOKEN);
+        expect((await load()).twelveDataKeys).toEqual([OWN_KEY, ENV_KEY]);
+    });
+
+    it('lets a cleared or replaced value override env', async () => {
+        const env = getEnvSettings();
+        await saveSettings({ ...env, twelveDataKeys: [OWN_KEY], telegram: { botToken: '', chatId: '@alerts', enabled: false } });
+        const settings = await load();
+        expect(settings.twelveDataKeys).toEqual([OWN_KEY]);
+        expect(settings.telegram).toEqual({ botToken: '', chatId: '@alerts', enabled: false });
+    });
+
+    it('reports invalid env values as warnings, so they do not block a save', async () => {
+        vi.stubEnv('VITE_FINNHUB_API_KEYS', 'short');
+        const settings = getEnvSettings();
+        const { errors, warnings } = validateSettings(settings);
+        expect(errors).toEqual([]);
+        expect(warnings).toContain('Finnhub key #1 has an invalid format (from env)');
+        await expect(saveSettings(settings)).resolves.toBeUndefined();
+        await expect(saveSettings({ ...settings, finnhubKeys: ['short', 'typo'] })).rejects.toThrow('Finnhub key #2 has an invalid format');
+    });
+});
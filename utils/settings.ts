@@ -0,0 +1,255 @@
+import { AppSettings } from '../types';
+
+// --- RUNTIME SETTINGS & CREDENTIALS ---
+// Provider keys, the Telegram config and the news sources come from Vite env variables
+// (VITE_*, see .env.example) and/or the settings panel. User-entered values
+// persist in localStorage, optionally AES-GCM encrypted with a passphrase;
+// values that came from env are never written there.
+
+const STORAGE_KEY = 'eurusd-bot.settings';
+const PBKDF2_ITERATIONS = 150000;
+
+interface StoredSettings {
+    version: 1;
+    encrypted: boolean;
+    data: string; // JSON (plain) or base64 ciphertext (encrypted)
+    salt?: string;
+    iv?: string;
+}
+
+export type SettingsLoadResult =
+    | { status: 'OK'; settings: AppSettings; source: 'STORAGE' | 'ENV' }
+    | { status: 'LOCKED' };
+
+export interface SettingsValidation {
+    errors: string[];
+    warnings: string[];
+}
+
+const splitList = (value: string | undefined): string[] => {
+    return (value || '').split(/[\s,]+/).map(k => k.trim()).filter(Boolean);
+};
+
+export const getEnvSettings = (): AppSettings => {
+    const env = import.meta.env || ({} as ImportMetaEnv);
+    return {
+        twelveDataKeys: splitList(env.VITE_TWELVEDATA_API_KEYS),
+        finnhubKeys: splitList(env.VITE_FINNHUB_API_KEYS),
+        telegram: {
+            botToken: env.VITE_TELEGRAM_BOT_TOKEN || '',
+            chatId: env.VITE_TELEGRAM_CHAT_ID || '',
+            enabled: Boolean(env.VITE_TELEGRAM_BOT_TOKEN && env.VITE_TELEGRAM_CHAT_ID)
+        },
+        news: {
+            // Real feeds as soon as one is configured
+            source: env.VITE_NEWS_FEED_URLS || env.VITE_CALENDAR_URL ? 'FEEDS' : 'SIMULATED',
+            feedUrls: splitList(env.VITE_NEWS_FEED_URLS),
+            calendarUrl: (env.VITE_CALENDAR_URL || '').trim()
+        }
+    };
+};
+
+// What is written to storage: only values that differ from env. A value the
+// user entered, an empty one included, takes precedence over env; a missing
+// one falls back to it. Lists hold the user's own keys, and the env keys are
+// added back unless the list was saved without one of them.
+type KeyList = 'twelveDataKeys' | 'finnhubKeys';
+type StoredAppSettings = Pick<AppSettings, KeyList> & {
+    dropsEnvKeys?: KeyList[];
+    telegram: { botToken?: string; chatId?: string; enabled: boolean };
+    news?: AppSettings['news'];
+};
+
+const KEY_LISTS: KeyList[] = ['twelveDataKeys', 'finnhubKeys'];
+
+const stripEnvValues = (settings: AppSettings): StoredAppSettings => {
+    const env = getEnvSettings();
+    const { telegram, news } = settings;
+    return {
+        twelveDataKeys: settings.twelveDataKeys.filter(k => !env.twelveDataKeys.includes(k)),
+        finnhubKeys: settings.finnhubKeys.filter(k => !env.finnhubKeys.includes(k)),
+        dropsEnvKeys: KEY_LISTS.filter(list => env[list].some(k => !settings[list].includes(k))),
+        telegram: {
+            botToken: telegram.botToken === env.telegram.botToken ? undefined : telegram.botToken,
+            chatId: telegram.chatId === env.telegram.chatId ? undefined : telegram.chatId,
+            enabled: telegram.enabled
+        },
+        news: JSON.stringify(news) === JSON.stringify(env.news) ? undefined : news
+    };
+};
+
+// User keys first, then the env ones
+const mergeWithEnv = (stored: StoredAppSettings): AppSettings => {
+    const env = getEnvSettings();
+    const mergeKeys = (list: KeyList) => stored.dropsEnvKeys?.includes(list)
+        ? stored[list]
+        : [...stored[list], ...env[list].filter(k => !stored[list].includes(k))];
+    return {
+        twelveDataKeys: mergeKeys('twelveDataKeys'),
+        finnhubKeys: mergeKeys('finnhubKeys'),
+        telegram: {
+            botToken: stored.telegram.botToken ?? env.telegram.botToken,
+            chatId: stored.telegram.chatId ?? env.telegram.chatId,
+            enabled: stored.telegram.enabled
+        },
+        news: stored.news ?? env.news // Unchanged from env, or saved before news sources existed
+    };
+};
+
+// --- CRYPTO (WebCrypto PBKDF2 -> AES-GCM) ---
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (str: string): Uint8Array => Uint8Array.from(atob(str), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+const encrypt = async (plain: string, passphrase: string): Promise<StoredSettings> => {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const key = await deriveKey(passphrase, salt);
+    const cipher = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plain));
+    return { version: 1, encrypted: true, data: toBase64(new Uint8Array(cipher)), salt: toBase64(salt), iv: toBase64(iv) };
+};
+
+const decrypt = async (stored: StoredSettings, passphrase: string): Promise<string> => {
+    const key = await deriveKey(passphrase, fromBase64(stored.salt || ''));
+    try {
+        const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv || '') }, key, fromBase64(stored.data));
+        return new TextDecoder().decode(plain);
+    } catch (e) {
+        // AES-GCM auth failure is the only signal we get for a wrong passphrase
+        throw new Error('Incorrect passphrase');
+    }
+};
+
+// --- PERSISTENCE ---
+
+const readStored = (): StoredSettings | null => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) as StoredSettings : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const isSettingsEncrypted = (): boolean => readStored()?.encrypted === true;
+
+export const loadSettings = async (passphrase?: string): Promise<SettingsLoadResult> => {
+    const stored = readStored();
+    if (!stored) return { status: 'OK', settings: getEnvSettings(), source: 'ENV' };
+
+    if (stored.encrypted && !passphrase) return { status: 'LOCKED' };
+
+    const json = stored.encrypted ? await decrypt(stored, passphrase!) : stored.data;
+    return { status: 'OK', settings: mergeWithEnv(JSON.parse(json) as StoredAppSettings), source: 'STORAGE' };
+};
+
+// Persists the values not taken from env; with a passphrase the blob is
+// encrypted at rest. Throws when a value the user entered is invalid, so
+// invalid keys never reach the providers.
+export const saveSettings = async (settings: AppSettings, passphrase?: string): Promise<void> => {
+    const { errors } = validateSettings(settings);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+
+    const json = JSON.stringify(stripEnvValues(settings));
+    const stored: StoredSettings = passphrase
+        ? await encrypt(json, passphrase)
+        : { version: 1, encrypted: false, data: json };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const clearSettings = () => {
+    localStorage.removeItem(STORAGE_KEY);
+};
+
+// --- VALIDATION ---
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+const TELEGRAM_TOKEN_PATTERN = /^\d+:[A-Za-z0-9_-]{30,}$/;
+const TELEGRAM_CHAT_PATTERN = /^(-?\d+|@[A-Za-z0-9_]{5,})$/;
+
+// Values unchanged from env (`env`) can't be fixed in the settings panel:
+// their format problems are warnings, not errors
+export const validateSettings = (settings: AppSettings, env: AppSettings = getEnvSettings()): SettingsValidation => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const report = (fromEnv: boolean, message: string) => {
+        if (fromEnv) warnings.push(`${message} (from env)`);
+        else errors.push(message);
+    };
+
+    const checkKeys = (label: string, keys: string[], envKeys: string[]) => {
+        keys.forEach((k, i) => {
+            if (!KEY_PATTERN.test(k)) report(envKeys.includes(k), `${label} key #${i + 1} has an invalid format`);
+        });
+        if (new Set(keys).size !== keys.length) warnings.push(`${label} list contains duplicate keys`);
+        if (keys.length === 0) warnings.push(`No ${label} keys configured`);
+    };
+    checkKeys('TwelveData', settings.twelveDataKeys, env.twelveDataKeys);
+    checkKeys('Finnhub', settings.finnhubKeys, env.finnhubKeys);
+
+    const tg = settings.telegram;
+    if (tg.botToken && !TELEGRAM_TOKEN_PATTERN.test(tg.botToken)) {
+        report(tg.botToken === env.telegram.botToken, 'Telegram bot token has an invalid format');
+    }
+    if (tg.chatId && !TELEGRAM_CHAT_PATTERN.test(tg.chatId)) {
+        report(tg.chatId === env.telegram.chatId, 'Telegram chat ID must be numeric or an @channel name');
+    }
+    if (tg.enabled && (!tg.botToken || !tg.chatId)) errors.push('Telegram alerts need both a bot token and a chat ID');
+
+    const news = settings.news;
+    const envUrls = [...env.news.feedUrls, env.news.calendarUrl];
+    [...news.feedUrls, news.calendarUrl].filter(Boolean).forEach(url => {
+        if (!/^https?:\/\/\S+$/.test(url)) report(envUrls.includes(url), `News URL "${url}" must start with http:// or https://`);
+    });
+    if (news.source === 'FEEDS' && news.feedUrls.length === 0 && !news.calendarUrl) {
+        warnings.push('No news feed or calendar URL configured, simulated headlines will be used');
+    }
+
+    return { errors, warnings };
+};
+
+// Live check against the provider APIs: returns one message per rejected key
+export const verifySettings = async (settings: AppSettings): Promise<string[]> => {
+    const failures: string[] = [];
+
+    await Promise.all([
+        ...settings.twelveDataKeys.map(async (key, i) => {
+            try {
+                const data = await (await fetch(`https://api.twelvedata.com/api_usage?apikey=${key}`)).json();
+                if (data.status === 'error') failures.push(`TwelveData key #${i + 1}: ${data.message}`);
+            } catch (e) {
+                failures.push(`TwelveData key #${i + 1}: unreachable`);
+            }
+        }),
+        ...settings.finnhubKeys.map(async (key, i) => {
+            try {
+                const response = await fetch(`https://finnhub.io/api/v1/forex/exchange?token=${key}`);
+                if (response.status === 401) failures.push(`Finnhub key #${i + 1}: rejected`);
+            } catch (e) {
+                failures.push(`Finnhub key #${i + 1}: unreachable`);
+            }
+        }),
+        (async () => {
+            if (!settings.telegram.botToken) return;
+            try {
+                const data = await (await fetch(`https://api.telegram.org/bot${settings.telegram.botToken}/getMe`)).json();
+                if (!data.ok) failures.push(`Telegram token: ${data.description}`);
+            } catch (e) {
+                failures.push('Telegram: unreachable');
+            }
+        })()
+    ]);
+
+    return failures;
+};
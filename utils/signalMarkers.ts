@@ -0,0 +1,51 @@
+import { Candle, Signal } from '../types';
+import { alignToBucket, timeframeToMinutes } from './simulation';
+
+// --- CHART SIGNAL MARKERS ---
+// The chart's x axis is the bucket start timestamp of each resampled candle,
+// so every marker is snapped to the chart bucket that contains it. All
+// TIMEFRAMES divide an hour, which means buckets nest: when the chart
+// timeframe is at least the signal's, the chart candle containing the signal
+// also contains the signal's own timeframe candle.
+
+export interface SignalMarker {
+    signal: Signal;
+    entryTime: number; // Chart candle the signal was emitted in
+    expiryTime: number; // Chart candle the expiry falls in
+    expiryAt: number; // Exact expiry, ms
+    price: number;
+    exitPrice?: number;
+    outcome: Signal['status'];
+    clipped: boolean; // Entry is left of the visible window; only the tail is drawn
+}
+
+export const getSignalExpiry = (signal: Signal): number => {
+    return signal.timestamp + timeframeToMinutes(signal.timeframe) * 60 * 1000;
+};
+
+// `candles` is the visible window of the chart (oldest first); markers are
+// clamped to it so ReferenceArea/ReferenceLine only get existing categories.
+export const buildSignalMarkers = (signals: Signal[], candles: Candle[], chartTimeframeMinutes: number): SignalMarker[] => {
+    if (candles.length === 0) return [];
+    const first = candles[0].timestamp;
+    const last = candles[candles.length - 1].timestamp;
+
+    return signals.flatMap(signal => {
+        const expiryAt = getSignalExpiry(signal);
+        const entry = alignToBucket(signal.timestamp, chartTimeframeMinutes);
+        // Expiry exactly on a bucket boundary settles at the close of the previous candle
+        const expiry = alignToBucket(expiryAt - 1, chartTimeframeMinutes);
+        if (expiry < first || entry > last) return [];
+
+        return [{
+            signal,
+            entryTime: Math.max(entry, first),
+            expiryTime: Math.min(expiry, last),
+            expiryAt,
+            price: signal.price,
+            exitPrice: signal.exitPrice,
+            outcome: signal.status,
+            clipped: entry < first
+        }];
+    });
+};
@@ -1,34 +1,77 @@
-import { Candle, Signal, NewsItem } from '../types';
+import { Candle, Signal, NewsItem, IndicatorSnapshot, IndicatorParams, StrategyConfig, TimeframeBias, LSTMConfig, LSTMFeature, LSTMValidationMetrics, EnsembleMemberId, BlackoutConfig } from '../types';
 import * as tf from '@tensorflow/tfjs';
+import { SimEnvironment, systemEnvironment, createRandomId } from './environment';
+import { DEFAULT_SYMBOL, CLASSIFIER_MIN_SAMPLES } from '../constants';
+import { DEFAULT_STRATEGY_CONFIG, getConfigVersion } from './strategyConfig';
+import { calcEMA, calcRMA } from './indicatorMath';
+import { ExtendedIndicatorEngine } from './extendedIndicators';
+import { ConfluenceResult, detectRegime, scoreConfluence } from './confluence';
+import { DEFAULT_LSTM_CONFIG } from './lstmConfig';
+import { FeatureScaler, applyScaler, extractFeatureRows, fitScaler } from './lstmFeatures';
+import { DirectionClassifier, predictDirection, trainDirectionClassifier } from './directionClassifier';
+import { EnsembleMember, EnsemblePrediction, SerializedEnsembleMember, combinePredictions, predictMemberReturn } from './ensemble';
+import { countOpenMinutes } from './sessions';
+import { Calibration, applyCalibration } from './calibration';
+import { StrategyContext, EnrichedCandle, StrategyRegistry, strategyRegistry, lstmStrategy } from './strategies';
+
+// Fixed-expiry payout on a winning trade (stake = 1)
+export const BINARY_PAYOUT = 0.85;
+// Win probability at which the expected pnl is zero: p * payout = (1 - p)
+export const BREAK_EVEN_PROBABILITY = 1 / (1 + BINARY_PAYOUT);
 
 // --- HELPERS ---
 
+// Formatter is cached: toLocaleTimeString builds a new one per call, which
+// dominates resampling cost when replaying thousands of candles
+const IST_FORMATTER = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+});
+
 export const formatToIST = (timestamp: number): string => {
-    return new Date(timestamp).toLocaleTimeString('en-GB', {
-        timeZone: 'Asia/Kolkata',
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: false
-    });
+    return IST_FORMATTER.format(timestamp);
+};
+
+// Fixed HH:MM:SS (IST) whatever the browser locale, so seeded runs print the same
+const IST_SECONDS_FORMATTER = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Asia/Kolkata',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+});
+
+export const formatTimeToIST = (timestamp: number): string => {
+    return IST_SECONDS_FORMATTER.format(timestamp);
+};
+
+// Start of the `timeframeMinutes` candle that contains `timestamp`
+export const alignToBucket = (timestamp: number, timeframeMinutes: number): number => {
+    const intervalMs = timeframeMinutes * 60 * 1000;
+    return Math.floor(timestamp / intervalMs) * intervalMs;
 };
 
 export const resampleCandles = (candles: Candle[], timeframeMinutes: number): Candle[] => {
     if (timeframeMinutes === 1) return candles;
 
-    const intervalMs = timeframeMinutes * 60 * 1000;
     const groups = new Map<number, Candle[]>();
 
     for (const c of candles) {
-        const bucket = Math.floor(c.timestamp / intervalMs) * intervalMs;
+        const bucket = alignToBucket(c.timestamp, timeframeMinutes);
         if (!groups.has(bucket)) groups.set(bucket, []);
         groups.get(bucket)!.push(c);
     }
 
     const sortedBuckets = Array.from(groups.keys()).sort((a, b) => a - b);
     const resampled: Candle[] = [];
+    const lastTimestamp = candles.reduce((latest, c) => Math.max(latest, c.timestamp), 0);
 
     for (const ts of sortedBuckets) {
         const group = groups.get(ts)!;
+        // The last bucket is only expected to hold the minutes elapsed so far
+        const missingMinutes = getMissingMinutes(ts, timeframeMinutes, group.length, lastTimestamp);
         const open = group[0].open;
         const close = group[group.length - 1].close;
         const high = Math.max(...group.map(c => c.high));
@@ -45,19 +88,53 @@ export const resampleCandles = (candles: Candle[], timeframeMinutes: number): Ca
             low,
             close,
             volume,
-            timestamp: ts
+            timestamp: ts,
+            ...(missingMinutes > 0 ? { missingMinutes } : {})
         });
     }
 
     return resampled;
 };
 
+// 1m candles missing from a bucket holding `count` of them, given the latest
+// 1m candle seen (bucket minutes after it haven't happened yet). Minutes the
+// market was closed (weekend, default holidays) are not missing: buckets are
+// aligned to the epoch, so 45m ones can straddle the close or the reopening.
+export const getMissingMinutes = (bucketStart: number, timeframeMinutes: number, count: number, latestTimestamp: number): number => {
+    const elapsed = Math.min(Math.floor((latestTimestamp - bucketStart) / 60000) + 1, timeframeMinutes);
+    if (count >= elapsed) return 0;
+    return Math.max(countOpenMinutes(bucketStart, bucketStart + (elapsed - 1) * 60000) - count, 0);
+};
+
+// Converts a timeframe id ("5m", "1h") to minutes
+export const timeframeToMinutes = (timeframe: string): number => {
+    let minutes = 5; // Default fallback
+    if (timeframe.endsWith('m')) minutes = parseInt(timeframe);
+    if (timeframe.endsWith('h')) minutes = parseInt(timeframe) * 60;
+    return minutes;
+};
+
 // --- NEWS & SENTIMENT ENGINE ---
 
+// The rolling score halves every 28 minutes without news (about 2.4% per minute)
+const SENTIMENT_HALF_LIFE_MINUTES = 28;
+const SENTIMENT_DECAY_PER_MINUTE = Math.pow(0.5, 1 / SENTIMENT_HALF_LIFE_MINUTES);
+
 // Singleton to manage rolling sentiment
 export class MarketSentiment {
-    private static score: number = 0; // -100 to 100
-    private static lastUpdate: number = Date.now();
+    private static env: SimEnvironment = systemEnvironment;
+    private static score: number = 0; // -100 to 100, as of lastUpdate
+    private static lastUpdate: number = 0;
+
+    static setEnvironment(env: SimEnvironment) {
+        this.env = env;
+    }
+
+    // Clears the rolling score, so seeded runs start from the same state
+    static reset() {
+        this.score = 0;
+        this.lastUpdate = this.env.now();
+    }
 
     static addNews(item: NewsItem) {
         let impactVal = 0;
@@ -69,171 +146,271 @@ export class MarketSentiment {
         if (item.sentiment === 'NEUTRAL') impactVal = 0;
 
         // Add to rolling score
-        this.score += impactVal;
+        const now = this.env.now();
+        this.score = this.decayedScore(now) + impactVal;
         
         // Cap score
         this.score = Math.max(-100, Math.min(100, this.score));
-        this.lastUpdate = Date.now();
+        this.lastUpdate = now;
     }
 
+    // Current score; reading it does not change it
     static getScore(): number {
-        // Decay score over time (move towards 0)
-        // Every request, decay by 1% for simulated realism
-        this.score = this.score * 0.995; 
-        if (Math.abs(this.score) < 1) this.score = 0;
-        return this.score;
+        return this.decayedScore(this.env.now());
     }
-}
 
-const NEWS_TEMPLATES = [
-    { text: "US CPI Inflation data shows cooling trend", sentiment: 'POSITIVE', impact: 'HIGH' },
-    { text: "Federal Reserve hints at interest rate hold", sentiment: 'POSITIVE', impact: 'HIGH' },
-    { text: "ECB President Lagarde warning on Eurozone growth", sentiment: 'NEGATIVE', impact: 'MEDIUM' },
-    { text: "US Jobless claims higher than expected", sentiment: 'NEGATIVE', impact: 'HIGH' },
-    { text: "Geopolitical tensions easing in key regions", sentiment: 'POSITIVE', impact: 'MEDIUM' },
-    { text: "Tech sector rally boosting market confidence", sentiment: 'POSITIVE', impact: 'LOW' },
-    { text: "Crude Oil inventory surplus reported", sentiment: 'NEGATIVE', impact: 'MEDIUM' },
-    { text: "Market consolidation ahead of FOMC minutes", sentiment: 'NEUTRAL', impact: 'LOW' },
-    { text: "Retail Sales data disappoints analysts", sentiment: 'NEGATIVE', impact: 'MEDIUM' },
-    { text: "German Manufacturing PMI beats expectations", sentiment: 'POSITIVE', impact: 'MEDIUM' }
-];
-
-export const generateMarketNews = (): NewsItem => {
-    const template = NEWS_TEMPLATES[Math.floor(Math.random() * NEWS_TEMPLATES.length)];
-    const item: NewsItem = {
-        headline: template.text,
-        sentiment: template.sentiment as 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL',
-        impact: template.impact as 'HIGH' | 'MEDIUM' | 'LOW',
-        timestamp: Date.now(),
-        source: 'Bloomberg (Sim)'
-    };
-    MarketSentiment.addNews(item);
-    return item;
-};
+    // Decays towards 0 with the time elapsed since the last headline
+    private static decayedScore(now: number): number {
+        const minutes = Math.max(0, now - this.lastUpdate) / 60000;
+        const score = this.score * Math.pow(SENTIMENT_DECAY_PER_MINUTE, minutes);
+        return Math.abs(score) < 1 ? 0 : score;
+    }
+}
 
 // --- DEEP LEARNING: LSTM ---
-
-export interface LSTMModelData {
-    model: tf.LayersModel;
-    min: number;
-    max: number;
+// Multivariate model (utils/lstmFeatures.ts) predicting the standardised log
+// return of the next candle. Architecture and features come from LSTMConfig
+// (utils/lstmConfig.ts) and travel with the model, so every stored version
+// can still be used after the config changes. The ensemble learners
+// (utils/ensemble.ts) are trained on the same buffer and carried as `members`.
+
+export type SequenceArchitecture = 'LSTM' | 'GRU' | 'CNN';
+
+// Everything needed besides the weights to feed and read the model
+export interface LSTMModelMeta {
+    architecture?: SequenceArchitecture; // Absent on models saved before the ensemble (= LSTM)
+    features: LSTMFeature[];
     windowSize: number;
+    scaler: FeatureScaler;
+    target: { mean: number; std: number }; // Of the next-candle log return
+    validationLoss?: number; // Same as validation.loss (final weights on the held-out tail)
+    validation?: LSTMValidationMetrics;
+    version?: string; // ModelVersion.id, stamped on signals
 }
 
-export const trainLSTMModel = async (candles: Candle[]): Promise<LSTMModelData> => {
-    // We need at least 100 candles to train decently
-    if(candles.length < 100) throw new Error("Not enough data to train LSTM");
-
-    // OPTIMIZATION: Only use the last 500 candles for training to keep UI responsive
-    // Using 3000 candles can freeze the main thread during WebGL texture uploads
-    const recentCandles = candles.slice(-500);
-
-    // 1. Preprocess Data (Normalization)
-    const closes = recentCandles.map(c => c.close);
-    const min = Math.min(...closes);
-    const max = Math.max(...closes);
-
-    // Avoid division by zero
-    if (max === min) throw new Error("Price data has zero variance, cannot train.");
-
-    const normalized = closes.map(p => (p - min) / (max - min));
+export interface LSTMModelData extends LSTMModelMeta {
+    model: tf.LayersModel;
+    members?: EnsembleMember[];
+}
 
-    // 2. Create Sequences (Windowing)
-    const windowSize = 30;
-    const X_data = [];
-    const y_data = [];
+const toSequences = (rows: number[][], windowSize: number, from: number, to: number): number[][][] => {
+    const sequences: number[][][] = [];
+    for (let i = from; i < to; i++) sequences.push(rows.slice(i, i + windowSize));
+    return sequences;
+};
 
-    for (let i = 0; i < normalized.length - windowSize; i++) {
-        X_data.push(normalized.slice(i, i + windowSize));
-        y_data.push(normalized[i + windowSize]);
+// Recurrent layers are stacked; CNN layers are 'same'-padded convolutions (kernel 3),
+// pooled over time. All end in the optional dense layer and one output.
+const buildSequenceModel = (architecture: SequenceArchitecture, lstmConfig: LSTMConfig, width: number): tf.Sequential => {
+    const { layers, units, windowSize } = lstmConfig;
+    const model = tf.sequential();
+    for (let i = 0; i < layers; i++) {
+        const inputShape = i === 0 ? { inputShape: [windowSize, width] } : {};
+        if (architecture === 'CNN') {
+            model.add(tf.layers.conv1d({ filters: units, kernelSize: 3, padding: 'same', activation: 'relu', ...inputShape }));
+        } else {
+            const layer = architecture === 'GRU' ? tf.layers.gru : tf.layers.lstm;
+            model.add(layer({ units, returnSequences: i < layers - 1, ...inputShape }));
+        }
     }
+    if (architecture === 'CNN') model.add(tf.layers.globalAveragePooling1d({}));
+    if (lstmConfig.denseUnits > 0) model.add(tf.layers.dense({ units: lstmConfig.denseUnits, activation: 'relu' }));
 
-    if (X_data.length === 0) throw new Error("Not enough data for windowing");
-
-    const xs = tf.tensor2d(X_data, [X_data.length, windowSize]);
-    const ys = tf.tensor2d(y_data, [y_data.length, 1]);
-
-    // Reshape for LSTM: [batch, timeSteps, features]
-    const xsReshaped = xs.reshape([X_data.length, windowSize, 1]);
-
-    // 3. Build LSTM Architecture
-    const model = tf.sequential();
-    
-    // LSTM Layer
-    model.add(tf.layers.lstm({
-        units: 32, // Reduced units slightly for speed
-        returnSequences: false,
-        inputShape: [windowSize, 1]
-    }));
-    
-    // Dense Hidden Layer
-    model.add(tf.layers.dense({ units: 16, activation: 'relu' }));
-    
     // Output Layer
     model.add(tf.layers.dense({ units: 1 }));
+    return model;
+};
+
+export const trainSequenceModel = async (
+    candles: Candle[],
+    lstmConfig: LSTMConfig = DEFAULT_LSTM_CONFIG,
+    architecture: SequenceArchitecture = 'LSTM'
+): Promise<LSTMModelData> => {
+    const { features, windowSize, validationSplit } = lstmConfig;
+    // We need at least 100 candles to train decently
+    if(candles.length < 100) throw new Error("Not enough data to train LSTM");
 
+    // Indicators are computed on the whole history so the training slice starts warmed up
+    const enriched = candles[candles.length - 1].rsi === undefined ? calculateIndicators(candles) : candles;
+    const recentCandles = enriched.slice(-lstmConfig.trainingCandles);
+
+    // 1. Targets: log return of the candle after each window
+    const returns = recentCandles.map((c, i) => (i > 0 ? Math.log(c.close / recentCandles[i - 1].close) : 0));
+    const count = recentCandles.length - windowSize;
+    if (count < 20) throw new Error("Not enough data for windowing");
+
+    // 2. Chronological split: the most recent sequences are held out
+    const trainCount = Math.floor(count * (1 - validationSplit));
+    const valCount = count - trainCount;
+    if (valCount < 1) throw new Error("Validation split leaves no held-out data");
+
+    // Scaling is fit on the training rows only, so nothing leaks from the tail
+    const rawRows = extractFeatureRows(recentCandles, features);
+    const scaler = fitScaler(rawRows.slice(0, trainCount + windowSize - 1));
+    const rows = applyScaler(rawRows, scaler);
+    const trainTargets = returns.slice(windowSize, windowSize + trainCount);
+    const targetMean = trainTargets.reduce((a, b) => a + b, 0) / trainTargets.length;
+    const targetStd = Math.sqrt(trainTargets.reduce((a, b) => a + (b - targetMean) ** 2, 0) / trainTargets.length);
+    // Avoid division by zero
+    if (!(targetStd > 0)) throw new Error("Price data has zero variance, cannot train.");
+    const target = { mean: targetMean, std: targetStd };
+    const y_data = returns.slice(windowSize).map(r => [(r - targetMean) / targetStd]);
+
+    const width = rows[0].length;
+    const xTrain = tf.tensor3d(toSequences(rows, windowSize, 0, trainCount), [trainCount, windowSize, width]);
+    const yTrain = tf.tensor2d(y_data.slice(0, trainCount), [trainCount, 1]);
+    const xVal = tf.tensor3d(toSequences(rows, windowSize, trainCount, count), [valCount, windowSize, width]);
+    const yVal = tf.tensor2d(y_data.slice(trainCount), [valCount, 1]);
+
+    // 3. Build the network
+    const model = buildSequenceModel(architecture, lstmConfig, width);
     model.compile({ 
-        optimizer: tf.train.adam(0.01), 
+        optimizer: tf.train.adam(lstmConfig.learningRate), 
         loss: 'meanSquaredError' 
     });
 
-    // 4. Train Model
-    // epochs: 5 is sufficient for a demo of this scale
-    await model.fit(xsReshaped, ys, {
-        epochs: 5,
-        batchSize: 32,
-        shuffle: true,
-        verbose: 0 // silent training
-    });
+    // 4. Train Model, stopping once the held-out loss stops improving
+    let history: tf.History;
+    try {
+        history = await model.fit(xTrain, yTrain, {
+            epochs: lstmConfig.epochs,
+            batchSize: lstmConfig.batchSize,
+            shuffle: true,
+            validationData: [xVal, yVal],
+            callbacks: tf.callbacks.earlyStopping({ monitor: 'val_loss', patience: lstmConfig.patience }),
+            verbose: 0 // silent training
+        });
+    } catch (e) {
+        model.dispose();
+        throw e;
+    } finally {
+        xTrain.dispose();
+        yTrain.dispose();
+    }
 
-    // Cleanup tensors
-    xs.dispose();
-    ys.dispose();
-    xsReshaped.dispose();
+    // 5. Validation metrics on the held-out tail (standardised space)
+    const predicted = tf.tidy(() => Array.from((model.predict(xVal) as tf.Tensor).dataSync()));
+    const actual = y_data.slice(trainCount).map(y => y[0]);
+    xVal.dispose();
+    yVal.dispose();
+    const mse = (errors: number[]) => errors.reduce((a, e) => a + e * e, 0) / errors.length;
+    // Direction of the raw return; flat candles are not counted
+    const directional = actual
+        .map((a, i) => ({ a: Math.sign(a * targetStd + targetMean), p: Math.sign(predicted[i] * targetStd + targetMean) }))
+        .filter(d => d.a !== 0);
+    const validation: LSTMValidationMetrics = {
+        samples: valCount,
+        loss: mse(actual.map((a, i) => a - predicted[i])),
+        baselineLoss: mse(actual),
+        directionalAccuracy: directional.length > 0 ? directional.filter(d => d.a === d.p).length / directional.length : 0,
+        epochs: (history.history.loss || []).length
+    };
 
-    return { model, min, max, windowSize };
+    return { model, architecture, features, windowSize, scaler, target, validationLoss: validation.loss, validation };
 };
 
-export const predictLSTM = (modelData: LSTMModelData, recentCandles: Candle[]): number | null => {
-    const { model, min, max, windowSize } = modelData;
+// The LSTM plus every learner listed in `lstmConfig.ensemble`, all on the same candles
+export const trainLSTMModel = async (candles: Candle[], lstmConfig: LSTMConfig = DEFAULT_LSTM_CONFIG): Promise<LSTMModelData> => {
+    if (candles.length === 0) throw new Error("Not enough data to train LSTM");
+    const enriched = candles[candles.length - 1].rsi === undefined ? calculateIndicators(candles) : candles;
+    const modelData = await trainSequenceModel(enriched, lstmConfig, 'LSTM');
+    const members: EnsembleMember[] = [];
+    try {
+        for (const id of lstmConfig.ensemble) {
+            if (id === 'gru' || id === 'cnn') {
+                members.push({ id, kind: 'SEQUENCE', model: await trainSequenceModel(enriched, lstmConfig, id === 'gru' ? 'GRU' : 'CNN') });
+            } else if (id === 'logistic') {
+                const recent = enriched.slice(-lstmConfig.trainingCandles);
+                const classifier = trainDirectionClassifier(recent, '1m', CLASSIFIER_MIN_SAMPLES);
+                const moves = recent.slice(1).map((c, i) => Math.abs(Math.log(c.close / recent[i].close)));
+                if (classifier) members.push({ id, kind: 'LOGISTIC', classifier, meanAbsReturn: moves.reduce((a, b) => a + b, 0) / moves.length });
+            } else if (id === 'naive') {
+                members.push({ id, kind: 'NAIVE' });
+            }
+        }
+    } catch (e) {
+        disposeLSTMModel({ ...modelData, members });
+        throw e;
+    }
+    return { ...modelData, members };
+};
+
+export const disposeLSTMModel = (modelData: LSTMModelData) => {
+    modelData.model.dispose();
+    modelData.members?.forEach(m => { if (m.kind === 'SEQUENCE') m.model.model.dispose(); });
+};
+
+// Predicted log return of the candle after the last one in `recentCandles`
+const predictReturn = (modelData: LSTMModelData, recentCandles: Candle[]): number | null => {
+    const { model, features, windowSize, scaler, target } = modelData;
     
-    if (recentCandles.length < windowSize) return null;
+    // One extra candle so the first window row has a previous close for its return
+    if (recentCandles.length < windowSize + 1) return null;
 
-    // Extract window and normalize
-    const slice = recentCandles.slice(-windowSize).map(c => c.close);
-    const normalized = slice.map(p => (p - min) / (max - min));
+    const window = recentCandles.slice(-(windowSize + 1));
+    const rows = applyScaler(extractFeatureRows(window, features), scaler).slice(1);
 
     // Predict
     return tf.tidy(() => {
-        // Fix: Pass 'normalized' (flat array) directly with the shape [1, windowSize, 1].
-        // Do NOT wrap 'normalized' in another array, as that creates a 2D array which tensor3d rejects.
-        const input = tf.tensor3d(normalized, [1, windowSize, 1]);
+        const input = tf.tensor3d([rows], [1, windowSize, rows[0].length]);
         const prediction = model.predict(input) as tf.Tensor;
-        const result = prediction.dataSync()[0];
-        
-        // Denormalize
-        return result * (max - min) + min;
+        return prediction.dataSync()[0] * target.std + target.mean;
     });
 };
 
-// --- MATH HELPERS ---
-const calcEMA = (val: number, prevEMA: number | undefined, period: number) => {
-  if (prevEMA === undefined) return val;
-  const k = 2 / (period + 1);
-  return val * k + prevEMA * (1 - k);
+// Predicted close of the candle after the last one in `recentCandles` (LSTM only)
+export const predictLSTM = (modelData: LSTMModelData, recentCandles: Candle[]): number | null => {
+    const r = predictReturn(modelData, recentCandles);
+    return r === null ? null : recentCandles[recentCandles.length - 1].close * Math.exp(r);
 };
 
-const calcRMA = (val: number, prevRMA: number | undefined, period: number) => {
-    if (prevRMA === undefined) return val;
-    return (prevRMA * (period - 1) + val) / period;
+// Weighted vote of the LSTM and its members (weights: StrategyConfig.ensemble)
+export const predictEnsemble = (modelData: LSTMModelData, recentCandles: Candle[], weights: Record<EnsembleMemberId, number>): EnsemblePrediction => {
+    const returns: Partial<Record<EnsembleMemberId, number | null>> = { lstm: predictReturn(modelData, recentCandles) };
+    modelData.members?.forEach(m => {
+        returns[m.id] = m.kind === 'SEQUENCE' ? predictReturn(m.model, recentCandles) : predictMemberReturn(m, recentCandles);
+    });
+    return combinePredictions(recentCandles[recentCandles.length - 1].close, returns, weights);
+};
+
+// Plain-data copy of a trained model: survives postMessage / structured clone
+export interface SerializedLSTMModel extends LSTMModelMeta {
+    artifacts: tf.io.ModelArtifacts;
+    members?: SerializedEnsembleMember[];
+}
+
+export const getLSTMModelMeta = (modelData: LSTMModelData): LSTMModelMeta => {
+    const { architecture, features, windowSize, scaler, target, validationLoss, validation, version } = modelData;
+    return { architecture, features, windowSize, scaler, target, validationLoss, validation, version };
+};
+
+export const serializeLSTMModel = async (modelData: LSTMModelData): Promise<SerializedLSTMModel> => {
+    let artifacts: tf.io.ModelArtifacts | undefined;
+    await modelData.model.save(tf.io.withSaveHandler(async (a) => {
+        artifacts = a;
+        return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+    }));
+    if (!artifacts) throw new Error('Model could not be serialized');
+    const members: SerializedEnsembleMember[] = [];
+    for (const m of modelData.members || []) {
+        members.push(m.kind === 'SEQUENCE' ? { ...m, model: await serializeLSTMModel(m.model) } : m);
+    }
+    return { artifacts, ...getLSTMModelMeta(modelData), members };
+};
+
+export const deserializeLSTMModel = async (serialized: SerializedLSTMModel): Promise<LSTMModelData> => {
+    const { artifacts, members: serializedMembers, ...meta } = serialized;
+    const model = await tf.loadLayersModel(tf.io.fromMemory(artifacts));
+    const members: EnsembleMember[] = [];
+    for (const m of serializedMembers || []) {
+        members.push(m.kind === 'SEQUENCE' ? { ...m, model: await deserializeLSTMModel(m.model) } : m);
+    }
+    return { model, ...meta, members };
 };
 
 // --- INDICATOR CALCULATION ---
-export const calculateIndicators = (candles: Candle[]): Candle[] => {
-  const macdFast = 12, macdSlow = 26, macdSignal = 9;
-  const bbPeriod = 20, bbMult = 2;
-  const adxPeriod = 14;
-  const rsiPeriod = 14;
+export const calculateIndicators = (candles: Candle[], params: IndicatorParams = DEFAULT_STRATEGY_CONFIG.indicators): Candle[] => {
+  const { macdFast, macdSlow, macdSignal, bbPeriod, bbMult, adxPeriod, rsiPeriod, emaTrendPeriod, smaFast: smaFastPeriod, smaSlow: smaSlowPeriod } = params;
 
   let ema12: number | undefined, ema26: number | undefined, macdSignalLine: number | undefined;
   let ema200: number | undefined;
@@ -241,6 +418,9 @@ export const calculateIndicators = (candles: Candle[]): Candle[] => {
   let smoothTR: number | undefined, smoothPlusDM: number | undefined, smoothMinusDM: number | undefined;
   let prevAdx: number | undefined;
   let avgGain: number | undefined, avgLoss: number | undefined;
+  let sumFast = 0, sumSlow = 0;
+  // Stochastic, CCI, Ichimoku, PSAR, channels, VWAP, SuperTrend, pivots (utils/extendedIndicators.ts)
+  const extended = new ExtendedIndicatorEngine(params);
 
   return candles.map((candle, index, array) => {
     const prev = array[index - 1];
@@ -255,8 +435,8 @@ export const calculateIndicators = (candles: Candle[]): Candle[] => {
         macd = { line, signal: macdSignalLine || 0, hist: line - (macdSignalLine || 0) };
     }
 
-    // 2. EMA 200
-    ema200 = calcEMA(candle.close, ema200, 200);
+    // 2. Trend EMA (200 by default)
+    ema200 = calcEMA(candle.close, ema200, emaTrendPeriod);
 
     // 3. Bollinger Bands
     let bollinger = undefined;
@@ -330,16 +510,47 @@ export const calculateIndicators = (candles: Candle[]): Candle[] => {
         }
     }
 
-    return { ...candle, macd, bollinger, ema200, adx: adxVal, atr: atrVal, rsi: rsiVal };
+    // 6. SMA fast / slow (running sums)
+    sumFast += candle.close - (index >= smaFastPeriod ? array[index - smaFastPeriod].close : 0);
+    sumSlow += candle.close - (index >= smaSlowPeriod ? array[index - smaSlowPeriod].close : 0);
+    const smaFast = index >= smaFastPeriod - 1 ? sumFast / smaFastPeriod : undefined;
+    const smaSlow = index >= smaSlowPeriod - 1 ? sumSlow / smaSlowPeriod : undefined;
+
+    return extended.push({ ...candle, macd, bollinger, ema200, adx: adxVal, atr: atrVal, rsi: rsiVal, smaFast, smaSlow });
   });
 };
 
 // --- ADVANCED SIGNAL LOGIC ---
+export interface AnalyzeOptions {
+    symbol?: string; // Instrument the candles belong to (defaults to EUR/USD)
+    env?: SimEnvironment; // Clock + random source (defaults to the system)
+    sentimentScore?: number; // Overrides the rolling MarketSentiment score
+    config?: StrategyConfig; // Thresholds & weights (defaults to DEFAULT_STRATEGY_CONFIG)
+    registry?: StrategyRegistry; // Scoring plugins (defaults to the shared strategyRegistry)
+    higherTimeframes?: TimeframeBias[]; // Enables multi-timeframe confluence (utils/confluence.ts)
+    classifier?: DirectionClassifier; // P(up at expiry) for this timeframe; makes confidence a probability
+    calibration?: Calibration | null; // Fitted on settled signals (utils/calibration.ts)
+    blackout?: { reason: string; action: BlackoutConfig['action'] }; // Expiry overlaps a news window (utils/blackout.ts)
+    modelCandles?: Candle[]; // Enriched 1m series the model reads; no prediction without it
+}
+
+export const createSignalId = (env: SimEnvironment = systemEnvironment): string => {
+    return `sig_${env.now()}_${createRandomId(env)}`;
+};
+
 export const analyzeMarket = (
     candles: Candle[], 
     timeframeStr: string,
-    aiModelData?: LSTMModelData
-): { signal: Signal | null, regime: string, debug?: string } => {
+    aiModelData?: LSTMModelData,
+    options: AnalyzeOptions = {}
+): { signal: Signal | null, regime: string, debug?: string, blackout?: string } => {
+  const env = options.env || systemEnvironment;
+  const now = env.now();
+  const symbol = options.symbol || DEFAULT_SYMBOL;
+  const config = options.config || DEFAULT_STRATEGY_CONFIG;
+  const registry = options.registry || strategyRegistry;
+  const signalCfg = config.signal;
+
   if (candles.length < 30) return { signal: null, regime: 'GATHERING_DATA' };
   
   const last = candles[candles.length - 1];
@@ -349,192 +560,175 @@ export const analyzeMarket = (
       return { signal: null, regime: 'CALCULATING' };
   }
 
-  // --- AI PREDICTION (LSTM) ---
+  // Built over missing 1m candles (feed gaps, see utils/dataQuality.ts)
+  if (last.missingMinutes) {
+      return { signal: null, regime: 'INCOMPLETE_DATA', debug: `${timeframeStr} candle is missing ${last.missingMinutes} 1m candle(s)` };
+  }
+
+  // --- AI PREDICTION (LSTM + ensemble) ---
+  // The models are fit and tracked on 1m candles, so every timeframe uses
+  // their next-1m prediction rather than feeding them resampled candles
   let aiPricePrediction: number | null = null;
-  if (aiModelData) {
+  let modelVotes: Signal['modelVotes'];
+  if (aiModelData && options.modelCandles) {
       try {
-        aiPricePrediction = predictLSTM(aiModelData, candles);
+        const prediction = predictEnsemble(aiModelData, options.modelCandles, config.ensemble);
+        aiPricePrediction = prediction.price;
+        modelVotes = prediction.votes;
       } catch (e) { console.error(e); }
   }
-  
-  const aiTrend = aiPricePrediction ? (aiPricePrediction > last.close ? 'UP' : 'DOWN') : 'NEUTRAL';
-  const aiBullish = aiTrend === 'UP';
-  const aiBearish = aiTrend === 'DOWN';
 
   // Regime Detection
-  let regime = 'RANGING';
-  const ema200 = last.ema200 || 0;
-  if (last.adx > 25) {
-      regime = last.close > ema200 ? 'STRONG_BULL_TREND' : 'STRONG_BEAR_TREND';
-  } else if (last.adx < 20) {
-      regime = 'CHOPPY/SIDEWAYS';
-  }
+  let regime = detectRegime(last, config);
+
+  // --- SCORING (strategy plugins) ---
+  const ctx: StrategyContext = {
+      candles,
+      last: last as EnrichedCandle,
+      prev: prev as StrategyContext['prev'],
+      config,
+      regime,
+      sentimentScore: options.sentimentScore ?? MarketSentiment.getScore(),
+      aiPrediction: aiPricePrediction
+  };
 
-  // --- SCORING ---
   let callScore = 0;
   let putScore = 0;
-  let strategyName = "";
-  let debugStr = "";
-
-  // 1. SENTIMENT ANALYSIS (ROLLING)
-  const sentimentScore = MarketSentiment.getScore();
-  let sentimentContext = "";
-  
-  if (sentimentScore > 5) {
-      callScore += Math.min(sentimentScore, 30); // Cap sentiment influence
-      sentimentContext = `Bullish Sentiment (+${Math.floor(Math.min(sentimentScore, 30))})`;
-      regime = 'NEWS_BULLISH';
-  } else if (sentimentScore < -5) {
-      putScore += Math.min(Math.abs(sentimentScore), 30);
-      sentimentContext = `Bearish Sentiment (+${Math.floor(Math.min(Math.abs(sentimentScore), 30))})`;
-      regime = 'NEWS_BEARISH';
-  }
-
-  // Include technicals...
-  const rsi = last.rsi;
-  const isOverbought = rsi > 70;
-  const isOversold = rsi < 30;
-  const isAboveEma = last.close > ema200;
-  
-  const bullCross = prev.macd.line < prev.macd.signal && last.macd.line > last.macd.signal;
-  const bearCross = prev.macd.line > prev.macd.signal && last.macd.line < last.macd.signal;
-  const histImproving = last.macd.hist > prev.macd.hist;
-  const histDeclining = last.macd.hist < prev.macd.hist;
-
-  const bbLowerBreak = last.close < last.bollinger.lower;
-  const bbUpperBreak = last.close > last.bollinger.upper;
-  const bbMidCrossUp = prev.close < last.bollinger.middle && last.close > last.bollinger.middle;
-  const bbMidCrossDown = prev.close > last.bollinger.middle && last.close < last.bollinger.middle;
-
-  // STRATEGY A: TREND FOLLOWING
-  if (last.adx > 25) {
-      if (isAboveEma) {
-          if (bullCross) callScore += 25; 
-          if (bbMidCrossUp) callScore += 20; 
-          if (rsi > 50 && rsi < 70) callScore += 10; 
-          if (histImproving && last.macd.hist > 0) callScore += 5;
-          if (callScore > 20) strategyName = "Trend Alpha";
-      }
-      if (!isAboveEma) {
-          if (bearCross) putScore += 25;
-          if (bbMidCrossDown) putScore += 20;
-          if (rsi < 50 && rsi > 30) putScore += 10;
-          if (histDeclining && last.macd.hist < 0) putScore += 5;
-          if (putScore > 20) strategyName = "Trend Alpha";
-      }
-  }
-
-  // STRATEGY B: REVERSION (Effective in Ranging or weak trend)
-  if (last.adx <= 30) { 
-      if (bbLowerBreak) callScore += 30; 
-      if (isOversold) callScore += 20; 
-      if (bullCross) callScore += 10; 
-      if (callScore > 20 && strategyName === "") strategyName = "BB Reversion";
-
-      if (bbUpperBreak) putScore += 30;
-      if (isOverbought) putScore += 20;
-      if (bearCross) putScore += 10;
-      if (putScore > 20 && strategyName === "") strategyName = "BB Reversion";
-  }
-
-  // --- AI CONFIDENCE FUSION ---
   let aiConfidence = 0;
-  if (aiPricePrediction) {
-      const diff = Math.abs(aiPricePrediction - last.close);
-      const threshold = last.close * 0.0005; 
-      const ratio = Math.min(diff / threshold, 2.0); 
-      
-      aiConfidence = ratio * 50; 
-
-      if (aiBullish) {
-          callScore += aiConfidence;
-          if (strategyName) strategyName += " + LSTM";
-          else strategyName = "LSTM Pure";
-      } else if (aiBearish) {
-          putScore += aiConfidence;
-          if (strategyName) strategyName += " + LSTM";
-          else strategyName = "LSTM Pure";
-      }
+  const labels: string[] = [];
+  const notes: string[] = [];
+
+  registry.getActive().forEach(({ strategy, weight }) => {
+      const result = strategy.evaluate(ctx);
+      callScore += result.call * weight;
+      putScore += result.put * weight;
+      if (result.label) labels.push(result.label);
+      if (result.note) notes.push(result.note);
+      if (result.regime) regime = result.regime;
+      if (strategy.id === lstmStrategy.id) aiConfidence = Math.max(result.call, result.put) * weight;
+  });
+
+  // --- MULTI-TIMEFRAME CONFLUENCE ---
+  // Only directions some strategy already scored are boosted / penalised / vetoed
+  let callConfluence: ConfluenceResult | undefined;
+  let putConfluence: ConfluenceResult | undefined;
+  if (options.higherTimeframes && options.higherTimeframes.length > 0) {
+      callConfluence = scoreConfluence('CALL', options.higherTimeframes, config);
+      putConfluence = scoreConfluence('PUT', options.higherTimeframes, config);
+      if (callScore > 0) callScore = callConfluence.vetoedBy ? 0 : Math.max(callScore + callConfluence.points, 0);
+      if (putScore > 0) putScore = putConfluence.vetoedBy ? 0 : Math.max(putScore + putConfluence.points, 0);
   }
 
-  if (sentimentContext) {
-      strategyName = strategyName ? `${strategyName} & News` : "News Event";
-      debugStr += ` [${sentimentContext}]`;
+  const strategyName = labels.join(' + ');
+  const newsContext = notes.join('; ');
+  let debugStr = notes.length > 0 ? ` [${newsContext}]` : '';
+  if (callConfluence && putConfluence) {
+      const describe = (c: ConfluenceResult) => c.vetoedBy ? `vetoed by ${c.vetoedBy}` : `${c.points >= 0 ? '+' : ''}${c.points}`;
+      debugStr += ` [MTF CALL ${describe(callConfluence)}, PUT ${describe(putConfluence)}]`;
   }
 
-  // OPTIMIZED THRESHOLD: Increased to 70 to ensure High Probability / Strong signals only
-  const THRESHOLD = 70;
+  // OPTIMIZED THRESHOLD: 70 by default to ensure High Probability / Strong signals only
+  const THRESHOLD = signalCfg.threshold;
 
   // Determine Signal Strength
   const getStrength = (score: number): 'WEAK' | 'MODERATE' | 'STRONG' | 'MAX' => {
-      if (score > 100) return 'MAX';
-      if (score > 85) return 'STRONG';
-      if (score > 70) return 'MODERATE';
+      if (score > signalCfg.max) return 'MAX';
+      if (score > signalCfg.strong) return 'STRONG';
+      if (score > THRESHOLD) return 'MODERATE';
       return 'WEAK';
   };
 
   debugStr = `Call: ${callScore.toFixed(0)}, Put: ${putScore.toFixed(0)} (Req: ${THRESHOLD})${debugStr}`;
 
-  if (callScore >= THRESHOLD && callScore > putScore) {
-      return {
-          signal: {
-              id: `sig_${Date.now()}_${Math.random().toString(36).substr(2,5)}`,
-              timestamp: Date.now(),
-              timestampStr: new Date().toLocaleTimeString(),
-              type: 'CALL',
-              price: last.close,
-              confidence: Math.min(callScore / 150, 0.99), 
-              timeframe: timeframeStr, 
-              regime,
-              status: 'PENDING',
-              strategy: strategyName || "Hybrid",
-              aiPrediction: aiPricePrediction || 0,
-              signalStrength: getStrength(callScore),
-              aiConfidenceScore: aiConfidence,
-              newsContext: sentimentContext || undefined
-          },
-          regime,
-          debug: debugStr
-      };
+  const type: 'CALL' | 'PUT' | null =
+      callScore >= THRESHOLD && callScore > putScore ? 'CALL'
+      : putScore >= THRESHOLD && putScore > callScore ? 'PUT'
+      : null;
+
+  if (!type) return { signal: null, regime, debug: debugStr };
+
+  const score = type === 'CALL' ? callScore : putScore;
+
+  // --- WIN PROBABILITY ---
+  // The classifier's P(up) for a CALL, P(down) for a PUT, calibrated against
+  // settled signals. Without a classifier, confidence stays score-based.
+  const pUp = options.classifier ? predictDirection(options.classifier, candles) : null;
+  const rawProbability = pUp === null ? undefined : type === 'CALL' ? pUp : 1 - pUp;
+  const confidence = rawProbability !== undefined
+      ? applyCalibration(options.calibration, rawProbability)
+      : Math.min(score / signalCfg.confidenceScale, signalCfg.maxConfidence);
+  if (rawProbability !== undefined) {
+      debugStr += ` [P(win) ${(confidence * 100).toFixed(1)}%, break-even ${(BREAK_EVEN_PROBABILITY * 100).toFixed(1)}%]`;
+      if (signalCfg.minProbability > 0 && confidence < signalCfg.minProbability) {
+          return { signal: null, regime, debug: `${debugStr} ${type} dropped: below min probability ${signalCfg.minProbability}` };
+      }
   }
 
-  if (putScore >= THRESHOLD && putScore > callScore) {
-      return {
-          signal: {
-              id: `sig_${Date.now()}_${Math.random().toString(36).substr(2,5)}`,
-              timestamp: Date.now(),
-              timestampStr: new Date().toLocaleTimeString(),
-              type: 'PUT',
-              price: last.close,
-              confidence: Math.min(putScore / 150, 0.99),
-              timeframe: timeframeStr,
-              regime,
-              status: 'PENDING',
-              strategy: strategyName || "Hybrid",
-              aiPrediction: aiPricePrediction || 0,
-              signalStrength: getStrength(putScore),
-              aiConfidenceScore: aiConfidence,
-              newsContext: sentimentContext || undefined
-          },
-          regime,
-          debug: debugStr
-      };
+  // --- NEWS BLACKOUT ---
+  // Scheduled releases spike volatility past what the indicators can read
+  const blackout = options.blackout;
+  if (blackout?.action === 'SUPPRESS') {
+      return { signal: null, regime, debug: `${debugStr} ${type} suppressed: ${blackout.reason}`, blackout: blackout.reason };
   }
-
-  return { signal: null, regime, debug: debugStr };
+  // DOWNGRADE: one strength level lower (MODERATE becomes WEAK and is not traded)
+  const STRENGTHS = ['WEAK', 'MODERATE', 'STRONG', 'MAX'] as const;
+  const strength = getStrength(score);
+  const signalStrength = blackout ? STRENGTHS[Math.max(STRENGTHS.indexOf(strength) - 1, 0)] : strength;
+  const context = [newsContext, blackout ? `News blackout: ${blackout.reason}` : ''].filter(Boolean).join('; ');
+
+  const confluence = type === 'CALL' ? callConfluence : putConfluence;
+  return {
+      signal: {
+          id: createSignalId(env),
+          symbol,
+          timestamp: now,
+          timestampStr: formatTimeToIST(now),
+          type,
+          price: last.close,
+          confidence,
+          rawProbability,
+          timeframe: timeframeStr,
+          regime,
+          status: 'PENDING',
+          strategy: strategyName || "Hybrid",
+          aiPrediction: aiPricePrediction || 0,
+          signalStrength,
+          aiConfidenceScore: aiConfidence,
+          newsContext: context || undefined,
+          indicators: takeIndicatorSnapshot(last),
+          configVersion: getConfigVersion(config, registry.getState()),
+          confluence: confluence ? { points: confluence.points, timeframes: confluence.timeframes } : undefined,
+          modelVersion: aiPricePrediction !== null ? aiModelData?.version : undefined,
+          modelVotes
+      },
+      regime,
+      debug: debugStr,
+      blackout: blackout?.reason
+  };
 };
 
-export const checkSignals = (signals: Signal[], currentPrice: number): Signal[] => {
+export const takeIndicatorSnapshot = (candle: Candle): IndicatorSnapshot => ({
+    close: candle.close,
+    rsi: candle.rsi,
+    adx: candle.adx,
+    atr: candle.atr,
+    ema200: candle.ema200,
+    macd: candle.macd ? { ...candle.macd } : undefined,
+    bollinger: candle.bollinger ? { ...candle.bollinger } : undefined,
+    stochK: candle.stoch?.k,
+    cci: candle.cci,
+    williamsR: candle.williamsR,
+    superTrend: candle.superTrend?.direction
+});
+
+// When `symbol` is given, only that instrument's signals are settled against currentPrice
+export const checkSignals = (signals: Signal[], currentPrice: number, env: SimEnvironment = systemEnvironment, symbol?: string): Signal[] => {
+    const now = env.now();
     return signals.map(sig => {
         if (sig.status !== 'PENDING') return sig;
+        if (symbol && sig.symbol !== symbol) return sig;
 
-        const now = Date.now();
-        
-        let minutes = 5; // Default fallback
-        if (sig.timeframe.endsWith('m')) minutes = parseInt(sig.timeframe);
-        if (sig.timeframe.endsWith('h')) minutes = parseInt(sig.timeframe) * 60;
-        
-        const duration = minutes * 60 * 1000;
+        const duration = timeframeToMinutes(sig.timeframe) * 60 * 1000;
         const elapsed = now - sig.timestamp;
 
         if (elapsed >= duration) {
@@ -543,10 +737,10 @@ export const checkSignals = (signals: Signal[], currentPrice: number): Signal[]
             
             if (sig.type === 'CALL' && currentPrice > sig.price) {
                 status = 'WIN';
-                pnl = 0.85; 
+                pnl = BINARY_PAYOUT; 
             } else if (sig.type === 'PUT' && currentPrice < sig.price) {
                 status = 'WIN';
-                pnl = 0.85;
+                pnl = BINARY_PAYOUT;
             }
 
             return { ...sig, status, pnl, exitPrice: currentPrice };
@@ -0,0 +1,297 @@
+import { Candle, StrategyConfig } from '../types';
+
+// --- STRATEGY PLUGINS ---
+// analyzeMarket asks every enabled strategy in the registry for CALL/PUT score
+// contributions, multiplies them by the strategy's weight and sums them up.
+// New scorers implement `Strategy` in their own module under plugins/ (see
+// PLUGIN_STRATEGIES below); the core stays untouched.
+
+export type EnrichedCandle = Candle & {
+    macd: NonNullable<Candle['macd']>;
+    bollinger: NonNullable<Candle['bollinger']>;
+    adx: number;
+    rsi: number;
+};
+
+export interface StrategyContext {
+    candles: Candle[]; // Indicator-enriched, oldest first
+    last: EnrichedCandle;
+    prev: Candle & { macd: NonNullable<Candle['macd']>; rsi: number };
+    config: StrategyConfig;
+    regime: string; // ADX/EMA regime before any strategy override
+    sentimentScore: number; // Already adjusted for the symbol
+    aiPrediction: number | null; // LSTM next-close prediction, if a model is loaded
+}
+
+export interface StrategyResult {
+    call: number;
+    put: number;
+    label?: string; // Set when the strategy "fired"; joined into Signal.strategy
+    note?: string; // Free-form context, e.g. Signal.newsContext
+    regime?: string; // Overrides the reported regime
+}
+
+export interface Strategy {
+    id: string;
+    name: string;
+    description: string;
+    evaluate(ctx: StrategyContext): StrategyResult;
+}
+
+export interface StrategyPluginState {
+    enabled: boolean;
+    weight: number; // Multiplier applied to call/put
+}
+
+export interface RegistryEntry extends StrategyPluginState {
+    strategy: Strategy;
+}
+
+// --- BUILT-IN STRATEGIES ---
+
+// STRATEGY A: TREND FOLLOWING
+export const trendAlphaStrategy: Strategy = {
+    id: 'trend-alpha',
+    name: 'Trend Alpha',
+    description: 'MACD / BB-midline crosses in the direction of the trend EMA when ADX is high',
+    evaluate: ({ last, prev, config }) => {
+        const { weights: w, rsi: rsiCfg } = config;
+        let call = 0;
+        let put = 0;
+        if (last.adx <= config.regime.trendAdx) return { call, put };
+
+        const isAboveEma = last.close > (last.ema200 || 0);
+        const rsi = last.rsi;
+        if (isAboveEma) {
+            if (prev.macd.line < prev.macd.signal && last.macd.line > last.macd.signal) call += w.trendMacdCross;
+            if (prev.close < last.bollinger.middle && last.close > last.bollinger.middle) call += w.trendBbMidCross;
+            if (rsi > rsiCfg.midline && rsi < rsiCfg.overbought) call += w.trendRsi;
+            if (last.macd.hist > prev.macd.hist && last.macd.hist > 0) call += w.trendHist;
+        } else {
+            if (prev.macd.line > prev.macd.signal && last.macd.line < last.macd.signal) put += w.trendMacdCross;
+            if (prev.close > last.bollinger.middle && last.close < last.bollinger.middle) put += w.trendBbMidCross;
+            if (rsi < rsiCfg.midline && rsi > rsiCfg.oversold) put += w.trendRsi;
+            if (last.macd.hist < prev.macd.hist && last.macd.hist < 0) put += w.trendHist;
+        }
+        return { call, put, label: Math.max(call, put) > w.strategyMinScore ? 'Trend Alpha' : undefined };
+    }
+};
+
+// STRATEGY B: REVERSION (Effective in Ranging or weak trend)
+export const bbReversionStrategy: Strategy = {
+    id: 'bb-reversion',
+    name: 'BB Reversion',
+    description: 'Fades Bollinger band breaks and RSI extremes when ADX is low',
+    evaluate: ({ last, prev, config }) => {
+        const { weights: w, rsi: rsiCfg } = config;
+        let call = 0;
+        let put = 0;
+        if (last.adx > config.regime.reversionMaxAdx) return { call, put };
+
+        if (last.close < last.bollinger.lower) call += w.reversionBbBreak;
+        if (last.rsi < rsiCfg.oversold) call += w.reversionRsiExtreme;
+        if (prev.macd.line < prev.macd.signal && last.macd.line > last.macd.signal) call += w.reversionMacdCross;
+
+        if (last.close > last.bollinger.upper) put += w.reversionBbBreak;
+        if (last.rsi > rsiCfg.overbought) put += w.reversionRsiExtreme;
+        if (prev.macd.line > prev.macd.signal && last.macd.line < last.macd.signal) put += w.reversionMacdCross;
+
+        return { call, put, label: Math.max(call, put) > w.strategyMinScore ? 'BB Reversion' : undefined };
+    }
+};
+
+// STRATEGY C: OSCILLATOR CONSENSUS (pullbacks against the SuperTrend)
+// Needs at least two oscillators at the same extreme; extremes that line up
+// with the SuperTrend direction (buying a dip in an uptrend) score extra.
+export const oscillatorConsensusStrategy: Strategy = {
+    id: 'oscillators',
+    name: 'Oscillator Consensus',
+    description: 'Stochastic, Stoch RSI, CCI and Williams %R extremes, boosted when they agree with SuperTrend',
+    evaluate: ({ last, config }) => {
+        const { weights: w, rsi: rsiCfg } = config;
+        const oversold = [
+            last.stoch && last.stoch.k < 20,
+            last.stochRsi && last.stochRsi.k < 20,
+            last.cci !== undefined && last.cci < -100,
+            last.williamsR !== undefined && last.williamsR < -80
+        ].filter(Boolean).length;
+        const overbought = [
+            last.stoch && last.stoch.k > 80,
+            last.stochRsi && last.stochRsi.k > 80,
+            last.cci !== undefined && last.cci > 100,
+            last.williamsR !== undefined && last.williamsR > -20
+        ].filter(Boolean).length;
+
+        let call = 0;
+        let put = 0;
+        if (oversold >= 2 && last.rsi < rsiCfg.midline) {
+            call += oversold * w.oscillatorExtreme;
+            if (last.superTrend?.direction === 'UP') call += w.oscillatorTrend;
+        }
+        if (overbought >= 2 && last.rsi > rsiCfg.midline) {
+            put += overbought * w.oscillatorExtreme;
+            if (last.superTrend?.direction === 'DOWN') put += w.oscillatorTrend;
+        }
+        return { call, put, label: Math.max(call, put) > w.strategyMinScore ? 'Oscillators' : undefined };
+    }
+};
+
+// AI CONFIDENCE FUSION: predicted move size, capped, scaled to points
+export const lstmStrategy: Strategy = {
+    id: 'lstm',
+    name: 'LSTM',
+    description: 'Scores the direction and size of the next-close prediction (LSTM + model ensemble)',
+    evaluate: ({ last, aiPrediction, config }) => {
+        if (!aiPrediction || aiPrediction === last.close) return { call: 0, put: 0 };
+        const diff = Math.abs(aiPrediction - last.close);
+        const threshold = last.close * config.ai.moveThreshold;
+        const score = Math.min(diff / threshold, config.ai.maxRatio) * config.ai.weight;
+        return aiPrediction > last.close
+            ? { call: score, put: 0, label: 'LSTM' }
+            : { call: 0, put: score, label: 'LSTM' };
+    }
+};
+
+// SENTIMENT ANALYSIS (ROLLING)
+export const newsSentimentStrategy: Strategy = {
+    id: 'news',
+    name: 'News Sentiment',
+    description: 'Adds the rolling news sentiment score (capped) and flags news-driven regimes',
+    evaluate: ({ sentimentScore, config }) => {
+        const { deadband, cap } = config.sentiment;
+        if (sentimentScore > deadband) {
+            const points = Math.min(sentimentScore, cap);
+            return { call: points, put: 0, label: 'News', note: `Bullish Sentiment (+${Math.floor(points)})`, regime: 'NEWS_BULLISH' };
+        }
+        if (sentimentScore < -deadband) {
+            const points = Math.min(Math.abs(sentimentScore), cap);
+            return { call: 0, put: points, label: 'News', note: `Bearish Sentiment (+${Math.floor(points)})`, regime: 'NEWS_BEARISH' };
+        }
+        return { call: 0, put: 0 };
+    }
+};
+
+export const BUILT_IN_STRATEGIES: Strategy[] = [trendAlphaStrategy, bbReversionStrategy, oscillatorConsensusStrategy, lstmStrategy, newsSentimentStrategy];
+
+// Built-ins that start disabled, so adding them does not change existing signals
+const DEFAULT_PLUGIN_STATE: Record<string, Partial<StrategyPluginState>> = {
+    [oscillatorConsensusStrategy.id]: { enabled: false }
+};
+
+// --- PLUGIN MODULES ---
+// Every module in plugins/ default-exports a Strategy and may export its
+// initial `defaultState`. They are bundled into the main thread and into each
+// worker alike, so every registry built by createDefaultRegistry() - live
+// analysis, backtests and the optimiser - scores with the same plugins.
+
+interface StrategyModule {
+    default: Strategy;
+    defaultState?: Partial<StrategyPluginState>;
+}
+
+const pluginModules = import.meta.glob<StrategyModule>('../plugins/*.ts', { eager: true });
+
+// By file name, so the evaluation order is stable
+export const PLUGIN_STRATEGIES: StrategyModule[] = Object.keys(pluginModules).sort().map(path => pluginModules[path]);
+
+// --- REGISTRY ---
+
+export class StrategyRegistry {
+    private entries: RegistryEntry[] = [];
+    private sealed = false;
+
+    register(strategy: Strategy, state: Partial<StrategyPluginState> = {}) {
+        this.assertOpen(strategy.id);
+        if (this.entries.some(e => e.strategy.id === strategy.id)) {
+            throw new Error(`Strategy "${strategy.id}" is already registered`);
+        }
+        this.entries.push({ strategy, enabled: state.enabled ?? true, weight: state.weight ?? 1 });
+    }
+
+    unregister(id: string) {
+        this.assertOpen(id);
+        this.entries = this.entries.filter(e => e.strategy.id !== id);
+    }
+
+    setEnabled(id: string, enabled: boolean) {
+        this.update(id, { enabled });
+    }
+
+    setWeight(id: string, weight: number) {
+        if (!Number.isFinite(weight) || weight < 0) throw new Error(`Invalid weight for "${id}": ${weight}`);
+        this.update(id, { weight });
+    }
+
+    // Registration order == evaluation order == order of labels in Signal.strategy
+    list(): RegistryEntry[] {
+        return this.entries.map(e => ({ ...e }));
+    }
+
+    getActive(): RegistryEntry[] {
+        return this.entries.filter(e => e.enabled && e.weight > 0);
+    }
+
+    getState(): Record<string, StrategyPluginState> {
+        const state: Record<string, StrategyPluginState> = {};
+        this.entries.forEach(e => { state[e.strategy.id] = { enabled: e.enabled, weight: e.weight }; });
+        return state;
+    }
+
+    // Unknown ids are ignored, so stored state survives removed plugins
+    applyState(state: Record<string, StrategyPluginState>) {
+        this.entries.forEach(e => {
+            const s = state[e.strategy.id];
+            if (s) {
+                e.enabled = s.enabled;
+                e.weight = Number.isFinite(s.weight) && s.weight >= 0 ? s.weight : e.weight;
+            }
+        });
+    }
+
+    // No strategies can be added or removed afterwards; state changes still apply
+    seal() {
+        this.sealed = true;
+    }
+
+    private assertOpen(id: string) {
+        if (this.sealed) {
+            throw new Error(`Cannot change strategy "${id}" at runtime: the analysis worker would not see it. Add it as a module in plugins/ instead.`);
+        }
+    }
+
+    private update(id: string, patch: Partial<StrategyPluginState>) {
+        const entry = this.entries.find(e => e.strategy.id === id);
+        if (!entry) throw new Error(`Unknown strategy "${id}"`);
+        Object.assign(entry, patch);
+    }
+}
+
+export const createDefaultRegistry = (): StrategyRegistry => {
+    const registry = new StrategyRegistry();
+    BUILT_IN_STRATEGIES.forEach(s => registry.register(s, DEFAULT_PLUGIN_STATE[s.id]));
+    PLUGIN_STRATEGIES.forEach(m => registry.register(m.default, m.defaultState));
+    return registry;
+};
+
+// Main-thread copy of the worker registries: holds the enabled / weight state
+// sent to the workers and scores backtests. Sealed, since a strategy added
+// here alone would never run in live analysis. Backtests may pass their own
+// instance.
+export const strategyRegistry = createDefaultRegistry();
+strategyRegistry.seal();
+
+// --- PERSISTENCE ---
+
+const STORAGE_KEY = 'eurusd-bot.strategy-plugins';
+
+export const loadStrategyPluginState = (): Record<string, StrategyPluginState> => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+export const saveStrategyPluginState = (state: Record<string, StrategyPluginState>) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
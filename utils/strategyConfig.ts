@@ -0,0 +1,206 @@
+import { StrategyConfig } from '../types';
+import type { StrategyPluginState } from './strategies';
+
+// --- STRATEGY CONFIG ---
+// Every tunable number used by calculateIndicators / analyzeMarket. Signals
+// carry getConfigVersion(config) so results can be compared per parameter set.
+
+const STORAGE_KEY = 'eurusd-bot.strategy';
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = {
+    id: 'default',
+    indicators: {
+        macdFast: 12,
+        macdSlow: 26,
+        macdSignal: 9,
+        bbPeriod: 20,
+        bbMult: 2,
+        adxPeriod: 14,
+        rsiPeriod: 14,
+        emaTrendPeriod: 200,
+        smaFast: 20,
+        smaSlow: 50,
+        stochK: 14,
+        stochD: 3,
+        stochSmooth: 3,
+        stochRsiPeriod: 14,
+        cciPeriod: 20,
+        williamsPeriod: 14,
+        ichimokuTenkan: 9,
+        ichimokuKijun: 26,
+        ichimokuSenkouB: 52,
+        psarStep: 0.02,
+        psarMax: 0.2,
+        keltnerPeriod: 20,
+        keltnerMult: 2,
+        donchianPeriod: 20,
+        superTrendPeriod: 10,
+        superTrendMult: 3
+    },
+    regime: { trendAdx: 25, chopAdx: 20, reversionMaxAdx: 30 },
+    rsi: { overbought: 70, oversold: 30, midline: 50 },
+    weights: {
+        trendMacdCross: 25,
+        trendBbMidCross: 20,
+        trendRsi: 10,
+        trendHist: 5,
+        reversionBbBreak: 30,
+        reversionRsiExtreme: 20,
+        reversionMacdCross: 10,
+        oscillatorExtreme: 10,
+        oscillatorTrend: 15,
+        strategyMinScore: 20
+    },
+    sentiment: { deadband: 5, cap: 30 },
+    ai: { moveThreshold: 0.0005, maxRatio: 2, weight: 50 },
+    ensemble: { lstm: 1, gru: 1, cnn: 1, logistic: 1, naive: 0 },
+    confluence: { agreePoints: 10, conflictPoints: 15, vetoStrongTrend: 1 },
+    signal: { threshold: 70, strong: 85, max: 100, confidenceScale: 150, maxConfidence: 0.99, minProbability: 0 }
+};
+
+export const STRATEGY_PRESETS: StrategyConfig[] = [
+    DEFAULT_STRATEGY_CONFIG,
+    {
+        ...DEFAULT_STRATEGY_CONFIG,
+        id: 'conservative',
+        regime: { trendAdx: 30, chopAdx: 20, reversionMaxAdx: 25 },
+        sentiment: { deadband: 8, cap: 20 },
+        signal: { ...DEFAULT_STRATEGY_CONFIG.signal, threshold: 85, strong: 100, max: 115 }
+    },
+    {
+        ...DEFAULT_STRATEGY_CONFIG,
+        id: 'aggressive',
+        regime: { trendAdx: 22, chopAdx: 18, reversionMaxAdx: 32 },
+        rsi: { overbought: 65, oversold: 35, midline: 50 },
+        signal: { ...DEFAULT_STRATEGY_CONFIG.signal, threshold: 55, strong: 75, max: 95 }
+    },
+    {
+        ...DEFAULT_STRATEGY_CONFIG,
+        id: 'fast-indicators',
+        indicators: {
+            ...DEFAULT_STRATEGY_CONFIG.indicators,
+            macdFast: 8, macdSlow: 17, macdSignal: 9, bbPeriod: 14, bbMult: 2, adxPeriod: 10, rsiPeriod: 9, emaTrendPeriod: 100, smaFast: 10, smaSlow: 30
+        }
+    }
+];
+
+// FNV-1a over the parameters (not the id), so renaming a config keeps its
+// fingerprint and two identical parameter sets compare equal. Plugin state
+// (enabled strategies + weights) is part of the fingerprint when given.
+const hashString = (str: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < str.length; i++) {
+        hash ^= str.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const getConfigVersion = (config: StrategyConfig, plugins?: Record<string, StrategyPluginState>): string => {
+    const { id, ...params } = config;
+    return `${id}@${hashString(JSON.stringify(plugins ? { ...params, plugins } : params))}`;
+};
+
+export const validateStrategyConfig = (config: StrategyConfig): string[] => {
+    const errors: string[] = [];
+    const { indicators: ind, regime, rsi, ensemble, confluence, signal } = config;
+
+    if (!config.id.trim()) errors.push('Config name is required');
+    (Object.keys(config) as (keyof StrategyConfig)[]).forEach(group => {
+        if (group === 'id') return;
+        const values = config[group] as Record<string, number>;
+        Object.keys(values).forEach(field => {
+            if (!Number.isFinite(values[field])) errors.push(`${group}.${field} must be a number`);
+        });
+    });
+    const periods: [string, number][] = [
+        ['MACD fast', ind.macdFast], ['MACD slow', ind.macdSlow], ['MACD signal', ind.macdSignal],
+        ['BB period', ind.bbPeriod], ['ADX period', ind.adxPeriod], ['RSI period', ind.rsiPeriod], ['Trend EMA period', ind.emaTrendPeriod],
+        ['SMA fast', ind.smaFast], ['SMA slow', ind.smaSlow],
+        ['Stochastic %K', ind.stochK], ['Stoch RSI period', ind.stochRsiPeriod], ['CCI period', ind.cciPeriod], ['Williams %R period', ind.williamsPeriod],
+        ['Ichimoku tenkan', ind.ichimokuTenkan], ['Ichimoku kijun', ind.ichimokuKijun], ['Ichimoku senkou B', ind.ichimokuSenkouB],
+        ['Keltner period', ind.keltnerPeriod], ['Donchian period', ind.donchianPeriod], ['SuperTrend period', ind.superTrendPeriod]
+    ];
+    periods.forEach(([label, value]) => {
+        if (!Number.isInteger(value) || value < 2) errors.push(`${label} must be an integer >= 2`);
+    });
+    const smoothing: [string, number][] = [['Stochastic %D', ind.stochD], ['Stochastic smoothing', ind.stochSmooth]];
+    smoothing.forEach(([label, value]) => {
+        if (!Number.isInteger(value) || value < 1) errors.push(`${label} must be an integer >= 1`);
+    });
+    if (ind.macdFast >= ind.macdSlow) errors.push('MACD fast period must be shorter than the slow period');
+    if (!(ind.bbMult > 0)) errors.push('BB multiplier must be positive');
+    if (!(ind.keltnerMult > 0) || !(ind.superTrendMult > 0)) errors.push('Keltner and SuperTrend multipliers must be positive');
+    if (!(ind.psarStep > 0 && ind.psarStep <= ind.psarMax)) errors.push('Parabolic SAR step must be positive and not exceed the max');
+    if (regime.chopAdx > regime.trendAdx) errors.push('Choppy ADX cut-off must not exceed the trend cut-off');
+    if (!(rsi.oversold < rsi.midline && rsi.midline < rsi.overbought)) errors.push('RSI bands must satisfy oversold < midline < overbought');
+    if (Object.keys(ensemble).some(id => ensemble[id as keyof typeof ensemble] < 0)) errors.push('Ensemble weights must be >= 0');
+    if (confluence.agreePoints < 0 || confluence.conflictPoints < 0) errors.push('Confluence points must be >= 0');
+    if (confluence.vetoStrongTrend !== 0 && confluence.vetoStrongTrend !== 1) errors.push('Confluence veto must be 0 or 1');
+    if (!(signal.threshold <= signal.strong && signal.strong <= signal.max)) errors.push('Signal thresholds must satisfy threshold <= strong <= max');
+    if (!(signal.confidenceScale > 0)) errors.push('Confidence scale must be positive');
+    if (!(signal.maxConfidence > 0 && signal.maxConfidence <= 1)) errors.push('Max confidence must be in (0, 1]');
+    if (!(signal.minProbability >= 0 && signal.minProbability < 1)) errors.push('Min probability must be in [0, 1)');
+
+    return errors;
+};
+
+// --- PARAMETER PATHS ---
+// Numeric fields addressed as dotted 'group.field' paths (optimiser search space)
+
+export type StrategyConfigGroup = Exclude<keyof StrategyConfig, 'id'>;
+
+export const STRATEGY_CONFIG_GROUPS: StrategyConfigGroup[] = (Object.keys(DEFAULT_STRATEGY_CONFIG) as (keyof StrategyConfig)[])
+    .filter((key): key is StrategyConfigGroup => key !== 'id');
+
+const isConfigGroup = (group: string): group is StrategyConfigGroup => (STRATEGY_CONFIG_GROUPS as string[]).includes(group);
+
+// Value of a numeric field, undefined for unknown or non-numeric ones
+const readNumericField = (values: StrategyConfig[StrategyConfigGroup], field: string): number | undefined => {
+    const value: unknown = Object.prototype.hasOwnProperty.call(values, field) ? Reflect.get(values, field) : undefined;
+    return typeof value === 'number' ? value : undefined;
+};
+
+export const getConfigParam = (config: StrategyConfig, path: string): number | undefined => {
+    const [group, field, ...rest] = path.split('.');
+    if (!isConfigGroup(group) || field === undefined || rest.length > 0) return undefined;
+    return readNumericField(config[group], field);
+};
+
+export const listConfigParams = (config: StrategyConfig): string[] =>
+    STRATEGY_CONFIG_GROUPS.flatMap(group => Object.keys(config[group])
+        .filter(field => readNumericField(config[group], field) !== undefined)
+        .map(field => `${group}.${field}`));
+
+// Copy of `config` with one numeric field replaced
+export const setConfigParam = (config: StrategyConfig, path: string, value: number): StrategyConfig => {
+    const [group, field] = path.split('.');
+    if (!isConfigGroup(group) || getConfigParam(config, path) === undefined) throw new Error(`Unknown parameter "${path}"`);
+    return { ...config, [group]: { ...config[group], [field]: value } };
+};
+
+// --- PERSISTENCE ---
+
+const mergeGroup = <K extends StrategyConfigGroup>(target: StrategyConfig, stored: Partial<StrategyConfig>, group: K) => {
+    target[group] = { ...DEFAULT_STRATEGY_CONFIG[group], ...stored[group] };
+};
+
+export const loadStrategyConfig = (): StrategyConfig => {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return DEFAULT_STRATEGY_CONFIG;
+        const stored = JSON.parse(raw) as Partial<StrategyConfig>;
+        // Fill groups/fields added after the config was saved
+        const merged: StrategyConfig = { ...DEFAULT_STRATEGY_CONFIG, ...stored };
+        STRATEGY_CONFIG_GROUPS.forEach(group => mergeGroup(merged, stored, group));
+        return validateStrategyConfig(merged).length === 0 ? merged : DEFAULT_STRATEGY_CONFIG;
+    } catch (e) {
+        return DEFAULT_STRATEGY_CONFIG;
+    }
+};
+
+export const saveStrategyConfig = (config: StrategyConfig) => {
+    const errors = validateStrategyConfig(config);
+    if (errors.length > 0) throw new Error(errors.join('\n'));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TWELVEDATA_API_KEYS?: string;
+  readonly VITE_FINNHUB_API_KEYS?: string;
+  readonly VITE_TELEGRAM_BOT_TOKEN?: string;
+  readonly VITE_TELEGRAM_CHAT_ID?: string;
+  readonly VITE_NEWS_FEED_URLS?: string;
+  readonly VITE_CALENDAR_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}